@@ -11,11 +11,19 @@ import TeachingProgress from './components/TeachingProgress';
 import Payment from './components/Payment';
 import DocumentManager from './components/DocumentManager';
 import HolidayManager from './components/HolidayManager';
-import { LayoutDashboard, CalendarDays, PieChart, GraduationCap, Menu, X, Users, Settings, TrendingUp, CreditCard, FolderOpen, CalendarOff } from 'lucide-react';
+import HistoryPanel from './components/HistoryPanel';
+import SemesterSwitcher from './components/SemesterSwitcher';
+import WorkloadReport from './components/WorkloadReport';
+import GradeBook from './components/GradeBook';
+import ArchiveManager from './components/ArchiveManager';
+import RoomOccupancy from './components/RoomOccupancy';
+import { LayoutDashboard, CalendarDays, PieChart, GraduationCap, Menu, X, Users, Settings, TrendingUp, CreditCard, FolderOpen, CalendarOff, Calculator, ClipboardList, Archive, DoorOpen } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [activeView, setActiveView] = useState<'dashboard' | 'schedule' | 'stats' | 'progress' | 'manage' | 'students' | 'system' | 'payment' | 'documents' | 'holidays'>('dashboard');
+  const [activeView, setActiveView] = useState<'dashboard' | 'schedule' | 'stats' | 'progress' | 'manage' | 'students' | 'grades' | 'system' | 'payment' | 'workload' | 'documents' | 'holidays' | 'rooms' | 'archive'>('dashboard');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  // Missed session picked in Statistics ("Xếp bù"): ScheduleManager opens its add form for it
+  const [makeupRequest, setMakeupRequest] = useState<string | null>(null);
 
   const NavItem = ({ view, icon: Icon, label }: { view: typeof activeView, icon: any, label: string }) => (
     <button
@@ -39,19 +47,29 @@ const App: React.FC = () => {
               <GraduationCap className="mr-2" /> EduPro
             </h1>
           </div>
+          <div className="px-4 pt-4">
+            <SemesterSwitcher />
+          </div>
           <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
             <NavItem view="dashboard" icon={LayoutDashboard} label="Tổng quan" />
             <NavItem view="schedule" icon={CalendarDays} label="Quản lý lịch & Thi" />
             <NavItem view="holidays" icon={CalendarOff} label="Quản lý ngày nghỉ" />
+            <NavItem view="rooms" icon={DoorOpen} label="Phòng học" />
             <NavItem view="payment" icon={CreditCard} label="Thanh toán giảng dạy" />
+            <NavItem view="workload" icon={Calculator} label="Báo cáo thù lao" />
             <NavItem view="progress" icon={TrendingUp} label="Tiến độ giảng dạy" />
             <NavItem view="stats" icon={PieChart} label="Thống kê" />
             <NavItem view="manage" icon={GraduationCap} label="Quản lý giảng dạy" />
             <NavItem view="students" icon={Users} label="Quản lý HSSV" />
+            <NavItem view="grades" icon={ClipboardList} label="Bảng điểm" />
             <NavItem view="documents" icon={FolderOpen} label="Hồ sơ" />
+            <NavItem view="archive" icon={Archive} label="Lưu trữ" />
             <NavItem view="system" icon={Settings} label="Hệ thống" />
           </nav>
-          <div className="p-4 border-t text-xs text-center text-gray-400">
+          <div className="px-4 pt-2 border-t">
+            <HistoryPanel />
+          </div>
+          <div className="p-4 pt-2 text-xs text-center text-gray-400">
             v1.1.0
           </div>
         </aside>
@@ -71,14 +89,18 @@ const App: React.FC = () => {
           <main className="flex-1 overflow-auto p-4 md:p-8">
             <div className="max-w-7xl mx-auto">
               {activeView === 'dashboard' && <Dashboard />}
-              {activeView === 'schedule' && <ScheduleManager />}
+              {activeView === 'schedule' && <ScheduleManager makeupRequest={makeupRequest} onMakeupOpened={() => setMakeupRequest(null)} />}
               {activeView === 'holidays' && <HolidayManager />}
+              {activeView === 'rooms' && <RoomOccupancy />}
               {activeView === 'progress' && <TeachingProgress />}
               {activeView === 'payment' && <Payment />}
+              {activeView === 'workload' && <WorkloadReport />}
               {activeView === 'documents' && <DocumentManager />}
-              {activeView === 'stats' && <Statistics />}
+              {activeView === 'stats' && <Statistics onScheduleMakeup={id => { setMakeupRequest(id); setActiveView('schedule'); }} />}
               {activeView === 'manage' && <Management />}
               {activeView === 'students' && <StudentManager />}
+              {activeView === 'grades' && <GradeBook />}
+              {activeView === 'archive' && <ArchiveManager />}
               {activeView === 'system' && <SystemManager />}
             </div>
           </main>
@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { ClassArchive, ScheduleItem, ScheduleStatus } from '../types';
+import { Archive, ArchiveRestore, Download, Eye, Search, X } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { parseLocal, isTaughtSession, isPayableSession, isFullyPaid, getSchedulesAmount, getRoomName, getAssessmentComponents, computeFinalScore, getGradeResult } from '../utils';
+import { STATUS_TEXT } from './StudentManager';
+import { RESULT_LABELS } from './GradeBook';
+
+// Archive store of finished classes: archive a school year, look up and export archived data, restore a class
+const ArchiveManager: React.FC = () => {
+  const { classes, schedules, students, teachers, subjects, rooms, payments, rateRules, classArchives, archiveClasses, restoreArchived } = useApp();
+
+  const activeClasses = classes.filter(c => !c.archived);
+  const schoolYears = useMemo(() => Array.from(new Set(activeClasses.map(c => c.schoolYear).filter(Boolean))).sort(), [classes]);
+
+  const [archiveYear, setArchiveYear] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [search, setSearch] = useState('');
+  const [viewing, setViewing] = useState<ClassArchive | null>(null);
+
+  const yearClasses = activeClasses.filter(c => c.schoolYear === archiveYear);
+  const classNameOf = (classId: string) => classes.find(c => c.id === classId)?.name || '(Lớp đã xóa)';
+  const schoolYearOf = (classId: string) => classes.find(c => c.id === classId)?.schoolYear || '';
+
+  const handleSelectYear = (year: string) => {
+    setArchiveYear(year);
+    setSelectedIds(activeClasses.filter(c => c.schoolYear === year).map(c => c.id));
+  };
+
+  const toggleClass = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleArchive = () => {
+    if (selectedIds.length === 0) return;
+    const upcoming = schedules.filter(s => selectedIds.includes(s.classId) && s.status !== ScheduleStatus.OFF && !isTaughtSession(s)).length;
+    // Taught sessions of subject-class pairs not fully paid yet: once archived they no longer show in Payment
+    const taughtByPair: Record<string, ScheduleItem[]> = {};
+    schedules.filter(s => selectedIds.includes(s.classId) && isPayableSession(s) && isTaughtSession(s)).forEach(s => {
+      const key = `${s.subjectId}|${s.classId}`;
+      taughtByPair[key] = [...(taughtByPair[key] || []), s];
+    });
+    const unpaid = Object.values(taughtByPair).filter(items => !isFullyPaid(payments, schedules, items[0].subjectId, items[0].classId));
+    const unpaidAmount = getSchedulesAmount(unpaid.flat(), teachers, rateRules);
+    const message = `Lưu trữ ${selectedIds.length} lớp? Học sinh, lịch học, tiến độ, điểm danh và điểm của các lớp này sẽ được chuyển vào kho lưu trữ (chỉ xem).`
+      + (upcoming > 0 ? `\n\nLưu ý: còn ${upcoming} buổi chưa dạy.` : '')
+      + (unpaid.length > 0
+        ? `\n\nCẢNH BÁO: ${unpaid.length} môn đã dạy chưa thanh toán đủ (khoảng ${unpaidAmount.toLocaleString()} đ): `
+          + unpaid.map(items => `${subjects.find(sub => sub.id === items[0].subjectId)?.name || items[0].subjectId} - ${classNameOf(items[0].classId)}`).join(', ')
+          + '. Sau khi lưu trữ, các buổi này không còn hiện ở mục Thanh toán.'
+        : '');
+    if (!confirm(message)) return;
+    archiveClasses(selectedIds, note.trim() || undefined);
+    setSelectedIds([]);
+    setArchiveYear('');
+    setNote('');
+  };
+
+  const handleRestore = (archive: ClassArchive) => {
+    if (!confirm(`Khôi phục lớp ${classNameOf(archive.classId)} cùng ${archive.students.length} học sinh và ${archive.schedules.length} buổi học?`)) return;
+    restoreArchived('class', archive.classId);
+    if (viewing?.id === archive.id) setViewing(null);
+  };
+
+  // Search by class name / school year, or by the name or code of an archived student
+  const results = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return classArchives
+      .map(archive => {
+        const classMatch = !term || classNameOf(archive.classId).toLowerCase().includes(term) || schoolYearOf(archive.classId).toLowerCase().includes(term);
+        const matchedStudents = term && !classMatch
+          ? archive.students.filter(s => s.name.toLowerCase().includes(term) || (s.studentCode || '').toLowerCase().includes(term))
+          : [];
+        return { archive, classMatch, matchedStudents };
+      })
+      .filter(r => r.classMatch || r.matchedStudents.length > 0)
+      .sort((a, b) => b.archive.archivedAt.localeCompare(a.archive.archivedAt));
+  }, [classArchives, classes, search]);
+
+  const handleExport = (archive: ClassArchive) => {
+    const className = classNameOf(archive.classId);
+    const wb = XLSX.utils.book_new();
+
+    const studentRows = archive.students.map((s, idx) => ({
+      'STT': idx + 1,
+      'Mã HS': s.studentCode,
+      'Họ tên': s.name,
+      'Ngày sinh': s.dob ? format(parseLocal(s.dob), 'dd/MM/yyyy') : '',
+      'Nơi sinh': s.pob,
+      'Điện thoại': s.phone,
+      'Trạng thái': STATUS_TEXT[s.status || 'studying'],
+    }));
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(studentRows), 'HocSinh');
+
+    const scheduleRows = [...archive.schedules]
+      .sort((a, b) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod)
+      .map(s => ({
+        'Ngày': format(parseLocal(s.date), 'dd/MM/yyyy'),
+        'Buổi': s.session,
+        'Tiết': `${s.startPeriod}-${s.startPeriod + s.periodCount - 1}`,
+        'Số tiết': s.periodCount,
+        'Môn học': subjects.find(x => x.id === s.subjectId)?.name || '',
+        'Giáo viên': teachers.find(t => t.id === s.teacherId)?.name || '',
+        'Phòng': getRoomName(s.roomId, rooms),
+        'Loại': s.type === 'exam' ? 'Thi' : 'Học',
+        'Trạng thái': s.status,
+        'Ghi chú': s.note || '',
+      }));
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(scheduleRows), 'LichHoc');
+
+    const gradeRows = archive.grades.map(g => {
+      const subject = subjects.find(x => x.id === g.subjectId);
+      const student = archive.students.find(s => s.id === g.studentId);
+      const components = subject ? getAssessmentComponents(subject) : [];
+      return {
+        'Mã HS': student?.studentCode || '',
+        'Họ tên': student?.name || '',
+        'Môn học': subject?.name || '',
+        'Thi lại': g.reExamScore ?? '',
+        'Điểm TK': computeFinalScore(g, components) ?? '',
+        'Kết quả': RESULT_LABELS[getGradeResult(g, components)].label,
+      };
+    });
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(gradeRows), 'Diem');
+
+    XLSX.writeFile(wb, `LuuTru_${className}.xlsx`);
+  };
+
+  // Read-only summary per subject of an archived class
+  const subjectSummary = (archive: ClassArchive) => {
+    const map: Record<string, { periods: number; start: string; end: string; teacherIds: Set<string> }> = {};
+    archive.schedules.filter(s => s.type === 'class' && isTaughtSession(s)).forEach(s => {
+      const entry = map[s.subjectId] || (map[s.subjectId] = { periods: 0, start: s.date, end: s.date, teacherIds: new Set() });
+      entry.periods += s.periodCount;
+      if (s.date < entry.start) entry.start = s.date;
+      if (s.date > entry.end) entry.end = s.date;
+      entry.teacherIds.add(s.teacherId);
+    });
+    return Object.entries(map).map(([subjectId, e]) => ({
+      subjectName: subjects.find(x => x.id === subjectId)?.name || '',
+      periods: e.periods,
+      range: `${format(parseLocal(e.start), 'dd/MM/yyyy')} - ${format(parseLocal(e.end), 'dd/MM/yyyy')}`,
+      teacherNames: Array.from(e.teacherIds).map(id => teachers.find(t => t.id === id)?.name || '').filter(Boolean).join(', '),
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-800 flex items-center">
+        <Archive className="mr-3 text-gray-600" /> Lưu trữ lớp đã kết thúc
+      </h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="p-6 rounded-xl shadow border bg-white border-gray-200 h-fit">
+          <h2 className="text-lg font-bold mb-4 text-gray-800">Lưu trữ theo niên khóa</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Niên khóa</label>
+              <select className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none" value={archiveYear} onChange={e => handleSelectYear(e.target.value)}>
+                <option value="">-- Chọn niên khóa --</option>
+                {schoolYears.map(y => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </div>
+            {archiveYear && (
+              <div className="border rounded divide-y max-h-60 overflow-y-auto">
+                {yearClasses.map(c => {
+                  const upcoming = schedules.filter(s => s.classId === c.id && s.status !== ScheduleStatus.OFF && !isTaughtSession(s)).length;
+                  return (
+                    <label key={c.id} className="flex items-center gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input type="checkbox" checked={selectedIds.includes(c.id)} onChange={() => toggleClass(c.id)} />
+                      <span className="flex-1 font-medium">{c.name}</span>
+                      <span className="text-xs text-gray-500">{students.filter(s => s.classId === c.id).length} HS</span>
+                      {upcoming > 0 && <span className="text-xs text-orange-600">{upcoming} buổi chưa dạy</span>}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ghi chú</label>
+              <input className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none" placeholder="VD: Tốt nghiệp 2025" value={note} onChange={e => setNote(e.target.value)} />
+            </div>
+            <button
+              onClick={handleArchive}
+              disabled={selectedIds.length === 0}
+              className="w-full bg-gray-700 text-white py-2 rounded hover:bg-gray-800 transition flex items-center justify-center font-medium disabled:opacity-50"
+            >
+              <Archive size={18} className="mr-2" /> Lưu trữ {selectedIds.length > 0 ? `${selectedIds.length} lớp` : ''}
+            </button>
+          </div>
+        </div>
+
+        <div className="md:col-span-2 bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b flex items-center gap-2">
+            <Search size={18} className="text-gray-400" />
+            <input
+              className="flex-1 outline-none text-sm"
+              placeholder="Tìm theo tên lớp, niên khóa, tên hoặc mã học sinh..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+            />
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="p-3">Lớp</th>
+                <th className="p-3">Niên khóa</th>
+                <th className="p-3">Ngày lưu trữ</th>
+                <th className="p-3 text-right">HSSV</th>
+                <th className="p-3 text-right">Buổi học</th>
+                <th className="p-3">Hành động</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {results.map(({ archive, matchedStudents }) => (
+                <tr key={archive.id} className="hover:bg-gray-50 align-top">
+                  <td className="p-3">
+                    <div className="font-medium text-gray-800">{classNameOf(archive.classId)}</div>
+                    {archive.note && <div className="text-xs text-gray-500">{archive.note}</div>}
+                    {matchedStudents.length > 0 && (
+                      <div className="text-xs text-blue-700 mt-1">
+                        Tìm thấy: {matchedStudents.map(s => `${s.name} (${s.studentCode})`).join(', ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3">{schoolYearOf(archive.classId)}</td>
+                  <td className="p-3">{format(new Date(archive.archivedAt), 'dd/MM/yyyy')}</td>
+                  <td className="p-3 text-right">{archive.students.length}</td>
+                  <td className="p-3 text-right">{archive.schedules.length}</td>
+                  <td className="p-3 flex space-x-2">
+                    <button onClick={() => setViewing(archive)} className="text-blue-600" title="Xem"><Eye size={18} /></button>
+                    <button onClick={() => handleExport(archive)} className="text-green-600" title="Xuất Excel"><Download size={18} /></button>
+                    <button onClick={() => handleRestore(archive)} className="text-orange-500" title="Khôi phục"><ArchiveRestore size={18} /></button>
+                  </td>
+                </tr>
+              ))}
+              {results.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-gray-400 italic">
+                    {classArchives.length === 0 ? 'Chưa có lớp nào được lưu trữ.' : 'Không tìm thấy kết quả phù hợp.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+            <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+              <div>
+                <h3 className="font-bold text-lg flex items-center"><Archive className="mr-2 text-gray-600" size={20} /> Lớp {classNameOf(viewing.classId)} (lưu trữ)</h3>
+                <p className="text-sm text-gray-500">Lưu trữ ngày {format(new Date(viewing.archivedAt), 'dd/MM/yyyy HH:mm')} - chỉ xem</p>
+              </div>
+              <button onClick={() => setViewing(null)} className="text-gray-500 hover:text-red-500"><X /></button>
+            </div>
+            <div className="overflow-y-auto flex-1 p-6 space-y-6">
+              <div>
+                <h4 className="font-semibold text-gray-700 mb-2">Học sinh ({viewing.students.length})</h4>
+                <table className="w-full text-left text-sm border">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="p-2 w-12">STT</th>
+                      <th className="p-2">Mã HS</th>
+                      <th className="p-2">Họ tên</th>
+                      <th className="p-2">Ngày sinh</th>
+                      <th className="p-2">Trạng thái</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {viewing.students.map((s, idx) => (
+                      <tr key={s.id}>
+                        <td className="p-2 text-gray-500">{idx + 1}</td>
+                        <td className="p-2">{s.studentCode}</td>
+                        <td className="p-2 font-medium">{s.name}</td>
+                        <td className="p-2">{s.dob ? format(parseLocal(s.dob), 'dd/MM/yyyy') : ''}</td>
+                        <td className="p-2">{STATUS_TEXT[s.status || 'studying']}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <h4 className="font-semibold text-gray-700 mb-2">Môn học đã dạy</h4>
+                <table className="w-full text-left text-sm border">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="p-2">Môn học</th>
+                      <th className="p-2">Giáo viên</th>
+                      <th className="p-2">Thời gian</th>
+                      <th className="p-2 text-right">Số tiết</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {subjectSummary(viewing).map(row => (
+                      <tr key={row.subjectName}>
+                        <td className="p-2 font-medium">{row.subjectName}</td>
+                        <td className="p-2">{row.teacherNames}</td>
+                        <td className="p-2">{row.range}</td>
+                        <td className="p-2 text-right">{row.periods}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <div className="p-4 border-t bg-gray-50 flex justify-end gap-2 shrink-0">
+              <button onClick={() => handleExport(viewing)} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center">
+                <Download size={16} className="mr-2" /> Xuất Excel
+              </button>
+              <button onClick={() => handleRestore(viewing)} className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 flex items-center">
+                <ArchiveRestore size={16} className="mr-2" /> Khôi phục
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchiveManager;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { AttendanceEntry, AttendanceStatus } from '../types';
+import { X, Save, ClipboardCheck, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { parseLocal, getAbsenceTotals, getAbsenceCeiling, isBarredFromExam } from '../utils';
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; className: string }[] = [
+  { value: 'present', label: 'Có mặt', className: 'bg-green-600 text-white border-green-600' },
+  { value: 'late', label: 'Đi trễ', className: 'bg-yellow-500 text-white border-yellow-500' },
+  { value: 'excused', label: 'Vắng có phép', className: 'bg-blue-600 text-white border-blue-600' },
+  { value: 'unexcused', label: 'Vắng không phép', className: 'bg-red-600 text-white border-red-600' },
+];
+
+interface AttendanceModalProps {
+  scheduleId: string;
+  onClose: () => void;
+}
+
+// Roll call of one class session, with the running absence totals of the subject
+const AttendanceModal: React.FC<AttendanceModalProps> = ({ scheduleId, onClose }) => {
+  const { schedules, students, subjects, classes, attendance, saveAttendance } = useApp();
+
+  const item = schedules.find(s => s.id === scheduleId);
+  const subject = subjects.find(s => s.id === item?.subjectId);
+  const currentClass = classes.find(c => c.id === item?.classId);
+  const existing = attendance.find(a => a.scheduleId === scheduleId);
+
+  // Students currently studying, plus anyone already recorded in this roll call
+  const roster = useMemo(() => students
+      .filter(s => s.classId === item?.classId && ((s.status || 'studying') === 'studying' || existing?.entries.some(e => e.studentId === s.id))),
+  [students, item, existing]);
+
+  const [entries, setEntries] = useState<Record<string, AttendanceEntry>>(() => {
+      const initial: Record<string, AttendanceEntry> = {};
+      roster.forEach(s => {
+          initial[s.id] = existing?.entries.find(e => e.studentId === s.id) || { studentId: s.id, status: 'present' };
+      });
+      return initial;
+  });
+
+  // Totals from the other sessions, so this roll call's draft can be added on top
+  const otherTotals = useMemo(() => item
+      ? getAbsenceTotals(item.subjectId, item.classId, schedules, attendance.filter(a => a.scheduleId !== scheduleId))
+      : {},
+  [item, schedules, attendance, scheduleId]);
+
+  if (!item || !subject || !currentClass) return null;
+
+  const ceiling = getAbsenceCeiling(subject);
+  const entryOf = (studentId: string): AttendanceEntry => entries[studentId] || { studentId, status: 'present' };
+
+  const setStatus = (studentId: string, status: AttendanceStatus) => {
+      setEntries(prev => ({ ...prev, [studentId]: { ...entryOf(studentId), status } }));
+  };
+
+  const setNote = (studentId: string, note: string) => {
+      setEntries(prev => ({ ...prev, [studentId]: { ...entryOf(studentId), note } }));
+  };
+
+  const handleAllPresent = () => {
+      const next: Record<string, AttendanceEntry> = {};
+      roster.forEach(s => { next[s.id] = { ...entryOf(s.id), status: 'present' }; });
+      setEntries(next);
+  };
+
+  const handleSave = () => {
+      saveAttendance(scheduleId, roster.map(s => {
+          const e = entryOf(s.id);
+          return { ...e, note: e.note?.trim() || undefined };
+      }));
+      onClose();
+  };
+
+  const counts = ATTENDANCE_STATUSES.map(st => ({ ...st, count: roster.filter(s => entryOf(s.id).status === st.value).length }));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <div>
+            <h3 className="font-bold text-lg flex items-center"><ClipboardCheck className="mr-2 text-blue-600" size={20} /> Điểm danh: {subject.name} - Lớp {currentClass.name}</h3>
+            <p className="text-sm text-gray-500">
+              {format(parseLocal(item.date), 'dd/MM/yyyy')} - Buổi {item.session} - Tiết {item.startPeriod}-{item.startPeriod + item.periodCount - 1}
+              {existing && <span className="ml-2 italic">(Đã điểm danh lúc {format(new Date(existing.takenAt), 'HH:mm dd/MM')})</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500"><X /></button>
+        </div>
+
+        <div className="px-6 py-3 border-b flex flex-wrap items-center gap-3 text-sm shrink-0">
+          {counts.map(c => (
+            <span key={c.value} className="px-2 py-1 rounded bg-gray-100 text-gray-700">{c.label}: <strong>{c.count}</strong></span>
+          ))}
+          <span className="text-gray-500 italic">Giới hạn vắng: {ceiling}/{subject.totalPeriods} tiết</span>
+          <button onClick={handleAllPresent} className="ml-auto text-green-700 bg-green-50 hover:bg-green-100 border border-green-200 px-3 py-1.5 rounded">
+            Tất cả có mặt
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {roster.length === 0 ? (
+            <div className="p-8 text-center text-gray-400 italic">Lớp chưa có học sinh nào đang học.</div>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="p-3 w-12">STT</th>
+                  <th className="p-3">Họ tên</th>
+                  <th className="p-3">Trạng thái</th>
+                  <th className="p-3">Ghi chú</th>
+                  <th className="p-3 text-right whitespace-nowrap">Đã vắng</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {roster.map((s, idx) => {
+                  const entry = entryOf(s.id);
+                  const other = otherTotals[s.id] || { excused: 0, unexcused: 0, late: 0 };
+                  // Totals including the draft of this session
+                  const total = {
+                      excused: other.excused + (entry.status === 'excused' ? item.periodCount : 0),
+                      unexcused: other.unexcused + (entry.status === 'unexcused' ? item.periodCount : 0),
+                      late: other.late + (entry.status === 'late' ? 1 : 0)
+                  };
+                  const barred = isBarredFromExam(total, subject);
+                  return (
+                    <tr key={s.id} className={barred ? 'bg-red-50' : ''}>
+                      <td className="p-3 text-gray-500">{idx + 1}</td>
+                      <td className="p-3">
+                        <div className="font-medium text-gray-800">{s.name}</div>
+                        <div className="text-xs text-gray-500">{s.studentCode}</div>
+                      </td>
+                      <td className="p-3">
+                        <div className="flex flex-wrap gap-1">
+                          {ATTENDANCE_STATUSES.map(st => (
+                            <button
+                              key={st.value}
+                              onClick={() => setStatus(s.id, st.value)}
+                              className={`px-2 py-1 rounded border text-xs ${entry.status === st.value ? st.className : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'}`}
+                            >
+                              {st.label}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="p-3">
+                        <input className="border rounded p-1 w-full text-xs" value={entry.note || ''} onChange={e => setNote(s.id, e.target.value)} />
+                      </td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                        <span className={barred ? 'text-red-600 font-bold' : 'text-gray-700'}>{total.excused + total.unexcused}/{ceiling}</span>
+                        {barred && (
+                          <div className="text-xs text-red-600 flex items-center justify-end"><AlertTriangle size={12} className="mr-1" /> Cấm thi</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+          <button onClick={handleSave} disabled={roster.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center disabled:opacity-50">
+            <Save size={16} className="mr-2" /> Lưu điểm danh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceModal;
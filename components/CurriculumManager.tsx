@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { Curriculum, CurriculumSubject } from '../types';
+import { Plus, Trash2, Edit2, Save, X, Copy } from 'lucide-react';
+import { getPeriodSplit } from '../utils';
+
+type CurriculumForm = Omit<Curriculum, 'id'>;
+
+const emptyForm = (): CurriculumForm => ({ name: '', majorId: '', intakeYear: new Date().getFullYear(), subjects: [] });
+
+// Curricula per major and intake year (tab of Management): which subjects the linked classes take,
+// in which planned semester and with which prerequisites. Theory/practice periods come from the subject catalogue.
+const CurriculumManager: React.FC = () => {
+  const { curricula, majors, subjects, classes, addCurriculum, updateCurriculum, deleteCurriculum } = useApp();
+
+  // Curriculum being edited (id) or created (null id)
+  const [editing, setEditing] = useState<{ id: string | null; form: CurriculumForm } | null>(null);
+  const [addSubjectId, setAddSubjectId] = useState('');
+
+  const majorName = (id: string) => majors.find(m => m.id === id)?.name || '';
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name || '(đã xóa)';
+  const splitOf = (id: string) => {
+    const subject = subjects.find(s => s.id === id);
+    return subject ? getPeriodSplit(subject) : { theory: 0, practice: 0 };
+  };
+
+  const sorted = [...curricula].sort((a, b) =>
+    majorName(a.majorId).localeCompare(majorName(b.majorId)) || b.intakeYear - a.intakeYear || a.name.localeCompare(b.name)
+  );
+
+  const startNew = (copyFrom?: Curriculum) => {
+    setAddSubjectId('');
+    if (!copyFrom) { setEditing({ id: null, form: emptyForm() }); return; }
+    // New intake of the same programme: keep the subject plan, move the year on
+    const intakeYear = copyFrom.intakeYear + 1;
+    setEditing({
+      id: null,
+      form: {
+        name: copyFrom.name.replace(String(copyFrom.intakeYear), String(intakeYear)),
+        majorId: copyFrom.majorId,
+        intakeYear,
+        subjects: copyFrom.subjects.map(cs => ({ ...cs, prerequisiteIds: cs.prerequisiteIds ? [...cs.prerequisiteIds] : undefined })),
+      }
+    });
+  };
+
+  const startEdit = (c: Curriculum) => {
+    setAddSubjectId('');
+    setEditing({ id: c.id, form: { name: c.name, majorId: c.majorId, intakeYear: c.intakeYear, subjects: c.subjects } });
+  };
+
+  const patchForm = (patch: Partial<CurriculumForm>) => {
+    setEditing(prev => prev && { ...prev, form: { ...prev.form, ...patch } });
+  };
+
+  const patchSubject = (subjectId: string, patch: Partial<CurriculumSubject>) => {
+    if (!editing) return;
+    patchForm({ subjects: editing.form.subjects.map(cs => cs.subjectId === subjectId ? { ...cs, ...patch } : cs) });
+  };
+
+  const handleAddSubject = () => {
+    if (!editing || !addSubjectId) return;
+    patchForm({ subjects: [...editing.form.subjects, { subjectId: addSubjectId }] });
+    setAddSubjectId('');
+  };
+
+  const handleRemoveSubject = (subjectId: string) => {
+    if (!editing) return;
+    patchForm({
+      subjects: editing.form.subjects
+        .filter(cs => cs.subjectId !== subjectId)
+        .map(cs => cs.prerequisiteIds?.includes(subjectId) ? { ...cs, prerequisiteIds: cs.prerequisiteIds.filter(id => id !== subjectId) } : cs)
+    });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const { form } = editing;
+    if (!form.name.trim() || !form.majorId || !form.intakeYear) {
+      alert('Vui lòng nhập tên chương trình, ngành và khóa tuyển sinh.');
+      return;
+    }
+    const data = { ...form, name: form.name.trim() };
+    if (editing.id) updateCurriculum(editing.id, data);
+    else addCurriculum(data);
+    setEditing(null);
+  };
+
+  const handleDelete = (c: Curriculum) => {
+    const linked = classes.filter(cls => cls.curriculumId === c.id).length;
+    const warning = linked > 0 ? ` ${linked} lớp đang dùng chương trình này sẽ lấy môn học theo ngành.` : '';
+    if (!confirm(`Xóa chương trình "${c.name}"?${warning}`)) return;
+    deleteCurriculum(c.id);
+    if (editing?.id === c.id) setEditing(null);
+  };
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const { form } = editing;
+    const inPlan = new Set(form.subjects.map(cs => cs.subjectId));
+    // Subjects a class of this major may take: its own, common and culture subjects
+    const candidates = subjects.filter(s =>
+      !inPlan.has(s.id) && (!form.majorId || s.majorId === form.majorId || ['common', 'culture', 'culture_8'].includes(s.majorId))
+    );
+    const rows = [...form.subjects].sort((a, b) => (a.semesterNo || 99) - (b.semesterNo || 99));
+
+    return (
+      <div className="bg-white p-4 rounded shadow space-y-4 border-t-4 border-blue-500">
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+          <input placeholder="Tên chương trình (VD: Điện công nghiệp K2025)" className="border p-2 rounded md:col-span-5" value={form.name} onChange={e => patchForm({ name: e.target.value })} />
+          <select className="border p-2 rounded md:col-span-4" value={form.majorId} onChange={e => patchForm({ majorId: e.target.value })}>
+            <option value="">Chọn Ngành...</option>
+            {majors.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <input type="number" placeholder="Khóa tuyển sinh" title="Khóa tuyển sinh (năm)" className="border p-2 rounded md:col-span-3" value={form.intakeYear || ''} onChange={e => patchForm({ intakeYear: Number(e.target.value) })} />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="p-2">Môn học</th>
+                <th className="p-2 w-24">Học kỳ</th>
+                <th className="p-2 w-24">Lý thuyết</th>
+                <th className="p-2 w-24">Thực hành</th>
+                <th className="p-2">Môn tiên quyết</th>
+                <th className="p-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(cs => {
+                const { theory, practice } = splitOf(cs.subjectId);
+                const prerequisiteOptions = form.subjects.filter(o => o.subjectId !== cs.subjectId && !cs.prerequisiteIds?.includes(o.subjectId));
+                return (
+                  <tr key={cs.subjectId} className="border-t align-top">
+                    <td className="p-2">
+                      <div className="font-medium">{subjectName(cs.subjectId)}</div>
+                    </td>
+                    <td className="p-2">
+                      <input type="number" min={1} className="border p-1 rounded w-full" value={cs.semesterNo || ''} onChange={e => patchSubject(cs.subjectId, { semesterNo: Number(e.target.value) || undefined })} />
+                    </td>
+                    <td className="p-2 text-gray-600">{theory}</td>
+                    <td className="p-2 text-gray-600">{practice}</td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1 items-center">
+                        {(cs.prerequisiteIds || []).map(id => (
+                          <span key={id} className="bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded text-xs flex items-center">
+                            {subjectName(id)}
+                            <button onClick={() => patchSubject(cs.subjectId, { prerequisiteIds: cs.prerequisiteIds?.filter(x => x !== id) })} className="ml-1 hover:text-red-500"><X size={12} /></button>
+                          </span>
+                        ))}
+                        {prerequisiteOptions.length > 0 && (
+                          <select
+                            className="border rounded p-0.5 text-xs text-gray-500"
+                            value=""
+                            onChange={e => e.target.value && patchSubject(cs.subjectId, { prerequisiteIds: [...(cs.prerequisiteIds || []), e.target.value] })}
+                          >
+                            <option value="">+ Thêm</option>
+                            {prerequisiteOptions.map(o => <option key={o.subjectId} value={o.subjectId}>{subjectName(o.subjectId)}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <button onClick={() => handleRemoveSubject(cs.subjectId)} className="text-red-500" title="Bỏ môn"><Trash2 size={16} /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr><td colSpan={6} className="p-4 text-center text-gray-400 italic">Chưa có môn học nào trong chương trình.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select className="border p-2 rounded flex-1 min-w-[200px]" value={addSubjectId} onChange={e => setAddSubjectId(e.target.value)}>
+            <option value="">-- Chọn môn để thêm --</option>
+            {candidates.map(s => <option key={s.id} value={s.id}>{s.name} ({majorName(s.majorId)})</option>)}
+          </select>
+          <button onClick={handleAddSubject} disabled={!addSubjectId} className="bg-blue-50 text-blue-700 border border-blue-200 px-3 py-2 rounded flex items-center disabled:opacity-50">
+            <Plus size={16} className="mr-1" /> Thêm môn
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => setEditing(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Hủy</button>
+          <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded flex items-center">
+            <Save size={16} className="mr-1" /> Lưu chương trình
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {editing ? renderEditor() : (
+        <button onClick={() => startNew()} className="bg-blue-600 text-white px-4 py-2 rounded flex items-center">
+          <Plus size={18} className="mr-1" /> Thêm chương trình
+        </button>
+      )}
+
+      <div className="bg-white rounded shadow overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-gray-50 text-gray-600 text-sm">
+            <tr>
+              <th className="p-3">Chương trình</th>
+              <th className="p-3">Ngành</th>
+              <th className="p-3">Khóa</th>
+              <th className="p-3">Môn học</th>
+              <th className="p-3">Lớp áp dụng</th>
+              <th className="p-3">Hành động</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(c => {
+              const linked = classes.filter(cls => cls.curriculumId === c.id);
+              const theory = c.subjects.reduce((sum, cs) => sum + splitOf(cs.subjectId).theory, 0);
+              const practice = c.subjects.reduce((sum, cs) => sum + splitOf(cs.subjectId).practice, 0);
+              return (
+                <tr key={c.id} className={`border-t hover:bg-gray-50 ${editing?.id === c.id ? 'bg-blue-50' : ''}`}>
+                  <td className="p-3 font-medium">{c.name}</td>
+                  <td className="p-3">{majorName(c.majorId)}</td>
+                  <td className="p-3">{c.intakeYear}</td>
+                  <td className="p-3 text-sm">
+                    {c.subjects.length} môn
+                    <span className="text-gray-500"> · LT {theory} / TH {practice} tiết</span>
+                  </td>
+                  <td className="p-3 text-sm">{linked.length > 0 ? linked.map(cls => cls.name).join(', ') : <span className="text-gray-400 italic">Chưa có</span>}</td>
+                  <td className="p-3">
+                    <div className="flex space-x-2">
+                      <button onClick={() => startEdit(c)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
+                      <button onClick={() => startNew(c)} className="text-blue-600" title="Sao chép cho khóa sau"><Copy size={18} /></button>
+                      <button onClick={() => handleDelete(c)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {curricula.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-8 text-center text-gray-400 italic">Chưa có chương trình đào tạo nào. Các lớp đang lấy môn học theo ngành.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CurriculumManager;
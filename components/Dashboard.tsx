@@ -1,16 +1,18 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { useApp } from '../store/AppContext';
-import { BookOpen, Users, Calendar, Clock, AlertTriangle, CheckCircle } from 'lucide-react';
+import { BookOpen, Users, Calendar, Clock, AlertTriangle, CheckCircle, ClipboardCheck } from 'lucide-react';
+import AttendanceModal from './AttendanceModal';
 import { format, isSameDay } from 'date-fns';
 import { vi } from 'date-fns/locale/vi';
-import { parseLocal, determineStatus, isSubjectFinished } from '../utils';
+import { parseLocal, determineStatus, isSubjectFinished, getRoomName, getSubjectProgress, isInSemester, getClassSubjects, getSubjectTotalPeriods } from '../utils';
 import { ScheduleStatus } from '../types';
 
 const Dashboard: React.FC = () => {
-  const { subjects, teachers, schedules, classes } = useApp();
+  const { subjects, teachers, schedules, classes, rooms, subjectProgress, attendance, activeSemester, curricula } = useApp();
   const [today] = useState(new Date());
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [attendanceScheduleId, setAttendanceScheduleId] = useState<string | null>(null);
 
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 60000);
@@ -28,44 +30,27 @@ const Dashboard: React.FC = () => {
 
   // Upcoming exams: type 'exam' AND date >= startOfToday (includes today)
   const upcomingExams = schedules
-    .filter(s => s.type === 'exam' && parseLocal(s.date) >= startOfToday)
+    .filter(s => s.type === 'exam' && parseLocal(s.date) >= startOfToday && isInSemester(s.date, activeSemester))
     .sort((a, b) => parseLocal(a.date).getTime() - parseLocal(b.date).getTime())
     .slice(0, 5);
 
   // Logic for completed subjects (Read-only, matches Statistics logic)
-  // We read 'paid_completed_subjects' from localStorage to exclude deleted items
-  const [paidItems] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem('paid_completed_subjects');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
-
   const completedSubjects = useMemo(() => {
     const results: any[] = [];
     
     classes.forEach(cls => {
-        const isH8 = cls.name.toUpperCase().includes('H8');
-
-        // Filter: Major specific OR Common OR Culture (if not H8) OR Culture 8 (if H8)
-        const classSubjects = subjects.filter(s => {
-            if (s.majorId === 'common') return true;
-            if (s.majorId === 'culture') return !isH8;
-            if (s.majorId === 'culture_8') return isH8;
-            return s.majorId === cls.majorId;
-        });
+        if (cls.archived) return; // Archived classes keep their data in the archive store
+        // Subjects of the class curriculum (major, common and culture subjects when none is linked)
+        const classSubjects = getClassSubjects(cls, curricula, subjects);
         
         classSubjects.forEach(sub => {
-            // Unique key to match with Statistics (deleted/hidden items)
             const uniqueKey = `${sub.id}-${cls.id}`;
 
-            // Skip if hidden/deleted
-            if (paidItems.includes(uniqueKey)) return;
+            // Skip if already paid (removed from the payment list)
+            if (getSubjectProgress(subjectProgress, sub.id, cls.id)?.paid) return;
 
             // USE SHARED HELPER
-            if (isSubjectFinished(sub, cls.id, schedules)) {
+            if (isSubjectFinished(sub, cls.id, schedules, subjectProgress, cls.practiceGroups)) {
                  const relevantSchedules = schedules.filter(sch => 
                     sch.subjectId === sub.id && 
                     sch.classId === cls.id && 
@@ -78,6 +63,7 @@ const Dashboard: React.FC = () => {
                  // Calculate End Date: Sort by date and take the last one
                  relevantSchedules.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
                  const lastSchedule = relevantSchedules[relevantSchedules.length - 1];
+                 if (activeSemester && !(lastSchedule && isInSemester(lastSchedule.date, activeSemester))) return;
                  const endDate = lastSchedule ? format(parseLocal(lastSchedule.date), 'dd/MM/yyyy') : 'N/A';
 
                  results.push({
@@ -85,7 +71,7 @@ const Dashboard: React.FC = () => {
                      subjectName: sub.name,
                      className: cls.name,
                      teacherName: teacherNames || "Chưa xác định",
-                     totalPeriods: sub.totalPeriods,
+                     totalPeriods: getSubjectTotalPeriods(sub, cls.practiceGroups),
                      endDate: endDate
                  });
             }
@@ -93,7 +79,7 @@ const Dashboard: React.FC = () => {
     });
     
     return results;
-  }, [subjects, schedules, classes, teachers, paidItems]);
+  }, [subjects, schedules, classes, teachers, subjectProgress, activeSemester, curricula]);
 
   return (
     <div className="space-y-6">
@@ -162,7 +148,7 @@ const Dashboard: React.FC = () => {
                       <div>
                         <h3 className="font-bold text-gray-800">{subj?.name}</h3>
                         <p className="text-sm text-gray-600">GV: {tea?.name || 'GV đã xóa'}</p>
-                        <p className="text-sm text-gray-500">Lớp: {cls?.name} - Phòng: {s.roomId}</p>
+                        <p className="text-sm text-gray-500">Lớp: {cls?.name} - Phòng: {getRoomName(s.roomId, rooms)}</p>
                       </div>
                       <div className="text-right">
                         <span className="inline-block px-2 py-1 text-xs font-semibold rounded bg-white border">
@@ -171,6 +157,15 @@ const Dashboard: React.FC = () => {
                         <div className="mt-1 text-xs text-gray-500 font-medium">
                            {computedStatus}
                         </div>
+                        {s.type === 'class' && (
+                          <button
+                            onClick={() => setAttendanceScheduleId(s.id)}
+                            className={`mt-1 inline-flex items-center text-xs px-2 py-1 rounded border ${attendance.some(a => a.scheduleId === s.id) ? 'bg-green-50 text-green-700 border-green-200' : 'bg-white text-blue-700 border-blue-200 hover:bg-blue-100'}`}
+                          >
+                            <ClipboardCheck size={12} className="mr-1" />
+                            {attendance.some(a => a.scheduleId === s.id) ? 'Đã điểm danh' : 'Điểm danh'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -203,7 +198,7 @@ const Dashboard: React.FC = () => {
                     </div>
                     <div className="text-right">
                       <p className="text-sm font-semibold text-blue-600">{format(parseLocal(s.date), 'dd/MM/yyyy')}</p>
-                      <p className="text-xs text-gray-400">Phòng {s.roomId}</p>
+                      <p className="text-xs text-gray-400">Phòng {getRoomName(s.roomId, rooms)}</p>
                     </div>
                   </div>
                 );
@@ -251,6 +246,10 @@ const Dashboard: React.FC = () => {
           </div>
         )}
       </div>
+
+      {attendanceScheduleId && (
+        <AttendanceModal scheduleId={attendanceScheduleId} onClose={() => setAttendanceScheduleId(null)} />
+      )}
     </div>
   );
 };
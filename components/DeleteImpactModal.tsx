@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { DeleteKind, DeleteStrategy } from '../types';
+import { X, Trash2, AlertTriangle } from 'lucide-react';
+import { getDeleteImpact, isTaughtSession } from '../utils';
+
+interface DeleteImpactModalProps {
+  kind: DeleteKind;
+  id: string;
+  onClose: () => void;
+}
+
+const KIND_TEXT: Record<DeleteKind, string> = { teacher: 'giáo viên', subject: 'môn học', class: 'lớp' };
+
+type Mode = 'block' | DeleteStrategy['mode'];
+
+// Shown instead of a plain confirm when the record is still referenced: lists what depends on it
+// and lets the user keep it, move the references to another record, archive it, or delete everything
+const DeleteImpactModal: React.FC<DeleteImpactModalProps> = ({ kind, id, onClose }) => {
+  const app = useApp();
+  const { resolveDelete } = app;
+  const list: { id: string; name: string; archived?: boolean }[] =
+    kind === 'teacher' ? app.teachers : kind === 'subject' ? app.subjects : app.classes;
+  const record = list.find(x => x.id === id);
+
+  const impact = useMemo(() => getDeleteImpact(app, kind, id), [app, kind, id]);
+  const targets = list.filter(x => x.id !== id && !x.archived);
+
+  const [mode, setMode] = useState<Mode>('block');
+  const [targetId, setTargetId] = useState('');
+
+  if (!record) return null;
+
+  const taught = impact.schedules.filter(isTaughtSession).length;
+  const paidProgress = impact.progress.filter(p => p.paid).length;
+  const hasPayments = impact.payments.length > 0;
+
+  const rows: { label: string; count: number; value: string }[] = [
+    { label: 'Lịch giảng dạy / thi', count: impact.schedules.length, value: `${impact.schedules.length} buổi (${taught} đã dạy, ${impact.schedules.length - taught} còn lại)` },
+    { label: 'Học sinh', count: impact.students.length, value: `${impact.students.length}` },
+    { label: 'Phiếu chi thanh toán', count: impact.payments.length, value: `${impact.payments.length}` },
+    { label: 'Tiến độ / đánh dấu đã thanh toán', count: impact.progress.length, value: `${impact.progress.length} (${paidProgress} đã thanh toán)` },
+    { label: 'Điểm danh', count: impact.attendance.length, value: `${impact.attendance.length} buổi` },
+    { label: 'Điểm', count: impact.grades.length, value: `${impact.grades.length} bản ghi` },
+    { label: 'Đơn giá riêng', count: impact.rateRules.length, value: `${impact.rateRules.length}` },
+    { label: 'Giáo viên nhận làm môn chính', count: impact.mainSubjectTeachers.length, value: impact.mainSubjectTeachers.map(t => t.name).join(', ') },
+  ].filter(r => r.count > 0);
+
+  const handleConfirm = () => {
+    if (mode === 'block') { onClose(); return; }
+    let strategy: DeleteStrategy;
+    if (mode === 'reassign') {
+      if (!targetId) { alert(`Vui lòng chọn ${KIND_TEXT[kind]} nhận dữ liệu.`); return; }
+      strategy = { mode: 'reassign', targetId };
+    } else if (mode === 'cascade') {
+      if (hasPayments) return;
+      if (!confirm(`Xóa vĩnh viễn ${KIND_TEXT[kind]} "${record.name}" cùng toàn bộ dữ liệu liên quan?`)) return;
+      strategy = { mode: 'cascade' };
+    } else {
+      strategy = { mode: 'archive' };
+    }
+    resolveDelete(kind, id, strategy);
+    onClose();
+  };
+
+  const option = (value: Mode, title: string, description: React.ReactNode, disabled = false) => (
+    <label className={`flex items-start gap-3 p-3 border rounded cursor-pointer ${mode === value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}>
+      <input type="radio" className="mt-1" checked={mode === value} disabled={disabled} onChange={() => setMode(value)} />
+      <div className="flex-1">
+        <div className="font-medium text-gray-800">{title}</div>
+        <div className="text-xs text-gray-500">{description}</div>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <h3 className="font-bold text-lg flex items-center"><AlertTriangle className="mr-2 text-orange-500" size={20} /> Xóa {KIND_TEXT[kind]}: {record.name}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500"><X /></button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Dữ liệu đang tham chiếu đến {KIND_TEXT[kind]} này:</p>
+            <table className="w-full text-sm border">
+              <tbody className="divide-y">
+                {rows.map(r => (
+                  <tr key={r.label}>
+                    <td className="p-2 text-gray-600">{r.label}</td>
+                    <td className="p-2 text-right font-medium text-gray-800">{r.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            {option('block', 'Không xóa', 'Giữ nguyên mọi dữ liệu.')}
+            {option('reassign', `Chuyển sang ${KIND_TEXT[kind]} khác rồi xóa`, (
+              <>
+                Lịch{kind !== 'teacher' && ', tiến độ, điểm, phiếu chi'}{kind === 'class' && ', học sinh'} được chuyển sang {KIND_TEXT[kind]} được chọn.
+                {kind === 'teacher' && ' Chỉ chuyển các buổi chưa dạy.'}
+                {kind === 'teacher' && (hasPayments || taught > 0) && ' Các buổi đã dạy và phiếu chi vẫn giữ tên giáo viên này nên giáo viên sẽ được lưu trữ thay vì xóa.'}
+                {mode === 'reassign' && (
+                  <select className="mt-2 w-full border rounded p-2 text-sm text-gray-800" value={targetId} onChange={e => setTargetId(e.target.value)}>
+                    <option value="">-- Chọn {KIND_TEXT[kind]} --</option>
+                    {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                )}
+              </>
+            ), targets.length === 0)}
+            {option('archive', 'Lưu trữ', kind === 'class'
+              ? 'Chuyển lớp cùng học sinh, lịch học, tiến độ, điểm danh và điểm vào kho lưu trữ (mục Lưu trữ). Có thể khôi phục sau.'
+              : `Giữ lại ${KIND_TEXT[kind]} cho lịch sử và báo cáo, ẩn khỏi các danh sách chọn. Có thể khôi phục sau.`)}
+            {option('cascade', 'Xóa kèm dữ liệu liên quan', hasPayments
+              ? 'Không thể xóa vì đã có phiếu chi thanh toán.'
+              : 'Xóa luôn lịch, điểm danh, điểm, tiến độ' + (kind === 'class' ? ', học sinh' : '') + (kind === 'teacher' ? ', đơn giá riêng' : '') + '. Không thể hoàn tác ngoài lịch sử thao tác.', hasPayments)}
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+          <button onClick={handleConfirm} disabled={mode === 'block'} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 flex items-center disabled:opacity-50">
+            <Trash2 size={16} className="mr-2" /> Thực hiện
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteImpactModal;
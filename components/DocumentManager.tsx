@@ -35,9 +35,9 @@ const DocumentManager: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Limit size to 2MB because we use localStorage
-    if (file.size > 2 * 1024 * 1024) {
-      alert("File quá lớn! Vui lòng chọn file dưới 2MB.");
+    // Files are stored as binary in IndexedDB, but are still held in memory while the app runs
+    if (file.size > 20 * 1024 * 1024) {
+      alert("File quá lớn! Vui lòng chọn file dưới 20MB.");
       if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
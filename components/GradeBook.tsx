@@ -0,0 +1,639 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { AssessmentComponent, GradeRecord, Student } from '../types';
+import { ClipboardList, Save, Settings2, Plus, Trash2, X, Download, Upload, CalendarPlus, AlertTriangle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import ExcelJS from 'exceljs';
+import saveAs from 'file-saver';
+import { format } from 'date-fns';
+import {
+  generateId, parseLocal, base64ToArrayBuffer, getSessionFromPeriod, checkConflict,
+  getAssessmentComponents, computeFinalScore, getGradeResult, GradeResult, PASS_SCORE,
+  getAbsenceTotals, isBarredFromExam, isInSemester, PERIODS, getPeriodsLeftInSession
+} from '../utils';
+
+export const RESULT_LABELS: Record<GradeResult, { label: string; className: string }> = {
+  'incomplete': { label: 'Chưa đủ điểm', className: 'text-gray-400' },
+  'passed': { label: 'Đạt', className: 'text-green-600 font-medium' },
+  'reexam': { label: 'Thi lại', className: 'text-orange-600 font-medium' },
+  'reexam-passed': { label: 'Đạt (thi lại)', className: 'text-green-600 font-medium' },
+  'failed': { label: 'Không đạt', className: 'text-red-600 font-bold' },
+};
+
+// Text inputs of one grid row (kept as strings while typing)
+interface DraftRow {
+  scores: Record<string, string>;
+  reExamScore: string;
+}
+
+const parseScore = (value: string): number | undefined => {
+  const trimmed = value.trim().replace(',', '.');
+  return trimmed === '' ? undefined : Number(trimmed);
+};
+
+const GradeBook: React.FC = () => {
+  const {
+    classes, subjects, students, schedules, grades, attendance, teachers, rooms, templates, activeSemester,
+    updateSubject, saveGrades, scheduleReExam
+  } = useApp();
+
+  const [selectedClassId, setSelectedClassId] = useState<string>((classes.find(c => !c.archived) || classes[0])?.id || '');
+  const [selectedSubjectId, setSelectedSubjectId] = useState('');
+  const [draft, setDraft] = useState<Record<string, DraftRow>>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [componentForm, setComponentForm] = useState<AssessmentComponent[] | null>(null);
+  const [reExamForm, setReExamForm] = useState<{ date: string; startPeriod: number; periodCount: number; roomId: string; teacherId: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currentClass = classes.find(c => c.id === selectedClassId);
+
+  // Subjects scheduled for the class in the selected semester
+  const classSubjects = useMemo(() => {
+      const ids = new Set(schedules.filter(s => s.classId === selectedClassId && isInSemester(s.date, activeSemester)).map(s => s.subjectId));
+      return subjects.filter(s => ids.has(s.id));
+  }, [schedules, subjects, selectedClassId, activeSemester]);
+
+  const subject = classSubjects.find(s => s.id === selectedSubjectId) || classSubjects[0];
+  const components = useMemo(() => subject ? getAssessmentComponents(subject) : [], [subject]);
+
+  const savedGrades = useMemo(() => {
+      const map: Record<string, GradeRecord> = {};
+      if (subject) grades.filter(g => g.subjectId === subject.id && g.classId === selectedClassId).forEach(g => { map[g.studentId] = g; });
+      return map;
+  }, [grades, subject, selectedClassId]);
+
+  // Students studying in the class, plus anyone who already has scores
+  const roster = useMemo(() => students
+      .filter(s => s.classId === selectedClassId && ((s.status || 'studying') === 'studying' || savedGrades[s.id])),
+  [students, selectedClassId, savedGrades]);
+
+  const absenceTotals = useMemo(() => subject ? getAbsenceTotals(subject.id, selectedClassId, schedules, attendance) : {},
+  [subject, selectedClassId, schedules, attendance]);
+
+  // Reload the grid when the class/subject or the stored grades change
+  useEffect(() => {
+      const next: Record<string, DraftRow> = {};
+      roster.forEach(s => {
+          const g = savedGrades[s.id];
+          const scores: Record<string, string> = {};
+          components.forEach(c => { scores[c.id] = g?.scores[c.id] !== undefined ? String(g.scores[c.id]) : ''; });
+          next[s.id] = { scores, reExamScore: g?.reExamScore !== undefined ? String(g.reExamScore) : '' };
+      });
+      setDraft(next);
+      setIsDirty(false);
+  }, [roster, savedGrades, components]);
+
+  const handleSelectClass = (id: string) => {
+      if (isDirty && !window.confirm("Bảng điểm chưa được lưu. Bỏ qua các thay đổi?")) return;
+      setSelectedClassId(id);
+      setSelectedSubjectId('');
+  };
+
+  const handleSelectSubject = (id: string) => {
+      if (isDirty && !window.confirm("Bảng điểm chưa được lưu. Bỏ qua các thay đổi?")) return;
+      setSelectedSubjectId(id);
+  };
+
+  const setScore = (studentId: string, componentId: string, value: string) => {
+      setDraft(prev => ({ ...prev, [studentId]: { ...prev[studentId], scores: { ...prev[studentId].scores, [componentId]: value } } }));
+      setIsDirty(true);
+  };
+
+  const setReExamScore = (studentId: string, value: string) => {
+      setDraft(prev => ({ ...prev, [studentId]: { ...prev[studentId], reExamScore: value } }));
+      setIsDirty(true);
+  };
+
+  // Draft row as a grade record (for live final score / result)
+  const toGrade = (studentId: string): GradeRecord | undefined => {
+      const row = draft[studentId];
+      if (!row || !subject) return undefined;
+      const scores: Record<string, number> = {};
+      components.forEach(c => {
+          const n = parseScore(row.scores[c.id] || '');
+          if (n !== undefined) scores[c.id] = n;
+      });
+      return {
+          id: savedGrades[studentId]?.id || '',
+          subjectId: subject.id,
+          classId: selectedClassId,
+          studentId,
+          scores,
+          reExamScore: parseScore(row.reExamScore),
+          reExamScheduleId: savedGrades[studentId]?.reExamScheduleId
+      };
+  };
+
+  const handleSaveGrades = () => {
+      if (!subject) return;
+      const invalid: string[] = [];
+      const rows = roster.map(s => {
+          const g = toGrade(s.id)!;
+          const values = [...Object.values(g.scores), ...(g.reExamScore !== undefined ? [g.reExamScore] : [])];
+          if (values.some(v => isNaN(v) || v < 0 || v > 10)) invalid.push(s.name);
+          return { studentId: s.id, scores: g.scores, reExamScore: g.reExamScore, reExamScheduleId: g.reExamScheduleId };
+      });
+      if (invalid.length > 0) {
+          alert(`Điểm không hợp lệ (phải từ 0 đến 10):\n${invalid.join('\n')}`);
+          return;
+      }
+      saveGrades(subject.id, selectedClassId, rows);
+      setIsDirty(false);
+      alert("Đã lưu bảng điểm.");
+  };
+
+  // --- Assessment components ---
+  const handleSaveComponents = () => {
+      if (!subject || !componentForm) return;
+      if (componentForm.length === 0 || componentForm.some(c => !c.name.trim())) {
+          alert("Vui lòng nhập tên cho tất cả các thành phần điểm.");
+          return;
+      }
+      const totalWeight = componentForm.reduce((sum, c) => sum + (c.weight || 0), 0);
+      if (totalWeight !== 100) {
+          alert(`Tổng trọng số phải bằng 100% (hiện tại: ${totalWeight}%).`);
+          return;
+      }
+      // The re-exam score replaces the final exam component, so there must be exactly one
+      if (componentForm.filter(c => c.isFinalExam).length !== 1) {
+          alert("Phải chọn đúng một thành phần là thi kết thúc.");
+          return;
+      }
+      updateSubject(subject.id, { assessmentComponents: componentForm.map(c => ({ ...c, name: c.name.trim() })) });
+      setComponentForm(null);
+  };
+
+  // --- Re-exam ---
+  // Students whose re-exam session still exists are not scheduled again
+  const reExamStudents = roster.filter(s =>
+      getGradeResult(savedGrades[s.id], components) === 'reexam' &&
+      !schedules.some(x => x.id === savedGrades[s.id]?.reExamScheduleId)
+  );
+
+  const openReExam = () => {
+      if (!subject) return;
+      if (reExamStudents.length === 0) {
+          alert("Không có học sinh nào cần thi lại chưa được xếp lịch (theo bảng điểm đã lưu).");
+          return;
+      }
+      // Default teacher: the one who taught most sessions of the subject in this class
+      const counts: Record<string, number> = {};
+      schedules.filter(s => s.subjectId === subject.id && s.classId === selectedClassId).forEach(s => { counts[s.teacherId] = (counts[s.teacherId] || 0) + 1; });
+      const teacherId = Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0] || teachers[0]?.id || '';
+      setReExamForm({ date: format(new Date(), 'yyyy-MM-dd'), startPeriod: 1, periodCount: 2, roomId: rooms[0]?.id || '', teacherId });
+  };
+
+  const handleScheduleReExam = () => {
+      if (!subject || !reExamForm) return;
+      if (!reExamForm.date || !reExamForm.teacherId || !reExamForm.roomId) {
+          alert("Vui lòng nhập đủ ngày thi, giáo viên và phòng thi.");
+          return;
+      }
+      if (reExamForm.periodCount > getPeriodsLeftInSession(reExamForm.startPeriod)) {
+          alert("Số tiết vượt quá buổi thi.");
+          return;
+      }
+      const exam = {
+          type: 'exam' as const,
+          teacherId: reExamForm.teacherId,
+          subjectId: subject.id,
+          classId: selectedClassId,
+          roomId: reExamForm.roomId,
+          date: reExamForm.date,
+          session: getSessionFromPeriod(reExamForm.startPeriod),
+          startPeriod: reExamForm.startPeriod,
+          periodCount: reExamForm.periodCount,
+          note: `Thi lại (${reExamStudents.length} HS)`
+      };
+      const conflict = checkConflict(exam, schedules, subjects, undefined, { rooms, classes, teachers, students });
+      if (conflict.hasConflict) {
+          alert(`Không thể xếp lịch thi lại: ${conflict.message}`);
+          return;
+      }
+      scheduleReExam(subject.id, selectedClassId, reExamStudents.map(s => s.id), exam);
+      setReExamForm(null);
+      alert(`Đã tạo lịch thi lại ngày ${format(parseLocal(exam.date), 'dd/MM/yyyy')} cho ${reExamStudents.length} học sinh.`);
+  };
+
+
+  // --- Excel export: "grade_sheet_excel" template when uploaded, default sheet otherwise ---
+  const gradeRowValues = (student: Student) => {
+      const grade = savedGrades[student.id];
+      const parts = student.name.trim().split(' ');
+      const finalScore = computeFinalScore(grade, components);
+      return {
+          firstName: parts.length > 0 ? parts[parts.length - 1] : '',
+          lastName: parts.length > 1 ? parts.slice(0, -1).join(' ') : '',
+          scores: components.map(c => grade?.scores[c.id]),
+          reExamScore: grade?.reExamScore,
+          finalScore: finalScore === null ? '' : finalScore,
+          result: RESULT_LABELS[getGradeResult(grade, components)].label
+      };
+  };
+
+  const handleExport = async () => {
+      if (!subject || !currentClass) return;
+      if (isDirty && !window.confirm("Bảng điểm có thay đổi chưa lưu. Tiếp tục xuất điểm đã lưu?")) return;
+      const fileName = `BangDiem_${currentClass.name}_${subject.name}.xlsx`;
+      const template = templates.find(t => t.type === 'grade_sheet_excel');
+
+      if (template) {
+          try {
+              const buffer = base64ToArrayBuffer(template.content);
+              const workbook = new ExcelJS.Workbook();
+              await workbook.xlsx.load(buffer);
+              const ws = workbook.worksheets[0];
+              if (!ws) throw new Error("File mẫu không hợp lệ");
+
+              const replacements: Record<string, string> = {
+                  '{className}': currentClass.name,
+                  '{subjectName}': subject.name,
+                  '{schoolYear}': currentClass.schoolYear,
+              };
+              const listTags = ['stt', 'studentCode', 'fullName', 'firstName', 'lastName', 'finalScore', 'result', 'reExamScore',
+                  ...components.map((_, idx) => `score${idx + 1}`)];
+
+              let listRowIndex = -1;
+              const colMap: Record<string, number> = {};
+
+              ws.eachRow((row, rowNumber) => {
+                  row.eachCell((cell, colNumber) => {
+                      let val = cell.value ? String(cell.value) : '';
+                      listTags.forEach(tag => {
+                          if (val.includes(`{${tag}}`)) { listRowIndex = rowNumber; colMap[tag] = colNumber; }
+                      });
+                      Object.keys(replacements).forEach(key => {
+                          if (val.includes(key)) {
+                              val = val.replace(key, replacements[key]);
+                              cell.value = val;
+                          }
+                      });
+                  });
+              });
+
+              if (listRowIndex !== -1 && roster.length > 0) {
+                  const fillRow = (row: any, student: Student, index: number) => {
+                      const v = gradeRowValues(student);
+                      const values: Record<string, string | number | undefined> = {
+                          stt: index + 1,
+                          studentCode: student.studentCode,
+                          fullName: student.name,
+                          firstName: v.firstName,
+                          lastName: v.lastName,
+                          finalScore: v.finalScore,
+                          result: v.result,
+                          reExamScore: v.reExamScore,
+                      };
+                      v.scores.forEach((score, idx) => { values[`score${idx + 1}`] = score; });
+                      Object.entries(colMap).forEach(([tag, col]) => { row.getCell(col).value = values[tag] ?? null; });
+                  };
+
+                  fillRow(ws.getRow(listRowIndex), roster[0], 0);
+                  for (let i = 1; i < roster.length; i++) {
+                      const newRow = ws.insertRow(listRowIndex + i, [], 'i');
+                      fillRow(newRow, roster[i], i);
+                  }
+              } else if (listRowIndex !== -1) {
+                  const row = ws.getRow(listRowIndex);
+                  row.eachCell(cell => { if (String(cell.value).includes('{')) cell.value = ''; });
+              }
+
+              const outBuffer = await workbook.xlsx.writeBuffer();
+              const blob = new Blob([outBuffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+              saveAs(blob, fileName);
+          } catch (error) {
+              console.error(error);
+              alert("Lỗi khi xuất file theo mẫu: " + error);
+          }
+      } else {
+          // Default layout; the header row is also the layout expected by the import
+          const wsData: any[][] = [];
+          wsData.push(["BẢNG ĐIỂM MÔN HỌC"]);
+          wsData.push(["Lớp:", currentClass.name, "Môn học:", subject.name, "Khóa học:", currentClass.schoolYear]);
+          wsData.push([]);
+          wsData.push(["STT", "Mã HS", "Họ tên", ...components.map(c => `${c.name} (${c.weight}%)`), "Thi lại", "Điểm TK", "Kết quả"]);
+          roster.forEach((s, idx) => {
+              const v = gradeRowValues(s);
+              wsData.push([idx + 1, s.studentCode, s.name, ...v.scores.map(x => x ?? ''), v.reExamScore ?? '', v.finalScore, v.result]);
+          });
+
+          const wb = XLSX.utils.book_new();
+          const ws = XLSX.utils.aoa_to_sheet(wsData);
+          ws['!cols'] = [{ wch: 5 }, { wch: 12 }, { wch: 28 }, ...components.map(() => ({ wch: 16 })), { wch: 10 }, { wch: 10 }, { wch: 14 }];
+          XLSX.utils.book_append_sheet(wb, ws, "BangDiem");
+          XLSX.writeFile(wb, fileName);
+      }
+  };
+
+  // --- Excel import: header row with "Mã HS", score columns matched by component name ---
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !subject) return;
+    e.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+        try {
+            const wb = XLSX.read(evt.target?.result, { type: 'binary' });
+            const data = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1 }) as any[][];
+            const normalize = (v: any) => String(v ?? '').trim().toLowerCase();
+
+            const headerIdx = data.findIndex(row => Array.isArray(row) && row.some(cell => normalize(cell) === 'mã hs'));
+            if (headerIdx === -1) {
+                setTimeout(() => alert("Không tìm thấy dòng tiêu đề có cột \"Mã HS\"."), 100);
+                return;
+            }
+            const header = data[headerIdx].map(normalize);
+            const codeCol = header.indexOf('mã hs');
+            // "Thường xuyên" matches both "Thường xuyên" and "Thường xuyên (20%)"
+            const componentCols = components
+                .map(c => ({ id: c.id, col: header.findIndex(h => h === c.name.toLowerCase() || h.startsWith(`${c.name.toLowerCase()} (`)) }))
+                .filter(c => c.col !== -1);
+            const reExamCol = header.indexOf('thi lại');
+            if (componentCols.length === 0 && reExamCol === -1) {
+                setTimeout(() => alert("Không có cột điểm nào trùng tên với thành phần điểm của môn học."), 100);
+                return;
+            }
+
+            const classStudents = students.filter(s => s.classId === selectedClassId);
+            const toNumber = (v: any) => {
+                const n = parseScore(String(v ?? ''));
+                return n !== undefined && !isNaN(n) && n >= 0 && n <= 10 ? n : undefined;
+            };
+            const unknownCodes: string[] = [];
+            let invalidCells = 0;
+            const rows: Omit<GradeRecord, 'id' | 'subjectId' | 'classId'>[] = [];
+
+            data.slice(headerIdx + 1).forEach(row => {
+                const code = String(row?.[codeCol] ?? '').trim();
+                if (!code) return;
+                const student = classStudents.find(s => s.studentCode === code);
+                if (!student) { unknownCodes.push(code); return; }
+
+                const existing = savedGrades[student.id];
+                const scores = { ...(existing?.scores || {}) };
+                componentCols.forEach(({ id, col }) => {
+                    if (String(row[col] ?? '').trim() === '') return;
+                    const n = toNumber(row[col]);
+                    if (n === undefined) invalidCells++;
+                    else scores[id] = n;
+                });
+                let reExamScore = existing?.reExamScore;
+                if (reExamCol !== -1 && String(row[reExamCol] ?? '').trim() !== '') {
+                    const n = toNumber(row[reExamCol]);
+                    if (n === undefined) invalidCells++;
+                    else reExamScore = n;
+                }
+                rows.push({ studentId: student.id, scores, reExamScore, reExamScheduleId: existing?.reExamScheduleId });
+            });
+
+            if (rows.length === 0) {
+                setTimeout(() => alert("Không tìm thấy học sinh nào của lớp trong file Excel."), 100);
+                return;
+            }
+            saveGrades(subject.id, selectedClassId, rows);
+            let message = `Đã nhập điểm cho ${rows.length} học sinh.`;
+            if (invalidCells > 0) message += `\n${invalidCells} ô điểm không hợp lệ đã bỏ qua.`;
+            if (unknownCodes.length > 0) message += `\nMã HS không thuộc lớp: ${unknownCodes.join(', ')}`;
+            setTimeout(() => alert(message), 100);
+        } catch (error) {
+            console.error(error);
+            setTimeout(() => alert("Lỗi khi đọc file Excel. Vui lòng kiểm tra lại định dạng file."), 100);
+        }
+    };
+    reader.readAsBinaryString(file);
+  };
+
+  const totalFormWeight = componentForm?.reduce((sum, c) => sum + (c.weight || 0), 0) || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 bg-white p-4 rounded-xl shadow">
+        <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+          <div className="flex items-center gap-2">
+            <label className="font-semibold text-gray-700 whitespace-nowrap">Lớp:</label>
+            <select className="border p-2 rounded min-w-[160px]" value={selectedClassId} onChange={e => handleSelectClass(e.target.value)}>
+              {classes.filter(c => !c.archived || c.id === selectedClassId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="font-semibold text-gray-700 whitespace-nowrap">Môn học:</label>
+            <select className="border p-2 rounded min-w-[200px]" value={subject?.id || ''} onChange={e => handleSelectSubject(e.target.value)}>
+              {classSubjects.length === 0 && <option value="">-- Chưa có môn học --</option>}
+              {classSubjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {subject && (
+          <div className="flex flex-wrap gap-2">
+            <input type="file" accept=".xlsx, .xls" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+            <button onClick={() => setComponentForm(components.map(c => ({ ...c })))} className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 border rounded hover:bg-gray-200 transition text-sm">
+              <Settings2 size={16} /> Thành phần điểm
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition text-sm">
+              <Upload size={16} /> Nhập Excel
+            </button>
+            <button onClick={handleExport} className="flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded hover:bg-orange-700 transition text-sm">
+              <Download size={16} /> Xuất Excel
+            </button>
+            <button onClick={openReExam} className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 transition text-sm">
+              <CalendarPlus size={16} /> Xếp lịch thi lại
+            </button>
+            <button onClick={handleSaveGrades} disabled={!isDirty} className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition text-sm disabled:opacity-50">
+              <Save size={16} /> Lưu điểm
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!subject ? (
+        <div className="bg-white rounded-xl shadow p-8 text-center text-gray-400 italic">Lớp chưa có môn học nào trong thời khóa biểu.</div>
+      ) : (
+        <div className="bg-white rounded-xl shadow overflow-hidden">
+          <div className="p-4 border-b bg-gray-50 flex flex-wrap justify-between items-center gap-2">
+            <h2 className="font-bold text-gray-700 flex items-center"><ClipboardList size={18} className="mr-2 text-blue-600" /> Bảng điểm: {subject.name} - Lớp {currentClass?.name}</h2>
+            <span className="text-sm text-gray-500">
+              {components.map(c => `${c.name} ${c.weight}%`).join(' · ')} · Đạt từ {PASS_SCORE} điểm
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            {roster.length === 0 ? (
+              <div className="p-8 text-center text-gray-400 italic">Lớp chưa có học sinh nào đang học.</div>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-100 text-gray-600">
+                  <tr>
+                    <th className="p-3 border-b w-12">STT</th>
+                    <th className="p-3 border-b">Họ tên</th>
+                    {components.map(c => (
+                      <th key={c.id} className="p-3 border-b text-center whitespace-nowrap">
+                        {c.name}<div className="text-xs font-normal text-gray-400">{c.weight}%{c.isFinalExam ? ' · thi' : ''}</div>
+                      </th>
+                    ))}
+                    <th className="p-3 border-b text-center">Thi lại</th>
+                    <th className="p-3 border-b text-center">Điểm TK</th>
+                    <th className="p-3 border-b">Kết quả</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {roster.map((s, idx) => {
+                    const row = draft[s.id];
+                    if (!row) return null;
+                    const grade = toGrade(s.id);
+                    const firstScore = computeFinalScore(grade, components, false);
+                    const finalScore = computeFinalScore(grade, components);
+                    const result = RESULT_LABELS[getGradeResult(grade, components)];
+                    const barred = isBarredFromExam(absenceTotals[s.id], subject);
+                    const reExamSchedule = schedules.find(x => x.id === savedGrades[s.id]?.reExamScheduleId);
+                    return (
+                      <tr key={s.id} className={barred ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                        <td className="p-3 text-gray-500">{idx + 1}</td>
+                        <td className="p-3">
+                          <div className="font-medium text-gray-800">{s.name}</div>
+                          <div className="text-xs text-gray-500 flex items-center gap-2">
+                            {s.studentCode}
+                            {barred && <span className="text-red-600 flex items-center"><AlertTriangle size={12} className="mr-1" /> Cấm thi</span>}
+                          </div>
+                        </td>
+                        {components.map(c => (
+                          <td key={c.id} className="p-2 text-center">
+                            <input
+                              className="border rounded p-1 w-16 text-center"
+                              value={row.scores[c.id] ?? ''}
+                              onChange={e => setScore(s.id, c.id, e.target.value)}
+                            />
+                          </td>
+                        ))}
+                        <td className="p-2 text-center">
+                          <input
+                            className="border rounded p-1 w-16 text-center disabled:bg-gray-100"
+                            value={row.reExamScore}
+                            disabled={row.reExamScore === '' && (firstScore === null || firstScore >= PASS_SCORE)}
+                            onChange={e => setReExamScore(s.id, e.target.value)}
+                          />
+                          {reExamSchedule && (
+                            <div className="text-[10px] text-purple-600 mt-1">{format(parseLocal(reExamSchedule.date), 'dd/MM/yyyy')}</div>
+                          )}
+                        </td>
+                        <td className="p-3 text-center font-bold text-gray-800">{finalScore ?? '-'}</td>
+                        <td className={`p-3 ${result.className}`}>{result.label}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {componentForm && subject && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+            <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg">Thành phần điểm: {subject.name}</h3>
+              <button onClick={() => setComponentForm(null)} className="text-gray-500 hover:text-red-500"><X /></button>
+            </div>
+            <div className="p-6 space-y-3">
+              {componentForm.map((c, idx) => (
+                <div key={c.id} className="flex items-center gap-2">
+                  <input
+                    className="border rounded p-2 flex-1"
+                    placeholder="Tên thành phần"
+                    value={c.name}
+                    onChange={e => setComponentForm(componentForm.map((x, i) => i === idx ? { ...x, name: e.target.value } : x))}
+                  />
+                  <input
+                    type="number" min={0} max={100}
+                    className="border rounded p-2 w-20 text-center"
+                    value={c.weight}
+                    onChange={e => setComponentForm(componentForm.map((x, i) => i === idx ? { ...x, weight: Number(e.target.value) } : x))}
+                  />
+                  <span className="text-gray-500">%</span>
+                  <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={!!c.isFinalExam}
+                      onChange={e => setComponentForm(componentForm.map((x, i) => ({ ...x, isFinalExam: i === idx ? e.target.checked : (e.target.checked ? false : x.isFinalExam) })))}
+                    />
+                    Thi KT
+                  </label>
+                  <button onClick={() => setComponentForm(componentForm.filter((_, i) => i !== idx))} className="text-red-500 hover:bg-red-50 p-1 rounded"><Trash2 size={16} /></button>
+                </div>
+              ))}
+              <button
+                onClick={() => setComponentForm([...componentForm, { id: generateId(), name: '', weight: 0 }])}
+                className="text-blue-600 text-sm flex items-center hover:underline"
+              >
+                <Plus size={14} className="mr-1" /> Thêm thành phần
+              </button>
+              <p className={`text-sm ${totalFormWeight === 100 ? 'text-green-600' : 'text-red-600'}`}>Tổng trọng số: {totalFormWeight}%</p>
+              <p className="text-xs text-gray-500 italic">Điểm thi lại sẽ thay cho điểm của thành phần "Thi KT". Điểm đã nhập của thành phần bị xóa sẽ không còn được tính.</p>
+            </div>
+            <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+              <button onClick={() => setComponentForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+              <button onClick={handleSaveComponents} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center">
+                <Save size={16} className="mr-2" /> Lưu
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reExamForm && subject && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+            <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg">Xếp lịch thi lại: {subject.name}</h3>
+              <button onClick={() => setReExamForm(null)} className="text-gray-500 hover:text-red-500"><X /></button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="text-sm bg-orange-50 border border-orange-200 text-orange-800 p-3 rounded">
+                {reExamStudents.length} học sinh thi lại: {reExamStudents.map(s => s.name).join(', ')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ngày thi</label>
+                <input type="date" className="w-full border rounded p-2" value={reExamForm.date} onChange={e => setReExamForm({ ...reExamForm, date: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tiết bắt đầu</label>
+                  <select className="w-full border rounded p-2" value={reExamForm.startPeriod} onChange={e => setReExamForm({ ...reExamForm, startPeriod: Number(e.target.value) })}>
+                    {PERIODS.map(p => <option key={p} value={p}>Tiết {p}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Số tiết</label>
+                  <input type="number" min={1} max={5} className="w-full border rounded p-2" value={reExamForm.periodCount} onChange={e => setReExamForm({ ...reExamForm, periodCount: Number(e.target.value) })} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phòng thi</label>
+                <select className="w-full border rounded p-2" value={reExamForm.roomId} onChange={e => setReExamForm({ ...reExamForm, roomId: e.target.value })}>
+                  <option value="">-- Chọn phòng --</option>
+                  {rooms.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Giáo viên coi thi</label>
+                <select className="w-full border rounded p-2" value={reExamForm.teacherId} onChange={e => setReExamForm({ ...reExamForm, teacherId: e.target.value })}>
+                  <option value="">-- Chọn giáo viên --</option>
+                  {teachers.filter(t => !t.archived || t.id === reExamForm.teacherId).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+              <button onClick={() => setReExamForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+              <button onClick={handleScheduleReExam} className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 flex items-center">
+                <CalendarPlus size={16} className="mr-2" /> Tạo lịch thi
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GradeBook;
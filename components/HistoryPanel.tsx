@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { format } from 'date-fns';
+import { Undo2, Redo2, History, X } from 'lucide-react';
+
+const HistoryPanel: React.FC = () => {
+  const { undoStack, redoStack, undo, redo } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Ctrl+Z / Ctrl+Y (Ctrl+Shift+Z). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const lastAction = undoStack[undoStack.length - 1];
+  const nextAction = redoStack[0];
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={undo}
+          disabled={!lastAction}
+          className="p-2 rounded hover:bg-gray-100 text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
+          title={lastAction ? `Hoàn tác: ${lastAction.label} (Ctrl+Z)` : 'Không có thao tác để hoàn tác'}
+        >
+          <Undo2 size={18} />
+        </button>
+        <button
+          onClick={redo}
+          disabled={!nextAction}
+          className="p-2 rounded hover:bg-gray-100 text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
+          title={nextAction ? `Làm lại: ${nextAction.label} (Ctrl+Y)` : 'Không có thao tác để làm lại'}
+        >
+          <Redo2 size={18} />
+        </button>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex-1 flex items-center justify-center gap-1 p-2 rounded text-sm ${isOpen ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+        >
+          <History size={16} /> Lịch sử ({undoStack.length})
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white border rounded-lg shadow-xl z-50 flex flex-col max-h-96">
+          <div className="px-4 py-2 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+            <span className="font-bold text-sm">Lịch sử thao tác</span>
+            <button onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-red-500"><X size={16} /></button>
+          </div>
+          <ul className="overflow-y-auto text-sm divide-y">
+            {/* Redo entries (undone actions), farthest first */}
+            {[...redoStack].reverse().map(entry => (
+              <li key={entry.id} className="px-4 py-2 text-gray-400 line-through">
+                <div>{entry.label}</div>
+                <div className="text-xs">{format(entry.timestamp, 'HH:mm:ss dd/MM')}</div>
+              </li>
+            ))}
+            {[...undoStack].reverse().map((entry, idx) => (
+              <li key={entry.id} className={`px-4 py-2 ${idx === 0 ? 'bg-blue-50' : ''}`}>
+                <div className="text-gray-800">{entry.label}</div>
+                <div className="text-xs text-gray-500">{format(entry.timestamp, 'HH:mm:ss dd/MM')}</div>
+              </li>
+            ))}
+            {undoStack.length === 0 && redoStack.length === 0 && (
+              <li className="px-4 py-6 text-center text-gray-400 italic">Chưa có thao tác nào.</li>
+            )}
+          </ul>
+          <div className="px-4 py-2 border-t text-xs text-gray-500 bg-gray-50 rounded-b-lg">
+            Ctrl+Z: Hoàn tác · Ctrl+Y: Làm lại
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
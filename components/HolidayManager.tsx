@@ -3,11 +3,12 @@ import React, { useState, useMemo } from 'react';
 import { useApp } from '../store/AppContext';
 import { Plus, Trash2, Calendar, CalendarOff, Edit2, Filter, Save, X } from 'lucide-react';
 import { format } from 'date-fns';
-import { parseLocal } from '../utils';
-import { Holiday } from '../types';
+import { parseLocal, getSemesterLabel } from '../utils';
+import { Holiday, ScheduleStatus } from '../types';
+import HolidayRescheduleModal from './HolidayRescheduleModal';
 
 const HolidayManager: React.FC = () => {
-  const { holidays, addHoliday, updateHoliday, deleteHoliday } = useApp();
+  const { holidays, schedules, activeSemester, academicYears, addHoliday, updateHoliday, deleteHoliday } = useApp();
   
   // State for Form
   const [formData, setFormData] = useState({
@@ -16,9 +17,12 @@ const HolidayManager: React.FC = () => {
     endDate: ''
   });
   const [editingId, setEditingId] = useState<string | null>(null);
+  // Holiday waiting for the user to decide what happens to the sessions it covers
+  const [pendingHoliday, setPendingHoliday] = useState<Omit<Holiday, 'id'> | null>(null);
 
-  // State for Filtering
-  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  // State for Filtering: a calendar year, or 0 = the semester selected in the global switcher
+  const [selectedYear, setSelectedYear] = useState<number>(activeSemester ? 0 : new Date().getFullYear());
+  const bySemester = selectedYear === 0 && !!activeSemester;
 
   const handleSave = () => {
     if (!formData.name || !formData.startDate || !formData.endDate) {
@@ -31,13 +35,24 @@ const HolidayManager: React.FC = () => {
       return;
     }
 
+    // Sessions inside the new (or extended) range are rescheduled or cancelled first
+    const affected = schedules.some(item => item.date >= formData.startDate && item.date <= formData.endDate && item.status !== ScheduleStatus.OFF);
+    if (affected) {
+        setPendingHoliday({ ...formData });
+        return;
+    }
+
     if (editingId) {
         updateHoliday(editingId, formData);
-        setEditingId(null);
     } else {
         addHoliday(formData);
     }
-    
+    handleSaved();
+  };
+
+  const handleSaved = () => {
+    setPendingHoliday(null);
+    setEditingId(null);
     setFormData({ name: '', startDate: '', endDate: '' });
   };
 
@@ -70,13 +85,15 @@ const HolidayManager: React.FC = () => {
   const filteredHolidays = useMemo(() => {
       return holidays
         .filter(h => {
+            if (bySemester) return h.startDate <= activeSemester!.endDate && h.endDate >= activeSemester!.startDate;
             const startYear = parseLocal(h.startDate).getFullYear();
             const endYear = parseLocal(h.endDate).getFullYear();
             // Show if it overlaps with selected year
-            return startYear === selectedYear || endYear === selectedYear;
+            const year = selectedYear || new Date().getFullYear();
+            return startYear === year || endYear === year;
         })
         .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-  }, [holidays, selectedYear]);
+  }, [holidays, selectedYear, bySemester, activeSemester]);
 
   return (
     <div className="space-y-6">
@@ -139,7 +156,7 @@ const HolidayManager: React.FC = () => {
             </div>
             
             <p className="text-xs text-gray-500 italic mt-2">
-              * Lưu ý: Khi xếp lịch học, hệ thống sẽ tự động khóa các ngày nằm trong khoảng thời gian nghỉ này.
+              * Lưu ý: Khi xếp lịch học, hệ thống sẽ tự động khóa các ngày nằm trong khoảng thời gian nghỉ này. Các buổi đã xếp trong đợt nghỉ sẽ được đề xuất dời lịch hoặc cho nghỉ.
             </p>
           </div>
         </div>
@@ -154,12 +171,13 @@ const HolidayManager: React.FC = () => {
              {/* Year Filter */}
              <div className="flex items-center gap-2">
                  <Filter size={16} className="text-gray-500" />
-                 <span className="text-sm font-medium text-gray-600">Năm:</span>
+                 <span className="text-sm font-medium text-gray-600">Xem:</span>
                  <select 
-                    value={selectedYear}
+                    value={bySemester ? 0 : selectedYear || new Date().getFullYear()}
                     onChange={(e) => setSelectedYear(Number(e.target.value))}
                     className="border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
                  >
+                     {activeSemester && <option value={0}>{getSemesterLabel(activeSemester, academicYears)}</option>}
                      {uniqueYears.map(year => (
                          <option key={year} value={year}>{year}</option>
                      ))}
@@ -169,7 +187,7 @@ const HolidayManager: React.FC = () => {
            
            {filteredHolidays.length === 0 ? (
              <div className="p-8 text-center text-gray-400 italic">
-               Chưa có ngày nghỉ nào trong năm {selectedYear}.
+               Chưa có ngày nghỉ nào trong {bySemester ? getSemesterLabel(activeSemester!, academicYears) : `năm ${selectedYear || new Date().getFullYear()}`}.
              </div>
            ) : (
              <div className="overflow-x-auto">
@@ -227,6 +245,15 @@ const HolidayManager: React.FC = () => {
            )}
         </div>
       </div>
+
+      {pendingHoliday && (
+        <HolidayRescheduleModal
+          holiday={pendingHoliday}
+          editingId={editingId}
+          onClose={() => setPendingHoliday(null)}
+          onSaved={handleSaved}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { Holiday, ScheduleStatus } from '../types';
+import { X, CalendarOff, ArrowRight, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { parseLocal, getSessionFromPeriod, planHolidayReschedule } from '../utils';
+
+interface HolidayRescheduleModalProps {
+  holiday: Omit<Holiday, 'id'>;
+  editingId?: string | null; // Holiday being extended; otherwise a new one is added
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type Choice = 'move' | 'off';
+
+const formatDay = (date: string) => format(parseLocal(date), 'dd/MM/yyyy');
+
+// Shown when saving a holiday would swallow existing sessions: each one is moved to the next free slot
+// or cancelled (OFF, make-up needed). The holiday and every change are applied as one undo step.
+const HolidayRescheduleModal: React.FC<HolidayRescheduleModalProps> = ({ holiday, editingId, onClose, onSaved }) => {
+  const { schedules, subjects, classes, teachers, rooms, students, holidays, addHoliday, updateHoliday, updateSchedule, runBatch } = useApp();
+
+  const plan = useMemo(() => {
+    const otherHolidays = holidays.filter(h => h.id !== editingId);
+    return planHolidayReschedule(holiday, schedules, subjects, [...otherHolidays, { id: 'pending', ...holiday }], { rooms, classes, teachers, students });
+  }, [holiday, editingId, schedules, subjects, holidays, rooms, classes, teachers, students]);
+
+  const [choices, setChoices] = useState<Choice[]>(() => plan.map(m => m.target ? 'move' : 'off'));
+
+  const setAll = (choice: Choice) => setChoices(plan.map(m => choice === 'move' && m.target ? 'move' : 'off'));
+
+  const moved = choices.filter(c => c === 'move').length;
+  const cancelled = choices.length - moved;
+
+  const handleApply = () => {
+    runBatch(() => {
+      if (editingId) updateHoliday(editingId, holiday);
+      else addHoliday(holiday);
+
+      plan.forEach((move, index) => {
+        const target = move.target;
+        move.items.forEach(item => {
+          if (choices[index] === 'move' && target) {
+            updateSchedule(item.id, { date: target.date, startPeriod: target.startPeriod, session: getSessionFromPeriod(target.startPeriod) });
+          } else {
+            const note = `Nghỉ: ${holiday.name}`;
+            updateSchedule(item.id, { status: ScheduleStatus.OFF, makeupNeeded: true, note: item.note ? `${item.note} - ${note}` : note });
+          }
+        });
+      });
+    }, `Nghỉ ${holiday.name}: dời ${moved} buổi, hủy ${cancelled} buổi`);
+    onSaved();
+  };
+
+  // Saves the holiday alone, leaving the sessions where they are (previous behaviour)
+  const handleSaveOnly = () => {
+    if (editingId) updateHoliday(editingId, holiday);
+    else addHoliday(holiday);
+    onSaved();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <h3 className="font-bold text-lg flex items-center"><AlertTriangle className="mr-2 text-orange-500" size={20} /> {holiday.name}: {plan.reduce((sum, m) => sum + m.items.length, 0)} buổi học bị ảnh hưởng</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500"><X /></button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-4">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-gray-600">
+              Đợt nghỉ {formatDay(holiday.startDate)} - {formatDay(holiday.endDate)} trùng với các buổi sau. Chọn dời sang tiết trống kế tiếp hoặc cho nghỉ (cần dạy bù).
+            </p>
+            <div className="flex gap-2 text-sm">
+              <button onClick={() => setAll('move')} className="px-3 py-1 border rounded hover:bg-blue-50 text-blue-700">Dời tất cả</button>
+              <button onClick={() => setAll('off')} className="px-3 py-1 border rounded hover:bg-red-50 text-red-700">Nghỉ tất cả</button>
+            </div>
+          </div>
+
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-100 text-gray-600 text-xs uppercase">
+              <tr>
+                <th className="p-2 text-left">Buổi học</th>
+                <th className="p-2 text-left">Lịch cũ</th>
+                <th className="p-2 text-left">Xử lý</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {plan.map((move, index) => {
+                const first = move.items[0];
+                const subject = subjects.find(s => s.id === first.subjectId);
+                const teacher = teachers.find(t => t.id === first.teacherId);
+                const classNames = move.items.map(i => classes.find(c => c.id === i.classId)?.name || i.classId).join(', ');
+                const target = move.target;
+                return (
+                  <tr key={first.id}>
+                    <td className="p-2">
+                      <div className="font-medium text-gray-800">{subject?.name || first.subjectId}</div>
+                      <div className="text-xs text-gray-500">{classNames}{teacher && ` - ${teacher.name}`}</div>
+                    </td>
+                    <td className="p-2 text-gray-600 whitespace-nowrap">
+                      {formatDay(first.date)}, tiết {first.startPeriod}-{first.startPeriod + first.periodCount - 1}
+                    </td>
+                    <td className="p-2 space-y-1">
+                      <label className={`flex items-center gap-2 ${target ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                        <input type="radio" checked={choices[index] === 'move'} disabled={!target}
+                          onChange={() => setChoices(choices.map((c, i) => i === index ? 'move' : c))} />
+                        {target
+                          ? <span className="flex items-center text-blue-700"><ArrowRight size={14} className="mr-1" /> {formatDay(target.date)}, tiết {target.startPeriod}-{target.startPeriod + first.periodCount - 1}</span>
+                          : <span className="text-gray-500 italic">Không tìm thấy tiết trống</span>}
+                      </label>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" checked={choices[index] === 'off'}
+                          onChange={() => setChoices(choices.map((c, i) => i === index ? 'off' : c))} />
+                        <span className="flex items-center text-red-700"><CalendarOff size={14} className="mr-1" /> Nghỉ, cần dạy bù</span>
+                      </label>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-between items-center gap-2 shrink-0">
+          <button onClick={handleSaveOnly} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded text-sm">Chỉ lưu ngày nghỉ, giữ nguyên lịch</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+            <button onClick={handleApply} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+              Áp dụng (dời {moved}, nghỉ {cancelled})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HolidayRescheduleModal;
@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import *as XLSX from 'xlsx';
+import { useApp } from '../store/AppContext';
+import { ImportTarget, ImportUpdate } from '../types';
+import { X, Upload, AlertTriangle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+
+export interface ParsedCell {
+  value?: any;
+  error?: string;
+}
+
+// A field of the imported entity and how to read it from a cell
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases?: string[]; // Other header titles recognised automatically
+  parse?: (raw: any) => ParsedCell; // Default: trimmed text. Only called for non-empty cells
+}
+
+// --- Cell parsers shared by the import screens ---
+
+export const parseNumberCell = (raw: any): ParsedCell => {
+  const n = typeof raw === 'number' ? raw : Number(String(raw).trim().replace(/[.\s](?=\d{3}\b)/g, '').replace(',', '.'));
+  return isNaN(n) || n < 0 ? { error: 'Không phải số hợp lệ' } : { value: n };
+};
+
+// Excel date serials, dd/MM/yyyy (also with '-' or '.') and yyyy-MM-dd -> YYYY-MM-DD
+export const parseDateCell = (raw: any): ParsedCell => {
+  let y: number, m: number, d: number;
+  if (typeof raw === 'number') {
+    const code = XLSX.SSF.parse_date_code(raw);
+    if (!code) return { error: 'Ngày không hợp lệ' };
+    ({ y, m, d } = code);
+  } else {
+    const text = String(raw).trim();
+    const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    const ymd = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (dmy) [d, m, y] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    else if (ymd) [y, m, d] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+    else return { error: 'Ngày không hợp lệ (dd/MM/yyyy)' };
+  }
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return { error: 'Ngày không tồn tại' };
+  return { value: `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}` };
+};
+
+// Matches the cell against a list by name (case-insensitive) and returns the item id
+export const lookupCell = (list: { id: string; name: string }[], notFound: string) => (raw: any): ParsedCell => {
+  const text = String(raw).trim().toLowerCase();
+  const item = list.find(x => x.name.trim().toLowerCase() === text);
+  return item ? { value: item.id } : { error: `${notFound}: "${String(raw).trim()}"` };
+};
+
+const normalizeHeader = (value: any) => String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isEmptyCell = (raw: any) => raw === undefined || raw === null || String(raw).trim() === '';
+
+type RowAction = 'create' | 'update' | 'unchanged';
+
+const ACTION_LABELS: Record<RowAction, { label: string; className: string }> = {
+  create: { label: 'Thêm mới', className: 'bg-green-100 text-green-700' },
+  update: { label: 'Cập nhật', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'Không đổi', className: 'bg-gray-100 text-gray-500' },
+};
+
+// Row-level error (e.g. duplicate key inside the file), shown in the action column
+const ROW_ERROR = '_row';
+
+interface PreviewRow {
+  rowNumber: number; // Excel row number
+  raw: Record<string, any>;
+  values: Record<string, any>;
+  errors: Record<string, string>;
+  action: RowAction;
+  matchId?: string; // Existing record updated by this row
+  changes: Record<string, any>;  // Field key -> new value (update rows)
+  previous: Record<string, any>; // Field key -> current value (update rows)
+}
+
+const displayValue = (value: any) => Array.isArray(value) ? value.join(', ') : String(value ?? '');
+
+interface ImportWizardProps<T> {
+  file: File;
+  target: ImportTarget;
+  title: string;
+  fields: ImportField[];
+  build: (values: Record<string, any>) => T;
+  // Checks that need the whole row or existing data (duplicates...). Field key -> message
+  validateRow?: (values: Record<string, any>) => Record<string, string>;
+  // Re-import: rows whose natural key matches an existing record update it in place instead of creating
+  // a duplicate. Only mapped, non-empty cells are written; '' as key means the row is always created.
+  naturalKey?: (item: T) => string;
+  existing?: (T & { id: string })[];
+  // Saves the items and returns the summary shown to the user
+  onImport: (created: T[], updated: ImportUpdate<T>[]) => string;
+  onClose: () => void;
+}
+
+// Shared Excel import: sheet choice, column mapping (remembered per import type), validation preview
+const ImportWizard = <T,>({ file, target, title, fields, build, validateRow, naturalKey, existing = [], onImport, onClose }: ImportWizardProps<T>) => {
+  const { importMappings, saveImportMapping, runBatch } = useApp();
+  const savedMapping = importMappings.find(m => m.target === target);
+
+  // Callers recreate fields / build / validateRow / onClose on each render, so the effects and the preview
+  // read them through a ref; the file and the column mapping are what drive them
+  const latest = useRef({ fields, build, validateRow, naturalKey, onClose, savedMapping });
+  latest.current = { fields, build, validateRow, naturalKey, onClose, savedMapping };
+
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [headerRow, setHeaderRow] = useState(savedMapping?.headerRow || 1);
+  const [columns, setColumns] = useState<Record<string, number>>({}); // Field key -> column index (-1 = not imported)
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  useEffect(() => {
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+          try {
+              const wb = XLSX.read(evt.target?.result, { type: 'binary' });
+              setWorkbook(wb);
+              setSheetName(wb.SheetNames[0] || '');
+          } catch (error) {
+              console.error(error);
+              setTimeout(() => alert("Lỗi khi đọc file Excel. Vui lòng kiểm tra lại định dạng file."), 100);
+              latest.current.onClose();
+          }
+      };
+      reader.readAsBinaryString(file);
+  }, [file]);
+
+  const data = useMemo(() => {
+      const ws = workbook?.Sheets[sheetName];
+      return ws ? XLSX.utils.sheet_to_json(ws, { header: 1, defval: '' }) as any[][] : [];
+  }, [workbook, sheetName]);
+
+  const headers: string[] = useMemo(() => (data[headerRow - 1] || []).map(h => String(h ?? '').trim()), [data, headerRow]);
+
+  // Auto mapping: saved header title first, then the field label and aliases
+  useEffect(() => {
+      const { fields, savedMapping } = latest.current;
+      const normalized = headers.map(normalizeHeader);
+      const next: Record<string, number> = {};
+      fields.forEach(f => {
+          const candidates = [savedMapping?.columns[f.key], f.label, ...(f.aliases || [])].filter(Boolean).map(normalizeHeader);
+          next[f.key] = candidates.reduce((found, c) => found !== -1 ? found : normalized.indexOf(c), -1);
+      });
+      setColumns(next);
+  }, [headers]);
+
+  const missingRequired = fields.filter(f => f.required && (columns[f.key] ?? -1) === -1);
+
+  const rows: PreviewRow[] = useMemo(() => {
+      const { fields, build, validateRow, naturalKey }: Pick<ImportWizardProps<T>, 'fields' | 'build' | 'validateRow' | 'naturalKey'> = latest.current;
+      if (fields.some(f => f.required && (columns[f.key] ?? -1) === -1)) return [];
+      const mapped = fields.filter(f => (columns[f.key] ?? -1) !== -1);
+      const result: PreviewRow[] = [];
+      const seenKeys = new Map<string, number>(); // Natural key -> first row number
+      data.slice(headerRow).forEach((line, idx) => {
+          const raw: Record<string, any> = {};
+          mapped.forEach(f => { raw[f.key] = line?.[columns[f.key]]; });
+          if (mapped.every(f => isEmptyCell(raw[f.key]))) return;
+
+          const values: Record<string, any> = {};
+          const errors: Record<string, string> = {};
+          mapped.forEach(f => {
+              if (isEmptyCell(raw[f.key])) {
+                  if (f.required) errors[f.key] = 'Thiếu dữ liệu bắt buộc';
+                  return;
+              }
+              const parsed = f.parse ? f.parse(raw[f.key]) : { value: String(raw[f.key]).trim() };
+              if (parsed.error) errors[f.key] = parsed.error;
+              else values[f.key] = parsed.value;
+          });
+          if (validateRow) {
+              Object.entries(validateRow(values)).forEach(([key, message]) => { if (!errors[key]) errors[key] = message; });
+          }
+
+          const row: PreviewRow = { rowNumber: headerRow + idx + 1, raw, values, errors, action: 'create', changes: {}, previous: {} };
+          if (naturalKey && Object.keys(errors).length === 0) {
+              const item = build(values) as any;
+              const key = naturalKey(item);
+              if (key && seenKeys.has(key)) {
+                  errors[ROW_ERROR] = `Trùng với dòng ${seenKeys.get(key)}`;
+              } else if (key) {
+                  seenKeys.set(key, row.rowNumber);
+                  const match = existing.find(e => naturalKey(e) === key) as any;
+                  if (match) {
+                      mapped.filter(f => values[f.key] !== undefined).forEach(f => {
+                          if (JSON.stringify(match[f.key] ?? '') !== JSON.stringify(item[f.key] ?? '')) {
+                              row.changes[f.key] = item[f.key];
+                              row.previous[f.key] = match[f.key];
+                          }
+                      });
+                      row.matchId = match.id;
+                      row.action = Object.keys(row.changes).length > 0 ? 'update' : 'unchanged';
+                  }
+              }
+          }
+          result.push(row);
+      });
+      return result;
+  }, [data, headerRow, columns, existing]);
+
+  useEffect(() => { setExcludedRows(new Set()); }, [data, headerRow, columns]);
+
+  const isValid = (r: PreviewRow) => Object.keys(r.errors).length === 0;
+  const invalidCount = rows.filter(r => !isValid(r)).length;
+  const isSelectable = (r: PreviewRow) => isValid(r) && r.action !== 'unchanged';
+  const selectedRows = rows.filter(r => isSelectable(r) && !excludedRows.has(r.rowNumber));
+  const countOf = (action: RowAction) => rows.filter(r => isValid(r) && r.action === action).length;
+  const mappedFields = fields.filter(f => (columns[f.key] ?? -1) !== -1);
+  const visibleRows = onlyErrors ? rows.filter(r => !isValid(r)) : rows;
+
+  const toggleRow = (rowNumber: number) => {
+      setExcludedRows(prev => {
+          const next = new Set(prev);
+          if (next.has(rowNumber)) next.delete(rowNumber);
+          else next.add(rowNumber);
+          return next;
+      });
+  };
+
+  const handleImport = () => {
+      if (selectedRows.length === 0) return;
+      let message = '';
+      runBatch(() => {
+          if (rememberMapping) {
+              const mapping: Record<string, string> = {};
+              mappedFields.forEach(f => { mapping[f.key] = headers[columns[f.key]]; });
+              saveImportMapping({ target, headerRow, columns: mapping });
+          }
+          message = onImport(
+              selectedRows.filter(r => r.action === 'create').map(r => build(r.values)),
+              selectedRows.filter(r => r.action === 'update').map(r => ({ id: r.matchId!, changes: r.changes as Partial<T> }))
+          );
+      }, `Nhập Excel: ${title}`);
+      const unchanged = countOf('unchanged');
+      const skipped = rows.length - selectedRows.length - unchanged;
+      if (unchanged > 0) message += `\n${unchanged} dòng không thay đổi.`;
+      if (skipped > 0) message += `\nĐã bỏ qua ${skipped} dòng (lỗi hoặc không chọn).`;
+      onClose();
+      setTimeout(() => alert(message), 100);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <div>
+            <h3 className="font-bold text-lg flex items-center"><FileSpreadsheet className="mr-2 text-green-600" size={20} /> Nhập Excel: {title}</h3>
+            <p className="text-sm text-gray-500">{file.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500"><X /></button>
+        </div>
+
+        {!workbook ? (
+          <div className="p-8 text-center text-gray-400 italic">Đang đọc file...</div>
+        ) : (
+          <>
+            <div className="px-6 py-4 border-b space-y-4 shrink-0">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <span className="font-medium text-gray-700">Trang tính:</span>
+                  <select className="border p-1.5 rounded" value={sheetName} onChange={e => setSheetName(e.target.value)}>
+                    {workbook.SheetNames.map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="font-medium text-gray-700">Dòng tiêu đề:</span>
+                  <input type="number" min={1} className="border p-1.5 rounded w-20" value={headerRow} onChange={e => setHeaderRow(Math.max(1, Number(e.target.value) || 1))} />
+                </label>
+                <label className="flex items-center gap-2 text-gray-600">
+                  <input type="checkbox" checked={rememberMapping} onChange={e => setRememberMapping(e.target.checked)} />
+                  Ghi nhớ cấu hình cột cho lần nhập sau
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {fields.map(f => (
+                  <label key={f.key} className="text-sm">
+                    <span className="block text-gray-600 mb-1">{f.label}{f.required && <span className="text-red-500"> *</span>}</span>
+                    <select
+                      className={`w-full border p-1.5 rounded ${f.required && (columns[f.key] ?? -1) === -1 ? 'border-red-400 bg-red-50' : ''}`}
+                      value={columns[f.key] ?? -1}
+                      onChange={e => setColumns({ ...columns, [f.key]: Number(e.target.value) })}
+                    >
+                      <option value={-1}>-- Không nhập --</option>
+                      {headers.map((h, idx) => <option key={idx} value={idx}>{XLSX.utils.encode_col(idx)}: {h || '(trống)'}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="px-6 py-2 border-b flex flex-wrap items-center gap-3 text-sm shrink-0">
+              {missingRequired.length > 0 ? (
+                <span className="text-red-600 flex items-center"><AlertTriangle size={16} className="mr-1" /> Chưa chọn cột cho: {missingRequired.map(f => f.label).join(', ')}</span>
+              ) : (
+                <>
+                  <span className="text-gray-700">{rows.length} dòng dữ liệu</span>
+                  <span className="text-green-700 flex items-center"><CheckCircle size={14} className="mr-1" /> {selectedRows.length} dòng sẽ được nhập</span>
+                  {naturalKey && (
+                    <span className="text-gray-600">({countOf('create')} thêm mới, {countOf('update')} cập nhật, {countOf('unchanged')} không đổi)</span>
+                  )}
+                  {invalidCount > 0 && <span className="text-red-600 flex items-center"><AlertTriangle size={14} className="mr-1" /> {invalidCount} dòng lỗi (sẽ bỏ qua)</span>}
+                  <label className="ml-auto flex items-center gap-2 text-gray-600">
+                    <input type="checkbox" checked={onlyErrors} onChange={e => setOnlyErrors(e.target.checked)} /> Chỉ hiện dòng lỗi
+                  </label>
+                </>
+              )}
+            </div>
+
+            <div className="overflow-auto flex-1">
+              {missingRequired.length === 0 && (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                    <tr>
+                      <th className="p-2 w-10"></th>
+                      <th className="p-2 w-16">Dòng</th>
+                      <th className="p-2 w-28">Thao tác</th>
+                      {mappedFields.map(f => <th key={f.key} className="p-2 whitespace-nowrap">{f.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {visibleRows.map(r => {
+                      const valid = isValid(r);
+                      const selectable = isSelectable(r);
+                      return (
+                        <tr key={r.rowNumber} className={valid ? (!selectable || excludedRows.has(r.rowNumber) ? 'opacity-50' : '') : 'bg-red-50'}>
+                          <td className="p-2 text-center">
+                            <input type="checkbox" disabled={!selectable} checked={selectable && !excludedRows.has(r.rowNumber)} onChange={() => toggleRow(r.rowNumber)} />
+                          </td>
+                          <td className="p-2 text-gray-500">{r.rowNumber}</td>
+                          <td className="p-2">
+                            {r.errors[ROW_ERROR]
+                              ? <span className="text-xs text-red-600 italic">{r.errors[ROW_ERROR]}</span>
+                              : valid && <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${ACTION_LABELS[r.action].className}`}>{ACTION_LABELS[r.action].label}</span>}
+                          </td>
+                          {mappedFields.map(f => {
+                            const changed = f.key in r.changes;
+                            return (
+                              <td
+                                key={f.key}
+                                className={`p-2 ${r.errors[f.key] ? 'text-red-700' : 'text-gray-800'} ${changed ? 'bg-yellow-50' : ''}`}
+                                title={r.errors[f.key] || (changed ? `Giá trị hiện tại: ${displayValue(r.previous[f.key]) || '(trống)'}` : undefined)}
+                              >
+                                {isEmptyCell(r.raw[f.key]) ? '' : String(r.raw[f.key])}
+                                {changed && <div className="text-xs text-gray-400 line-through">{displayValue(r.previous[f.key])}</div>}
+                                {r.errors[f.key] && <div className="text-xs text-red-600 italic">{r.errors[f.key]}</div>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                    {visibleRows.length === 0 && (
+                      <tr><td colSpan={mappedFields.length + 3} className="p-8 text-center text-gray-400 italic">Không có dòng dữ liệu nào.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+          <button onClick={handleImport} disabled={selectedRows.length === 0} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center disabled:opacity-50">
+            <Upload size={16} className="mr-2" /> Nhập {selectedRows.length} dòng
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -1,38 +1,60 @@
 
 import React, { useState, useRef, useMemo } from 'react';
 import { useApp } from '../store/AppContext';
-import { Teacher, Subject, ClassEntity } from '../types';
-import { Plus, Trash2, Edit2, Save, X, Filter, Search, Phone, Upload, HelpCircle, Users, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
-import *as XLSX from 'xlsx';
+import { Teacher, Subject, ClassEntity, Room, Session, TeacherAvailability, RateRule, ImportTarget, DeleteKind } from '../types';
+import { Plus, Trash2, Edit2, Save, X, Filter, Search, Phone, Upload, HelpCircle, Users, ArrowUpDown, ArrowUp, ArrowDown, DoorOpen, CalendarX, BadgeDollarSign, ArchiveRestore } from 'lucide-react';
+import { generateId, getWeekdayLabel, getClassHeadcount, normalizeRoomName, getDeleteImpact, hasDeleteImpact, getPeriodSplit } from '../utils';
+import ImportWizard, { parseNumberCell, lookupCell } from './ImportWizard';
+import DeleteImpactModal from './DeleteImpactModal';
+import SemesterManager from './SemesterManager';
+import CurriculumManager from './CurriculumManager';
 
 const Management: React.FC = () => {
   const { 
-    teachers, subjects, majors, classes,
+    teachers, subjects, majors, classes, rooms, schedules, curricula, rateRules, students, payments, subjectProgress, attendance, grades,
     addTeacher, updateTeacher, deleteTeacher, importTeachers,
     addSubject, updateSubject, deleteSubject, importSubjects,
-    addClass, updateClass, deleteClass, importClasses
+    addClass, updateClass, deleteClass, importClasses,
+    addRoom, updateRoom, deleteRoom, importRooms,
+    addRateRule, updateRateRule, deleteRateRule, restoreArchived
   } = useApp();
   
-  const [activeTab, setActiveTab] = useState<'teachers' | 'subjects' | 'classes'>('teachers');
+  const [activeTab, setActiveTab] = useState<'teachers' | 'subjects' | 'classes' | 'rooms' | 'rates' | 'semesters' | 'curricula'>('teachers');
 
   const [newTeacher, setNewTeacher] = useState<Partial<Teacher>>({ title: 'Thầy' });
   const [editingTeacherId, setEditingTeacherId] = useState<string | null>(null);
   const [teacherSearch, setTeacherSearch] = useState('');
   const [teacherSort, setTeacherSort] = useState<'asc' | 'desc' | 'default'>('default');
+  const [leaveForm, setLeaveForm] = useState({ startDate: '', endDate: '', reason: '' }); // Dated exception being added
 
   const [newSubject, setNewSubject] = useState<Partial<Subject>>({});
   const [editingSubjectId, setEditingSubjectId] = useState<string | null>(null);
   const [filterMajorId, setFilterMajorId] = useState<string>('');
   const [subjectSearch, setSubjectSearch] = useState('');
+  const [subjectEquipmentText, setSubjectEquipmentText] = useState('');
 
   const [newClass, setNewClass] = useState<Partial<ClassEntity>>({});
   const [editingClassId, setEditingClassId] = useState<string | null>(null);
   const [classSearch, setClassSearch] = useState('');
   const [classSortMajor, setClassSortMajor] = useState<'asc' | 'desc' | 'default'>('default'); // NEW State for class sorting
 
+  const [newRoom, setNewRoom] = useState<Partial<Room>>({});
+  const [roomEquipmentText, setRoomEquipmentText] = useState(''); // Comma separated in the form
+  const [editingRoomId, setEditingRoomId] = useState<string | null>(null);
+  const [roomSearch, setRoomSearch] = useState('');
+
+  const [newRate, setNewRate] = useState<Partial<RateRule>>({ multiplier: 1 });
+  const [editingRateId, setEditingRateId] = useState<string | null>(null);
+
+  const [importFile, setImportFile] = useState<{ target: ImportTarget; file: File } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ kind: DeleteKind; id: string } | null>(null);
   const fileInputTeacherRef = useRef<HTMLInputElement>(null);
   const fileInputSubjectRef = useRef<HTMLInputElement>(null);
   const fileInputClassRef = useRef<HTMLInputElement>(null);
+  const fileInputRoomRef = useRef<HTMLInputElement>(null);
+
+  // "Máy chiếu, Máy tính" -> ['Máy chiếu', 'Máy tính']
+  const parseEquipment = (text: string) => text.split(/[,;]/).map(e => e.trim()).filter(e => e);
 
   // Teacher Sorting Logic
   const sortedTeachers = useMemo(() => {
@@ -101,7 +123,10 @@ const Management: React.FC = () => {
           bank: newTeacher.bank || '',
           accountNumber: newTeacher.accountNumber || '',
           mainSubject: newTeacher.mainSubject || '',
-          ratePerPeriod: newTeacher.ratePerPeriod || 0
+          ratePerPeriod: newTeacher.ratePerPeriod || 0,
+          category: newTeacher.category?.trim() || undefined,
+          availability: newTeacher.availability,
+          unavailableDates: newTeacher.unavailableDates || []
       };
 
       if (editingTeacherId) {
@@ -111,7 +136,48 @@ const Management: React.FC = () => {
         addTeacher(teacherData as Teacher);
       }
       setNewTeacher({ title: 'Thầy' });
+      setLeaveForm({ startDate: '', endDate: '', reason: '' });
+    }
+  };
+
+  // Weekly availability grid (Mon-Sat x Sáng/Chiều/Tối)
+  const AVAILABILITY_DAYS = [1, 2, 3, 4, 5, 6];
+  const AVAILABILITY_SESSIONS: Session[] = ['Sáng', 'Chiều', 'Tối'];
+
+  const toggleAvailabilityLimit = (enabled: boolean) => {
+    if (!enabled) {
+      setNewTeacher({ ...newTeacher, availability: undefined });
+      return;
+    }
+    const defaults: TeacherAvailability = {};
+    AVAILABILITY_DAYS.forEach(d => { defaults[d] = ['Sáng', 'Chiều']; });
+    setNewTeacher({ ...newTeacher, availability: defaults });
+  };
+
+  const toggleAvailabilitySlot = (day: number, session: Session) => {
+    const current = newTeacher.availability || {};
+    const sessions = current[day] || [];
+    const updated = sessions.includes(session) ? sessions.filter(s => s !== session) : [...sessions, session];
+    setNewTeacher({ ...newTeacher, availability: { ...current, [day]: updated } });
+  };
+
+  const handleAddLeave = () => {
+    if (!leaveForm.startDate) {
+      alert("Vui lòng chọn ngày bắt đầu.");
+      return;
     }
+    const endDate = leaveForm.endDate || leaveForm.startDate;
+    if (endDate < leaveForm.startDate) {
+      alert("Ngày kết thúc phải sau ngày bắt đầu.");
+      return;
+    }
+    const leave = { id: generateId(), startDate: leaveForm.startDate, endDate, reason: leaveForm.reason.trim() };
+    setNewTeacher({ ...newTeacher, unavailableDates: [...(newTeacher.unavailableDates || []), leave] });
+    setLeaveForm({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleRemoveLeave = (id: string) => {
+    setNewTeacher({ ...newTeacher, unavailableDates: (newTeacher.unavailableDates || []).filter(u => u.id !== id) });
   };
 
   const handleEditTeacher = (t: Teacher) => {
@@ -120,70 +186,28 @@ const Management: React.FC = () => {
   };
 
   const handleCancelTeacher = () => {
+    setLeaveForm({ startDate: '', endDate: '', reason: '' });
     setNewTeacher({ title: 'Thầy' });
     setEditingTeacherId(null);
   }
 
-  const handleTeacherFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
-
-      // Reset immediately to prevent input freezing
-      e.target.value = '';
-
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-          try {
-              const bstr = evt.target?.result;
-              const wb = XLSX.read(bstr, { type: 'binary' });
-              const wsname = wb.SheetNames[0];
-              const ws = wb.Sheets[wsname];
-              const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-              
-              if (!data || data.length < 2) {
-                  setTimeout(() => alert("File Excel rỗng hoặc không đúng định dạng!"), 100);
-                  return;
-              }
-
-              // Remove header
-              const rows = data.slice(1) as any[];
-              
-              // Map columns: 0: Title, 1: Name, 2: Phone, 3: Bank, 4: Account, 5: Rate, 6: MainSubject
-              const newTeachers: Omit<Teacher, 'id'>[] = rows.map(row => ({
-                  title: row[0] || 'Thầy',
-                  name: row[1] || '',
-                  phone: row[2] ? String(row[2]) : '',
-                  bank: row[3] ? String(row[3]) : '',
-                  accountNumber: row[4] ? String(row[4]) : '',
-                  ratePerPeriod: row[5] ? Number(row[5]) : 0,
-                  mainSubject: row[6] ? String(row[6]) : '', // Mapped Main Subject
-              })).filter(t => t.name);
-
-              if (newTeachers.length > 0) {
-                  importTeachers(newTeachers);
-                  setTimeout(() => alert(`Đã nhập thành công ${newTeachers.length} giáo viên.`), 100);
-              } else {
-                  setTimeout(() => alert("Không tìm thấy dữ liệu hợp lệ."), 100);
-              }
-          } catch (error) {
-              console.error(error);
-              setTimeout(() => alert("Lỗi khi đọc file Excel."), 100);
-          }
-      };
-      reader.readAsBinaryString(file);
-  };
-
   const handleSaveSubject = () => {
     const selectedMajor = newSubject.majorId || filterMajorId;
     const isCulture8 = selectedMajor === 'culture_8';
 
     // Validation: Total periods not required for 'culture_8'
     if (newSubject.name && (newSubject.totalPeriods || isCulture8) && selectedMajor) {
+       if ((newSubject.practicePeriods || 0) > (newSubject.totalPeriods || 0)) {
+           alert('Số tiết thực hành không được lớn hơn tổng số tiết.');
+           return;
+       }
        const subjectData: any = {
            name: newSubject.name,
            majorId: selectedMajor,
            totalPeriods: newSubject.totalPeriods || 0,
+           practicePeriods: newSubject.practicePeriods || 0,
            isShared: newSubject.isShared || false,
+           requiredEquipment: parseEquipment(subjectEquipmentText),
            teacher1: newSubject.teacher1 || '',
            phone1: newSubject.phone1 || '',
            teacher2: newSubject.teacher2 || '',
@@ -197,130 +221,139 @@ const Management: React.FC = () => {
         addSubject(subjectData as Subject);
       }
       setNewSubject(filterMajorId ? { majorId: filterMajorId } : {});
+      setSubjectEquipmentText('');
     }
   };
 
   const handleEditSubject = (s: Subject) => {
     setNewSubject(s);
+    setSubjectEquipmentText((s.requiredEquipment || []).join(', '));
     setEditingSubjectId(s.id);
   }
 
   const handleCancelSubject = () => {
     setNewSubject(filterMajorId ? { majorId: filterMajorId } : {});
+    setSubjectEquipmentText('');
     setEditingSubjectId(null);
   }
 
-  const handleSubjectFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Excel imports go through the shared wizard (column mapping + validation preview)
+  const handleImportFile = (target: ImportTarget) => (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (!file) return;
-
-      // Reset immediately
+      // Reset immediately so the same file can be chosen again
       e.target.value = '';
+      if (file) setImportFile({ target, file });
+  };
 
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-          try {
-              const bstr = evt.target?.result;
-              const wb = XLSX.read(bstr, { type: 'binary' });
-              const wsname = wb.SheetNames[0];
-              const ws = wb.Sheets[wsname];
-              const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-
-              if (!data || data.length < 2) {
-                  setTimeout(() => alert("File Excel rỗng hoặc không đúng định dạng!"), 100);
-                  return;
-              }
-
-              const rows = data.slice(1) as any[];
-              
-              // Map columns: 0: Name, 1: Major Name, 2: Periods
-              const newSubjects: Omit<Subject, 'id'>[] = rows.map(row => {
-                  const majorName = row[1] ? String(row[1]).trim() : '';
-                  const major = majors.find(m => m.name.toLowerCase() === majorName.toLowerCase());
-                  
-                  return {
-                      name: row[0] || '',
-                      majorId: major ? major.id : '', // If not found, leave empty or assign to default?
-                      totalPeriods: row[2] ? Number(row[2]) : 30,
-                  };
-              }).filter(s => s.name);
-
-               // Warn if some majors weren't found
-               const missingMajors = newSubjects.filter(s => !s.majorId).length;
-               
-               if (newSubjects.length > 0) {
-                   importSubjects(newSubjects);
-                   let msg = `Đã nhập thành công ${newSubjects.length} môn học.`;
-                   if (missingMajors > 0) {
-                       msg += `\nLưu ý: Có ${missingMajors} môn chưa tìm thấy Ngành học tương ứng trong hệ thống (vui lòng kiểm tra tên Ngành trong file Excel hoặc cập nhật thủ công).`;
-                   }
-                   setTimeout(() => alert(msg), 100);
-               } else {
-                   setTimeout(() => alert("Không tìm thấy dữ liệu hợp lệ."), 100);
-               }
-          } catch (error) {
-              console.error(error);
-              setTimeout(() => alert("Lỗi khi đọc file Excel."), 100);
-          }
-      };
-      reader.readAsBinaryString(file);
+  // Unreferenced records are deleted right away; otherwise the impact dialog offers reassign / archive / cascade
+  const handleDelete = (kind: DeleteKind, id: string) => {
+      const impact = getDeleteImpact({ schedules, students, payments, subjectProgress, attendance, grades, rateRules, teachers }, kind, id);
+      if (hasDeleteImpact(impact)) {
+          setPendingDelete({ kind, id });
+          return;
+      }
+      if (kind === 'teacher') deleteTeacher(id);
+      else if (kind === 'subject') deleteSubject(id);
+      else deleteClass(id);
   };
 
-  const handleClassFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
+  const handleSaveRoom = () => {
+    if (!newRoom.name || !newRoom.name.trim()) return;
 
-      // Reset immediately
-      e.target.value = '';
+    const name = newRoom.name.trim();
+    const duplicate = rooms.find(r => r.id !== editingRoomId && normalizeRoomName(r.name) === normalizeRoomName(name));
+    if (duplicate) {
+        alert(`Phòng ${duplicate.name} đã tồn tại.`);
+        return;
+    }
 
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-          try {
-              const bstr = evt.target?.result;
-              const wb = XLSX.read(bstr, { type: 'binary' });
-              const wsname = wb.SheetNames[0];
-              const ws = wb.Sheets[wsname];
-              const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-
-              if (!data || data.length < 2) {
-                  setTimeout(() => alert("File Excel rỗng hoặc không đúng định dạng!"), 100);
-                  return;
-              }
-
-              const rows = data.slice(1) as any[];
-              
-              // Map columns: 0: Name, 1: Major Name, 2: Student Count, 3: School Year
-              const newClasses = rows.map(row => {
-                  const majorName = row[1] ? String(row[1]).trim() : '';
-                  const major = majors.find(m => m.name.toLowerCase() === majorName.toLowerCase());
-                  
-                  return {
-                      name: row[0] || '',
-                      majorId: major ? major.id : '',
-                      studentCount: row[2] ? Number(row[2]) : 0,
-                      schoolYear: row[3] ? String(row[3]) : ''
-                  };
-              }).filter(c => c.name);
-
-               const missingMajors = newClasses.filter(c => !c.majorId).length;
-               
-               if (newClasses.length > 0) {
-                   importClasses(newClasses);
-                   
-                   let msg = `Đã nhập thành công ${newClasses.length} lớp.`;
-                   if (missingMajors > 0) {
-                       msg += `\nLưu ý: Có ${missingMajors} lớp chưa tìm thấy Ngành học tương ứng trong hệ thống.`;
-                   }
-                   setTimeout(() => alert(msg), 100);
-               } else {
-                   setTimeout(() => alert("Không tìm thấy dữ liệu hợp lệ."), 100);
-               }
-          } catch (error) {
-              console.error(error);
-              setTimeout(() => alert("Lỗi khi đọc file Excel."), 100);
-          }
-      };
-      reader.readAsBinaryString(file);
+    const roomData = {
+        name,
+        capacity: newRoom.capacity || 0,
+        equipment: parseEquipment(roomEquipmentText),
+        note: newRoom.note || ''
+    };
+
+    if (editingRoomId) {
+        updateRoom(editingRoomId, roomData);
+        setEditingRoomId(null);
+    } else {
+        addRoom(roomData);
+    }
+    setNewRoom({});
+    setRoomEquipmentText('');
+  };
+
+  const handleDeleteRoom = (r: Room) => {
+    const usedCount = schedules.filter(s => s.roomId === r.id).length;
+    if (usedCount > 0) {
+        alert(`Không thể xóa phòng ${r.name}: đang được sử dụng trong ${usedCount} buổi học/thi.`);
+        return;
+    }
+    deleteRoom(r.id);
+  };
+
+  const handleEditRoom = (r: Room) => {
+    setNewRoom(r);
+    setRoomEquipmentText(r.equipment.join(', '));
+    setEditingRoomId(r.id);
+  };
+
+  const handleCancelRoom = () => {
+    setNewRoom({});
+    setRoomEquipmentText('');
+    setEditingRoomId(null);
+  };
+
+  // Teacher categories already in use (suggestions for the teacher form and rate rules)
+  const teacherCategories = useMemo(() =>
+      Array.from(new Set([...teachers.map(t => t.category), ...rateRules.map(r => r.teacherCategory)].filter(Boolean) as string[])),
+  [teachers, rateRules]);
+
+  const handleSaveRate = () => {
+    if (!newRate.name?.trim() || !newRate.startDate) {
+        alert("Vui lòng nhập tên và ngày bắt đầu áp dụng.");
+        return;
+    }
+    if (newRate.endDate && newRate.endDate < newRate.startDate) {
+        alert("Ngày kết thúc phải sau ngày bắt đầu.");
+        return;
+    }
+    if ((newRate.rate === undefined || newRate.rate === null) && (newRate.multiplier ?? 1) === 1) {
+        alert("Vui lòng nhập đơn giá hoặc hệ số khác 1.");
+        return;
+    }
+
+    const rateData: Omit<RateRule, 'id'> = {
+        name: newRate.name.trim(),
+        startDate: newRate.startDate,
+        endDate: newRate.endDate || undefined,
+        teacherId: newRate.teacherId || undefined,
+        teacherCategory: newRate.teacherId ? undefined : (newRate.teacherCategory?.trim() || undefined),
+        session: newRate.session || undefined,
+        scheduleType: newRate.scheduleType || undefined,
+        sessionKind: newRate.sessionKind || undefined,
+        rate: newRate.rate,
+        multiplier: newRate.multiplier || 1
+    };
+
+    if (editingRateId) {
+        updateRateRule(editingRateId, rateData);
+        setEditingRateId(null);
+    } else {
+        addRateRule(rateData);
+    }
+    setNewRate({ multiplier: 1 });
+  };
+
+  const handleEditRate = (r: RateRule) => {
+    setNewRate(r);
+    setEditingRateId(r.id);
+  };
+
+  const handleCancelRate = () => {
+    setNewRate({ multiplier: 1 });
+    setEditingRateId(null);
   };
 
   const handleSaveClass = () => {
@@ -329,7 +362,9 @@ const Management: React.FC = () => {
           name: newClass.name,
           studentCount: newClass.studentCount || 0,
           majorId: newClass.majorId,
-          schoolYear: newClass.schoolYear || ''
+          schoolYear: newClass.schoolYear || '',
+          curriculumId: newClass.curriculumId || undefined,
+          practiceGroups: newClass.practiceGroups?.length ? newClass.practiceGroups : undefined
       };
 
       if (editingClassId) {
@@ -375,8 +410,36 @@ const Management: React.FC = () => {
          >
            Lớp
          </button>
+         <button 
+           className={`pb-2 px-4 whitespace-nowrap ${activeTab === 'rooms' ? 'border-b-2 border-blue-600 text-blue-600 font-bold' : 'text-gray-500'}`}
+           onClick={() => setActiveTab('rooms')}
+         >
+           Phòng học
+         </button>
+         <button 
+           className={`pb-2 px-4 whitespace-nowrap ${activeTab === 'rates' ? 'border-b-2 border-blue-600 text-blue-600 font-bold' : 'text-gray-500'}`}
+           onClick={() => setActiveTab('rates')}
+         >
+           Bảng đơn giá
+         </button>
+         <button 
+           className={`pb-2 px-4 whitespace-nowrap ${activeTab === 'semesters' ? 'border-b-2 border-blue-600 text-blue-600 font-bold' : 'text-gray-500'}`}
+           onClick={() => setActiveTab('semesters')}
+         >
+           Năm học - Học kỳ
+         </button>
+         <button 
+           className={`pb-2 px-4 whitespace-nowrap ${activeTab === 'curricula' ? 'border-b-2 border-blue-600 text-blue-600 font-bold' : 'text-gray-500'}`}
+           onClick={() => setActiveTab('curricula')}
+         >
+           Chương trình đào tạo
+         </button>
        </div>
 
+       {activeTab === 'semesters' && <SemesterManager />}
+
+       {activeTab === 'curricula' && <CurriculumManager />}
+
        {activeTab === 'teachers' && (
          <div className="space-y-4">
             <div className="bg-white p-4 rounded shadow grid grid-cols-1 md:grid-cols-12 gap-4">
@@ -393,9 +456,15 @@ const Management: React.FC = () => {
                <div className="md:col-span-4">
                    <input placeholder="Họ tên" className="border p-2 rounded w-full" value={newTeacher.name || ''} onChange={e => setNewTeacher({...newTeacher, name: e.target.value})} />
                </div>
-               <div className="md:col-span-6">
+               <div className="md:col-span-4">
                    <input placeholder="Môn dạy (Chuyên môn)" className="border p-2 rounded w-full" value={newTeacher.mainSubject || ''} onChange={e => setNewTeacher({...newTeacher, mainSubject: e.target.value})} />
                </div>
+               <div className="md:col-span-2">
+                   <input placeholder="Loại GV (Cơ hữu...)" list="teacher-categories" className="border p-2 rounded w-full" value={newTeacher.category || ''} onChange={e => setNewTeacher({...newTeacher, category: e.target.value})} title="Dùng để áp dụng bảng đơn giá theo loại giáo viên" />
+                   <datalist id="teacher-categories">
+                       {teacherCategories.map(c => <option key={c} value={c} />)}
+                   </datalist>
+               </div>
 
                <div className="md:col-span-3">
                    <input placeholder="Điện thoại" className="border p-2 rounded w-full" value={newTeacher.phone || ''} onChange={e => setNewTeacher({...newTeacher, phone: e.target.value})} />
@@ -409,6 +478,64 @@ const Management: React.FC = () => {
                <div className="md:col-span-3 flex gap-2">
                     <input type="number" placeholder="Thù lao/tiết" className="border p-2 rounded w-full" value={newTeacher.ratePerPeriod || ''} onChange={e => setNewTeacher({...newTeacher, ratePerPeriod: Number(e.target.value)})} />
                </div>
+
+               {/* Availability: weekly pattern (visiting teachers) + dated exceptions */}
+               <div className="md:col-span-6 border rounded p-3 bg-gray-50">
+                   <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                       <input type="checkbox" checked={!!newTeacher.availability} onChange={e => toggleAvailabilityLimit(e.target.checked)} />
+                       Chỉ dạy vào các buổi đã chọn (GV thỉnh giảng)
+                   </label>
+                   {newTeacher.availability && (
+                       <table className="w-full text-xs mt-2 text-center">
+                           <thead>
+                               <tr>
+                                   <th className="p-1"></th>
+                                   {AVAILABILITY_DAYS.map(d => <th key={d} className="p-1 font-medium">{getWeekdayLabel(d)}</th>)}
+                               </tr>
+                           </thead>
+                           <tbody>
+                               {AVAILABILITY_SESSIONS.map(session => (
+                                   <tr key={session}>
+                                       <td className="p-1 text-left font-medium">{session}</td>
+                                       {AVAILABILITY_DAYS.map(d => (
+                                           <td key={d} className="p-1">
+                                               <input
+                                                   type="checkbox"
+                                                   checked={(newTeacher.availability?.[d] || []).includes(session)}
+                                                   onChange={() => toggleAvailabilitySlot(d, session)}
+                                               />
+                                           </td>
+                                       ))}
+                                   </tr>
+                               ))}
+                           </tbody>
+                       </table>
+                   )}
+               </div>
+               <div className="md:col-span-6 border rounded p-3 bg-gray-50">
+                   <div className="text-sm font-medium mb-2 flex items-center gap-1"><CalendarX size={16} /> Ngày nghỉ / công tác</div>
+                   <div className="flex flex-wrap gap-2 items-center">
+                       <input type="date" className="border p-1 rounded text-sm" value={leaveForm.startDate} onChange={e => setLeaveForm({ ...leaveForm, startDate: e.target.value })} />
+                       <span className="text-gray-400">-</span>
+                       <input type="date" className="border p-1 rounded text-sm" value={leaveForm.endDate} onChange={e => setLeaveForm({ ...leaveForm, endDate: e.target.value })} />
+                       <input placeholder="Lý do" className="border p-1 rounded text-sm flex-1 min-w-[100px]" value={leaveForm.reason} onChange={e => setLeaveForm({ ...leaveForm, reason: e.target.value })} />
+                       <button onClick={handleAddLeave} className="text-blue-600 hover:bg-blue-50 p-1 rounded" title="Thêm ngày nghỉ"><Plus size={18} /></button>
+                   </div>
+                   {(newTeacher.unavailableDates || []).length > 0 && (
+                       <ul className="mt-2 space-y-1 text-sm">
+                           {(newTeacher.unavailableDates || []).map(u => (
+                               <li key={u.id} className="flex justify-between items-center bg-white border rounded px-2 py-1">
+                                   <span>
+                                       {u.startDate.split('-').reverse().join('/')}
+                                       {u.endDate !== u.startDate && ` - ${u.endDate.split('-').reverse().join('/')}`}
+                                       {u.reason && <span className="text-gray-500"> ({u.reason})</span>}
+                                   </span>
+                                   <button onClick={() => handleRemoveLeave(u.id)} className="text-red-500" title="Xóa"><X size={14} /></button>
+                               </li>
+                           ))}
+                       </ul>
+                   )}
+               </div>
                
                <div className="md:col-span-12 flex flex-col lg:flex-row gap-4 justify-between items-center border-t pt-4 mt-2">
                  {/* Left: Search & Import */}
@@ -429,14 +556,14 @@ const Management: React.FC = () => {
                           )}
                     </div>
                     
-                     <input type="file" ref={fileInputTeacherRef} accept=".xlsx,.xls" className="hidden" onChange={handleTeacherFileUpload} />
+                     <input type="file" ref={fileInputTeacherRef} accept=".xlsx,.xls" className="hidden" onChange={handleImportFile('teachers')} />
                      <button onClick={() => fileInputTeacherRef.current?.click()} className="flex items-center gap-1 text-sm bg-green-50 text-green-700 px-3 py-2 rounded hover:bg-green-100 border border-green-200 whitespace-nowrap">
                         <Upload size={16} /> <span className="hidden sm:inline">Nhập Excel</span>
                      </button>
                      <div className="relative group">
                         <HelpCircle size={18} className="text-gray-400 cursor-help" />
                         <div className="absolute left-0 bottom-full mb-2 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10 hidden group-hover:block">
-                           File Excel: <strong>Danh xưng | Họ tên | Điện thoại | Ngân hàng | Số TK | Thù lao | Môn dạy</strong>
+                           Cột được nhận theo tiêu đề (có thể chọn lại khi nhập): <strong>Danh xưng | Họ tên | Điện thoại | Ngân hàng | Số tài khoản | Thù lao/tiết | Môn chính | Loại GV</strong>
                         </div>
                      </div>
                  </div>
@@ -479,16 +606,24 @@ const Management: React.FC = () => {
                   </thead>
                   <tbody>
                     {sortedTeachers.map(t => (
-                      <tr key={t.id} className="border-t hover:bg-gray-50">
+                      <tr key={t.id} className={`border-t hover:bg-gray-50 ${t.archived ? 'opacity-60' : ''}`}>
                         <td className="p-3 text-gray-600">{t.title}</td>
-                        <td className="p-3 font-medium">{t.name}</td>
+                        <td className="p-3 font-medium">
+                          {t.name}
+                          {t.archived && <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded">Lưu trữ</span>}
+                          {t.availability && <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded" title="Chỉ dạy vào các buổi đã đăng ký">Thỉnh giảng</span>}
+                          {(t.unavailableDates || []).length > 0 && <span className="ml-1 text-xs bg-red-100 text-red-700 px-1.5 py-0.5 rounded">{t.unavailableDates!.length} lịch vắng</span>}
+                          {t.category && <span className="ml-1 text-xs bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{t.category}</span>}
+                        </td>
                         <td className="p-3 text-gray-600">{t.mainSubject}</td>
                         <td className="p-3">{t.phone}</td>
                         <td className="p-3">{t.bank} - {t.accountNumber}</td>
                         <td className="p-3">{t.ratePerPeriod.toLocaleString()}</td>
                         <td className="p-3 flex space-x-2">
                            <button onClick={() => handleEditTeacher(t)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
-                           <button onClick={() => deleteTeacher(t.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                           {t.archived
+                             ? <button onClick={() => restoreArchived('teacher', t.id)} className="text-green-600" title="Khôi phục"><ArchiveRestore size={18} /></button>
+                             : <button onClick={() => handleDelete('teacher', t.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>}
                         </td>
                       </tr>
                     ))}
@@ -539,14 +674,14 @@ const Management: React.FC = () => {
                  </div>
 
                  <div className="flex items-center gap-2 ml-auto">
-                     <input type="file" ref={fileInputSubjectRef} accept=".xlsx,.xls" className="hidden" onChange={handleSubjectFileUpload} />
+                     <input type="file" ref={fileInputSubjectRef} accept=".xlsx,.xls" className="hidden" onChange={handleImportFile('subjects')} />
                      <button onClick={() => fileInputSubjectRef.current?.click()} className="flex items-center gap-1 text-sm bg-green-50 text-green-700 px-3 py-1.5 rounded hover:bg-green-100 border border-green-200">
                         <Upload size={16} /> Nhập Excel
                      </button>
                       <div className="relative group">
                         <HelpCircle size={18} className="text-gray-400 cursor-help" />
                         <div className="absolute right-0 top-8 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10 hidden group-hover:block">
-                           File Excel: <strong>Tên môn | Ngành học | Số tiết</strong>
+                           Cột được nhận theo tiêu đề (có thể chọn lại khi nhập): <strong>Tên môn học | Ngành | Số tiết | Thiết bị cần</strong>
                            <br/><span className="text-[10px] opacity-75">Tên Ngành cần khớp với hệ thống.</span>
                         </div>
                      </div>
@@ -572,16 +707,28 @@ const Management: React.FC = () => {
                   </div>
                   <div className="md:col-span-2">
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Tổng số tiết {(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8') && <span className="text-xs text-gray-400 font-normal">(Không bắt buộc)</span>}
+                        Tổng số tiết / TH {(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8') && <span className="text-xs text-gray-400 font-normal">(Không bắt buộc)</span>}
                     </label>
-                    <input 
-                        type="number" 
-                        className="border p-2 rounded w-full disabled:bg-gray-100 disabled:text-gray-500" 
-                        value={newSubject.totalPeriods || ''} 
-                        onChange={e => setNewSubject({...newSubject, totalPeriods: Number(e.target.value)})} 
-                        placeholder={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8') ? "---" : "0"} 
-                        disabled={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8')}
-                    />
+                    <div className="flex gap-1">
+                      <input 
+                          type="number" 
+                          title="Tổng số tiết (lý thuyết + thực hành)"
+                          className="border p-2 rounded w-1/2 disabled:bg-gray-100 disabled:text-gray-500" 
+                          value={newSubject.totalPeriods || ''} 
+                          onChange={e => setNewSubject({...newSubject, totalPeriods: Number(e.target.value)})} 
+                          placeholder={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8') ? "---" : "0"} 
+                          disabled={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8')}
+                      />
+                      <input 
+                          type="number" 
+                          title="Trong đó thực hành: dạy cho từng nhóm thực hành của lớp, phần còn lại là lý thuyết dạy chung"
+                          className="border p-2 rounded w-1/2 disabled:bg-gray-100 disabled:text-gray-500" 
+                          value={newSubject.practicePeriods || ''} 
+                          onChange={e => setNewSubject({...newSubject, practicePeriods: Number(e.target.value)})} 
+                          placeholder={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8') ? "---" : "TH"} 
+                          disabled={(newSubject.majorId === 'culture_8' || filterMajorId === 'culture_8')}
+                      />
+                    </div>
                   </div>
                    <div className="md:col-span-3 pb-2">
                     <label className="flex items-center space-x-2 cursor-pointer select-none">
@@ -597,6 +744,17 @@ const Management: React.FC = () => {
                         </span>
                     </label>
                   </div>
+                  <div className="md:col-span-12">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Thiết bị yêu cầu (Thực hành) <span className="text-xs text-gray-400 font-normal">(Phân cách bằng dấu phẩy)</span>
+                    </label>
+                    <input 
+                        className="border p-2 rounded w-full" 
+                        value={subjectEquipmentText} 
+                        onChange={e => setSubjectEquipmentText(e.target.value)} 
+                        placeholder="Ví dụ: Máy tính, Bàn thực hành điện"
+                    />
+                  </div>
                </div>
 
                 <datalist id="teacher-list">
@@ -668,17 +826,26 @@ const Management: React.FC = () => {
                     {subjects
                       .filter(s => (!filterMajorId || s.majorId === filterMajorId) && s.name.toLowerCase().includes(subjectSearch.toLowerCase()))
                       .map(s => (
-                      <tr key={s.id} className="border-t hover:bg-gray-50">
+                      <tr key={s.id} className={`border-t hover:bg-gray-50 ${s.archived ? 'opacity-60' : ''}`}>
                         <td className="p-3 align-top">
-                            <div className="font-medium">{s.name}</div>
+                            <div className="font-medium">
+                                {s.name}
+                                {s.archived && <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded">Lưu trữ</span>}
+                            </div>
                             {s.isShared && (
                                 <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800 mt-1">
                                     <Users size={10} className="mr-1" /> Môn chung
                                 </span>
                             )}
+                            {s.requiredEquipment && s.requiredEquipment.length > 0 && (
+                                <div className="text-xs text-gray-500 mt-1">Thiết bị: {s.requiredEquipment.join(', ')}</div>
+                            )}
                         </td>
                         <td className="p-3 align-top">{majors.find(m => m.id === s.majorId)?.name}</td>
-                        <td className="p-3 align-top">{s.totalPeriods}</td>
+                        <td className="p-3 align-top">
+                          {s.totalPeriods}
+                          {getPeriodSplit(s).practice > 0 && <div className="text-xs text-gray-500">LT {getPeriodSplit(s).theory} / TH {getPeriodSplit(s).practice}</div>}
+                        </td>
                         <td className="p-3 text-sm text-gray-600 align-top">
                            {s.teacher1 && <div>1. {s.teacher1} - {s.phone1}</div>}
                            {s.teacher2 && <div>2. {s.teacher2} - {s.phone2}</div>}
@@ -686,7 +853,9 @@ const Management: React.FC = () => {
                         </td>
                         <td className="p-3 flex space-x-2 align-top">
                            <button onClick={() => handleEditSubject(s)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
-                           <button onClick={() => deleteSubject(s.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                           {s.archived
+                             ? <button onClick={() => restoreArchived('subject', s.id)} className="text-green-600" title="Khôi phục"><ArchiveRestore size={18} /></button>
+                             : <button onClick={() => handleDelete('subject', s.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>}
                         </td>
                       </tr>
                     ))}
@@ -708,14 +877,24 @@ const Management: React.FC = () => {
        {activeTab === 'classes' && (
          <div className="space-y-4">
              <div className="bg-white p-4 rounded shadow grid grid-cols-1 md:grid-cols-5 gap-4">
-               <input placeholder="Tên lớp (25DC...)" className="border p-2 rounded md:col-span-2" value={newClass.name || ''} onChange={e => setNewClass({...newClass, name: e.target.value})} />
-               <select className="border p-2 rounded" value={newClass.majorId || ''} onChange={e => setNewClass({...newClass, majorId: e.target.value})}>
+               <input placeholder="Tên lớp (25DC...)" className="border p-2 rounded" value={newClass.name || ''} onChange={e => setNewClass({...newClass, name: e.target.value})} />
+               <select className="border p-2 rounded" value={newClass.majorId || ''} onChange={e => setNewClass({...newClass, majorId: e.target.value, curriculumId: undefined})}>
                   <option value="">Chọn Ngành...</option>
                   {majors.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                </select>
+               <select className="border p-2 rounded" value={newClass.curriculumId || ''} onChange={e => setNewClass({...newClass, curriculumId: e.target.value})} title="Chương trình đào tạo quyết định các môn lớp phải học">
+                  <option value="">Chương trình: theo ngành</option>
+                  {curricula.filter(c => c.majorId === newClass.majorId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+               </select>
                <div className="flex gap-2">
-                 <input type="number" placeholder="Số lượng" className="border p-2 rounded w-1/2" value={newClass.studentCount || ''} onChange={e => setNewClass({...newClass, studentCount: Number(e.target.value)})} />
-                 <input placeholder="Niên khóa" className="border p-2 rounded w-1/2" value={newClass.schoolYear || ''} onChange={e => setNewClass({...newClass, schoolYear: e.target.value})} />
+                 <input type="number" placeholder="Sĩ số dự kiến" title="Chỉ dùng khi lớp chưa có danh sách HSSV" className="border p-2 rounded w-1/3" value={newClass.studentCount || ''} onChange={e => setNewClass({...newClass, studentCount: Number(e.target.value)})} />
+                 <input placeholder="Niên khóa" className="border p-2 rounded w-1/3" value={newClass.schoolYear || ''} onChange={e => setNewClass({...newClass, schoolYear: e.target.value})} />
+                 <input
+                   type="number" min={0} placeholder="Số nhóm TH" title="Số nhóm thực hành (Nhóm 1, Nhóm 2...). Để trống nếu thực hành cả lớp"
+                   className="border p-2 rounded w-1/3"
+                   value={newClass.practiceGroups?.length || ''}
+                   onChange={e => setNewClass({...newClass, practiceGroups: Array.from({ length: Math.max(0, Number(e.target.value) || 0) }, (_, i) => `Nhóm ${i + 1}`)})}
+                 />
                </div>
                
                <div className="flex gap-2">
@@ -747,14 +926,14 @@ const Management: React.FC = () => {
                   )}
               </div>
               <div className="flex items-center gap-2">
-                 <input type="file" ref={fileInputClassRef} accept=".xlsx,.xls" className="hidden" onChange={handleClassFileUpload} />
+                 <input type="file" ref={fileInputClassRef} accept=".xlsx,.xls" className="hidden" onChange={handleImportFile('classes')} />
                  <button onClick={() => fileInputClassRef.current?.click()} className="flex items-center gap-1 text-sm bg-green-50 text-green-700 px-3 py-1.5 rounded hover:bg-green-100 border border-green-200">
                     <Upload size={16} /> Nhập Excel
                  </button>
                  <div className="relative group">
                     <HelpCircle size={18} className="text-gray-400 cursor-help" />
                     <div className="absolute right-0 top-8 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10 hidden group-hover:block">
-                       File Excel: <strong>Tên lớp | Ngành học | Số lượng | Niên khóa</strong>
+                       Cột được nhận theo tiêu đề (có thể chọn lại khi nhập): <strong>Tên lớp | Ngành | Sĩ số dự kiến | Niên khóa</strong>
                        <br/><span className="text-[10px] opacity-75">Tên Ngành cần khớp với hệ thống.</span>
                     </div>
                  </div>
@@ -776,21 +955,33 @@ const Management: React.FC = () => {
                         {classSortMajor === 'asc' && <ArrowUp size={14} className="text-blue-600" />}
                         {classSortMajor === 'desc' && <ArrowDown size={14} className="text-blue-600" />}
                       </th>
-                      <th className="p-3">Số lượng</th>
+                      <th className="p-3">Sĩ số</th>
                       <th className="p-3">Niên khóa</th>
                       <th className="p-3">Hành động</th>
                     </tr>
                   </thead>
                   <tbody>
                     {sortedClasses.map(c => (
-                      <tr key={c.id} className="border-t hover:bg-gray-50">
-                        <td className="p-3 font-medium">{c.name}</td>
-                        <td className="p-3">{majors.find(m => m.id === c.majorId)?.name}</td>
-                        <td className="p-3">{c.studentCount}</td>
+                      <tr key={c.id} className={`border-t hover:bg-gray-50 ${c.archived ? 'opacity-60' : ''}`}>
+                        <td className="p-3 font-medium">
+                          {c.name}
+                          {c.archived && <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded">Lưu trữ</span>}
+                        </td>
+                        <td className="p-3">
+                          {majors.find(m => m.id === c.majorId)?.name}
+                          {c.curriculumId && <div className="text-xs text-gray-500">{curricula.find(cur => cur.id === c.curriculumId)?.name}</div>}
+                        </td>
+                        <td className="p-3">
+                          {getClassHeadcount(c, students)}
+                          {!students.some(s => s.classId === c.id) && <span className="ml-1 text-xs text-gray-400 italic">(dự kiến)</span>}
+                          {c.practiceGroups?.length ? <div className="text-xs text-gray-500">{c.practiceGroups.length} nhóm thực hành</div> : null}
+                        </td>
                         <td className="p-3">{c.schoolYear}</td>
                         <td className="p-3 flex space-x-2">
                            <button onClick={() => handleEditClass(c)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
-                           <button onClick={() => deleteClass(c.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                           {c.archived
+                             ? <button onClick={() => restoreArchived('class', c.id)} className="text-green-600" title="Khôi phục"><ArchiveRestore size={18} /></button>
+                             : <button onClick={() => handleDelete('class', c.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>}
                         </td>
                       </tr>
                     ))}
@@ -808,6 +999,304 @@ const Management: React.FC = () => {
             </div>
          </div>
        )}
+
+       {activeTab === 'rooms' && (
+         <div className="space-y-4">
+             <div className="bg-white p-4 rounded shadow grid grid-cols-1 md:grid-cols-12 gap-4">
+               <input placeholder="Mã/Tên phòng (P101...)" className="border p-2 rounded md:col-span-2" value={newRoom.name || ''} onChange={e => setNewRoom({...newRoom, name: e.target.value})} />
+               <input type="number" placeholder="Sức chứa" className="border p-2 rounded md:col-span-2" value={newRoom.capacity || ''} onChange={e => setNewRoom({...newRoom, capacity: Number(e.target.value)})} />
+               <input placeholder="Thiết bị (Máy chiếu, Máy tính...)" className="border p-2 rounded md:col-span-4" value={roomEquipmentText} onChange={e => setRoomEquipmentText(e.target.value)} />
+               <input placeholder="Ghi chú" className="border p-2 rounded md:col-span-2" value={newRoom.note || ''} onChange={e => setNewRoom({...newRoom, note: e.target.value})} />
+
+               <div className="flex gap-2 md:col-span-2">
+                 <button onClick={handleSaveRoom} className={`flex-1 text-white p-2 rounded flex justify-center items-center ${editingRoomId ? 'bg-orange-500' : 'bg-teal-600'}`}>
+                   {editingRoomId ? <><Save size={18} className="mr-1"/> Cập nhật</> : <><Plus size={18} className="mr-1"/> Thêm</>}
+                 </button>
+                 {editingRoomId && (
+                   <button onClick={handleCancelRoom} className="bg-gray-300 text-gray-700 p-2 rounded">
+                     <X size={18} />
+                   </button>
+                 )}
+               </div>
+            </div>
+
+             <div className="bg-white p-3 rounded shadow border border-gray-100 flex flex-col md:flex-row items-center gap-3">
+              <div className="flex items-center gap-2 flex-1 w-full">
+                  <Search size={20} className="text-gray-400" />
+                  <input 
+                    type="text" 
+                    placeholder="Tìm kiếm phòng học..." 
+                    className="flex-1 outline-none text-sm"
+                    value={roomSearch}
+                    onChange={(e) => setRoomSearch(e.target.value)}
+                  />
+                  {roomSearch && (
+                    <button onClick={() => setRoomSearch('')} className="text-gray-400 hover:text-gray-600">
+                      <X size={16} />
+                    </button>
+                  )}
+              </div>
+              <div className="flex items-center gap-2">
+                 <input type="file" ref={fileInputRoomRef} accept=".xlsx,.xls" className="hidden" onChange={handleImportFile('rooms')} />
+                 <button onClick={() => fileInputRoomRef.current?.click()} className="flex items-center gap-1 text-sm bg-green-50 text-green-700 px-3 py-1.5 rounded hover:bg-green-100 border border-green-200">
+                    <Upload size={16} /> Nhập Excel
+                 </button>
+                 <div className="relative group">
+                    <HelpCircle size={18} className="text-gray-400 cursor-help" />
+                    <div className="absolute right-0 top-8 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10 hidden group-hover:block">
+                       Cột được nhận theo tiêu đề (có thể chọn lại khi nhập): <strong>Mã phòng | Sức chứa | Thiết bị | Ghi chú</strong>
+                       <br/><span className="text-[10px] opacity-75">Các thiết bị phân cách bằng dấu phẩy.</span>
+                    </div>
+                 </div>
+              </div>
+            </div>
+
+             <div className="bg-white rounded shadow overflow-hidden">
+               <table className="w-full text-left">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="p-3">Phòng</th>
+                      <th className="p-3">Sức chứa</th>
+                      <th className="p-3">Thiết bị</th>
+                      <th className="p-3">Ghi chú</th>
+                      <th className="p-3">Hành động</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rooms
+                      .filter(r => r.name.toLowerCase().includes(roomSearch.toLowerCase()))
+                      .map(r => (
+                      <tr key={r.id} className="border-t hover:bg-gray-50">
+                        <td className="p-3 font-medium flex items-center"><DoorOpen size={16} className="mr-2 text-teal-600" />{r.name}</td>
+                        <td className="p-3">{r.capacity || <span className="italic text-gray-400">Chưa cập nhật</span>}</td>
+                        <td className="p-3 text-sm">
+                           {r.equipment.length > 0 ? (
+                               <div className="flex flex-wrap gap-1">
+                                   {r.equipment.map(eq => <span key={eq} className="px-2 py-0.5 rounded text-xs bg-teal-50 text-teal-700 border border-teal-100">{eq}</span>)}
+                               </div>
+                           ) : <span className="italic text-gray-400">Không có</span>}
+                        </td>
+                        <td className="p-3 text-sm text-gray-600">{r.note}</td>
+                        <td className="p-3 flex space-x-2">
+                           <button onClick={() => handleEditRoom(r)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
+                           <button onClick={() => handleDeleteRoom(r)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                        </td>
+                      </tr>
+                    ))}
+                    {rooms.filter(r => r.name.toLowerCase().includes(roomSearch.toLowerCase())).length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="p-8 text-center text-gray-400 italic">
+                            {roomSearch 
+                             ? `Không tìm thấy phòng nào phù hợp với "${roomSearch}".` 
+                             : `Chưa có phòng học nào.`}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+               </table>
+            </div>
+         </div>
+       )}
+
+       {activeTab === 'rates' && (
+         <div className="space-y-4">
+             <div className="bg-white p-4 rounded shadow grid grid-cols-1 md:grid-cols-12 gap-4">
+               <input placeholder="Tên (VD: Đơn giá năm học 2025-2026, Phụ cấp buổi tối...)" className="border p-2 rounded md:col-span-4" value={newRate.name || ''} onChange={e => setNewRate({...newRate, name: e.target.value})} />
+               <div className="md:col-span-4 flex items-center gap-2">
+                   <input type="date" className="border p-2 rounded flex-1" value={newRate.startDate || ''} onChange={e => setNewRate({...newRate, startDate: e.target.value})} title="Áp dụng từ ngày" />
+                   <span className="text-gray-400">-</span>
+                   <input type="date" className="border p-2 rounded flex-1" value={newRate.endDate || ''} onChange={e => setNewRate({...newRate, endDate: e.target.value})} title="Đến ngày (để trống nếu chưa xác định)" />
+               </div>
+               <select className="border p-2 rounded md:col-span-2" value={newRate.teacherId || ''} onChange={e => setNewRate({...newRate, teacherId: e.target.value || undefined})}>
+                   <option value="">Mọi giáo viên</option>
+                   {teachers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+               </select>
+               <input placeholder="Loại GV" list="teacher-categories-rate" className="border p-2 rounded md:col-span-2 disabled:bg-gray-100" disabled={!!newRate.teacherId} value={newRate.teacherCategory || ''} onChange={e => setNewRate({...newRate, teacherCategory: e.target.value})} />
+               <datalist id="teacher-categories-rate">
+                   {teacherCategories.map(c => <option key={c} value={c} />)}
+               </datalist>
+
+               <select className="border p-2 rounded md:col-span-2" value={newRate.session || ''} onChange={e => setNewRate({...newRate, session: (e.target.value || undefined) as Session | undefined})}>
+                   <option value="">Mọi buổi</option>
+                   <option value="Sáng">Sáng</option>
+                   <option value="Chiều">Chiều</option>
+                   <option value="Tối">Tối</option>
+               </select>
+               <select className="border p-2 rounded md:col-span-2" value={newRate.scheduleType || ''} onChange={e => setNewRate({...newRate, scheduleType: (e.target.value || undefined) as RateRule['scheduleType']})}>
+                   <option value="">Học và thi</option>
+                   <option value="class">Lịch học</option>
+                   <option value="exam">Lịch thi / coi thi</option>
+               </select>
+               <select className="border p-2 rounded md:col-span-2" value={newRate.sessionKind || ''} onChange={e => setNewRate({...newRate, sessionKind: (e.target.value || undefined) as RateRule['sessionKind']})}>
+                   <option value="">Lý thuyết và thực hành</option>
+                   <option value="theory">Lý thuyết</option>
+                   <option value="practice">Thực hành (theo nhóm)</option>
+               </select>
+               <input type="number" min={0} placeholder="Đơn giá/tiết (để trống = giữ)" className="border p-2 rounded md:col-span-3" value={newRate.rate ?? ''} onChange={e => setNewRate({...newRate, rate: e.target.value === '' ? undefined : Number(e.target.value)})} />
+               <div className="md:col-span-2 flex items-center gap-2">
+                   <span className="text-sm text-gray-500 whitespace-nowrap">Hệ số</span>
+                   <input type="number" min={0} step={0.1} className="border p-2 rounded w-full" value={newRate.multiplier ?? 1} onChange={e => setNewRate({...newRate, multiplier: Number(e.target.value)})} />
+               </div>
+
+               <div className="flex gap-2 md:col-span-3">
+                 <button onClick={handleSaveRate} className={`flex-1 text-white p-2 rounded flex justify-center items-center ${editingRateId ? 'bg-orange-500' : 'bg-blue-600'}`}>
+                   {editingRateId ? <><Save size={18} className="mr-1"/> Cập nhật</> : <><Plus size={18} className="mr-1"/> Thêm</>}
+                 </button>
+                 {editingRateId && (
+                   <button onClick={handleCancelRate} className="bg-gray-300 text-gray-700 p-2 rounded">
+                     <X size={18} />
+                   </button>
+                 )}
+               </div>
+               <p className="md:col-span-12 text-xs text-gray-500 italic">
+                 * Mỗi buổi dạy được tính theo các dòng còn hiệu lực tại ngày dạy: dòng cụ thể nhất có đơn giá (theo GV &gt; loại GV &gt; chung) quyết định đơn giá gốc (mặc định là thù lao/tiết của giáo viên), sau đó nhân với hệ số của tất cả các dòng phù hợp.
+               </p>
+            </div>
+
+             <div className="bg-white rounded shadow overflow-hidden">
+               <table className="w-full text-left">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="p-3">Tên</th>
+                      <th className="p-3">Hiệu lực</th>
+                      <th className="p-3">Áp dụng cho</th>
+                      <th className="p-3">Đơn giá/tiết</th>
+                      <th className="p-3">Hệ số</th>
+                      <th className="p-3">Hành động</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...rateRules].sort((a, b) => b.startDate.localeCompare(a.startDate)).map(r => (
+                      <tr key={r.id} className="border-t hover:bg-gray-50">
+                        <td className="p-3 font-medium flex items-center"><BadgeDollarSign size={16} className="mr-2 text-blue-600" />{r.name}</td>
+                        <td className="p-3 text-sm">
+                            {r.startDate.split('-').reverse().join('/')} - {r.endDate ? r.endDate.split('-').reverse().join('/') : '...'}
+                        </td>
+                        <td className="p-3 text-sm">
+                            <div className="flex flex-wrap gap-1">
+                                <span className="px-2 py-0.5 rounded text-xs bg-blue-50 text-blue-700 border border-blue-100">
+                                    {r.teacherId ? (teachers.find(t => t.id === r.teacherId)?.name || 'GV đã xóa') : r.teacherCategory ? `Loại GV: ${r.teacherCategory}` : 'Mọi giáo viên'}
+                                </span>
+                                {r.session && <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">Buổi {r.session}</span>}
+                                {r.scheduleType && <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">{r.scheduleType === 'exam' ? 'Lịch thi' : 'Lịch học'}</span>}
+                                {r.sessionKind && <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">{r.sessionKind === 'practice' ? 'Thực hành' : 'Lý thuyết'}</span>}
+                            </div>
+                        </td>
+                        <td className="p-3">{r.rate !== undefined && r.rate !== null ? r.rate.toLocaleString() : <span className="italic text-gray-400">Giữ nguyên</span>}</td>
+                        <td className="p-3">x{r.multiplier}</td>
+                        <td className="p-3 flex space-x-2">
+                           <button onClick={() => handleEditRate(r)} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
+                           <button onClick={() => deleteRateRule(r.id)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                        </td>
+                      </tr>
+                    ))}
+                    {rateRules.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="p-8 text-center text-gray-400 italic">
+                            Chưa có bảng đơn giá. Thù lao được tính theo thù lao/tiết của từng giáo viên.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+               </table>
+            </div>
+         </div>
+       )}
+
+      {/* Excel import wizards */}
+      {importFile?.target === 'teachers' && (
+        <ImportWizard<Omit<Teacher, 'id'>>
+          file={importFile.file}
+          target="teachers"
+          title="Giáo viên"
+          fields={[
+            { key: 'title', label: 'Danh xưng', aliases: ['Thầy/Cô'], parse: raw => {
+                const t = String(raw).trim().toLowerCase();
+                return t === 'thầy' || t === 'cô' ? { value: t === 'cô' ? 'Cô' : 'Thầy' } : { error: 'Chỉ nhận "Thầy" hoặc "Cô"' };
+            } },
+            { key: 'name', label: 'Họ tên', required: true, aliases: ['Họ và tên', 'Tên giáo viên'] },
+            { key: 'phone', label: 'Điện thoại', aliases: ['SĐT', 'Số điện thoại'] },
+            { key: 'bank', label: 'Ngân hàng' },
+            { key: 'accountNumber', label: 'Số tài khoản', aliases: ['STK', 'Số TK'] },
+            { key: 'ratePerPeriod', label: 'Thù lao/tiết', aliases: ['Thù lao', 'Đơn giá', 'Đơn giá/tiết'], parse: parseNumberCell },
+            { key: 'mainSubject', label: 'Môn chính', aliases: ['Môn dạy', 'Môn dạy chính'] },
+            { key: 'category', label: 'Loại GV', aliases: ['Loại giáo viên'] },
+          ]}
+          build={v => ({
+              title: v.title || 'Thầy',
+              name: v.name,
+              phone: v.phone || '',
+              bank: v.bank || '',
+              accountNumber: v.accountNumber || '',
+              ratePerPeriod: v.ratePerPeriod || 0,
+              mainSubject: v.mainSubject || '',
+              category: v.category || undefined,
+          })}
+          naturalKey={t => `${t.name.trim().toLowerCase()}|${(t.phone || '').replace(/\D/g, '')}`}
+          existing={teachers}
+          onImport={(created, updated) => { importTeachers(created, updated); return `Giáo viên: ${created.length} thêm mới, ${updated.length} cập nhật.`; }}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+      {importFile?.target === 'subjects' && (
+        <ImportWizard<Omit<Subject, 'id'>>
+          file={importFile.file}
+          target="subjects"
+          title="Môn học"
+          fields={[
+            { key: 'name', label: 'Tên môn học', required: true, aliases: ['Môn học', 'Tên môn'] },
+            { key: 'majorId', label: 'Ngành', required: true, aliases: ['Ngành học', 'Tên ngành'], parse: lookupCell(majors, 'Không tìm thấy ngành') },
+            { key: 'totalPeriods', label: 'Số tiết', aliases: ['Tổng số tiết'], parse: parseNumberCell },
+            { key: 'practicePeriods', label: 'Số tiết thực hành', aliases: ['Thực hành', 'Số tiết TH'], parse: parseNumberCell },
+            { key: 'requiredEquipment', label: 'Thiết bị cần', aliases: ['Thiết bị'], parse: raw => ({ value: parseEquipment(String(raw)) }) },
+          ]}
+          build={v => {
+            const totalPeriods = v.totalPeriods ?? 30;
+            return { name: v.name, majorId: v.majorId, totalPeriods, practicePeriods: Math.min(totalPeriods, v.practicePeriods ?? 0), requiredEquipment: v.requiredEquipment || [] };
+          }}
+          naturalKey={sub => `${sub.name.trim().toLowerCase()}|${sub.majorId}`}
+          existing={subjects}
+          onImport={(created, updated) => { importSubjects(created, updated); return `Môn học: ${created.length} thêm mới, ${updated.length} cập nhật.`; }}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+      {importFile?.target === 'classes' && (
+        <ImportWizard<Omit<ClassEntity, 'id'>>
+          file={importFile.file}
+          target="classes"
+          title="Lớp học"
+          fields={[
+            { key: 'name', label: 'Tên lớp', required: true, aliases: ['Lớp'] },
+            { key: 'majorId', label: 'Ngành', required: true, aliases: ['Ngành học', 'Tên ngành'], parse: lookupCell(majors, 'Không tìm thấy ngành') },
+            { key: 'studentCount', label: 'Sĩ số dự kiến', aliases: ['Sĩ số', 'Số lượng'], parse: parseNumberCell },
+            { key: 'schoolYear', label: 'Niên khóa', aliases: ['Khóa học'] },
+          ]}
+          build={v => ({ name: v.name, majorId: v.majorId, studentCount: v.studentCount || 0, schoolYear: v.schoolYear || '' })}
+          naturalKey={c => `${c.name.trim().toLowerCase()}|${(c.schoolYear || '').trim()}`}
+          existing={classes}
+          onImport={(created, updated) => { importClasses(created, updated); return `Lớp: ${created.length} thêm mới, ${updated.length} cập nhật.`; }}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+      {importFile?.target === 'rooms' && (
+        <ImportWizard<Omit<Room, 'id'>>
+          file={importFile.file}
+          target="rooms"
+          title="Phòng học"
+          fields={[
+            { key: 'name', label: 'Mã phòng', required: true, aliases: ['Phòng', 'Tên phòng'] },
+            { key: 'capacity', label: 'Sức chứa', aliases: ['Số chỗ'], parse: parseNumberCell },
+            { key: 'equipment', label: 'Thiết bị', parse: raw => ({ value: parseEquipment(String(raw)) }) },
+            { key: 'note', label: 'Ghi chú' },
+          ]}
+          build={v => ({ name: v.name, capacity: v.capacity || 0, equipment: v.equipment || [], note: v.note || '' })}
+          naturalKey={r => normalizeRoomName(r.name)}
+          existing={rooms}
+          onImport={(created, updated) => { importRooms(created, updated); return `Phòng học: ${created.length} thêm mới, ${updated.length} cập nhật.`; }}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+      {pendingDelete && <DeleteImpactModal kind={pendingDelete.kind} id={pendingDelete.id} onClose={() => setPendingDelete(null)} />}
     </div>
   );
 };
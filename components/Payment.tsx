@@ -1,61 +1,67 @@
 
 import React, { useMemo, useState } from 'react';
 import { useApp } from '../store/AppContext';
-import { ScheduleStatus } from '../types';
+import { PaymentRecord } from '../types';
 import *as XLSX from 'xlsx';
 import ExcelJS from 'exceljs'; // Import ExcelJS
 import saveAs from 'file-saver';
-import { Download, Trash2, CheckCircle, CreditCard, FileSpreadsheet } from 'lucide-react';
+import { Download, Trash2, CheckCircle, CreditCard, FileSpreadsheet, Wallet, Undo2, Layers, X, Save, Filter } from 'lucide-react';
 import { format } from 'date-fns';
-import { parseLocal, base64ToArrayBuffer, isSubjectFinished } from '../utils';
+import { parseLocal, base64ToArrayBuffer, isSubjectFinished, getSubjectProgress, getPayableSchedules, getTeacherPaymentLines, getSchedulesAmount, getScheduleRate, isInSemester, getSemesterLabel, getClassSubjects, getSubjectTotalPeriods } from '../utils';
 
 const Payment: React.FC = () => {
-  const { teachers, schedules, subjects, classes, templates } = useApp();
-
-  // State to track paid/removed subjects (persisted in localStorage)
-  // Store format: "subjectId-classId"
-  const [paidItems, setPaidItems] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem('paid_completed_subjects');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  const {
+    teachers, schedules, subjects, classes, templates, subjectProgress, payments, paymentBatches, rateRules, activeSemester, academicYears, curricula,
+    addPayment, reversePayment, createPaymentBatch, deletePaymentBatch
+  } = useApp();
+
+  // Payment modal (recording one PaymentRecord for a finished subject)
+  const [payForm, setPayForm] = useState<(Omit<PaymentRecord, 'id'> & { subjectName: string; className: string }) | null>(null);
+
+  // Ledger filters & batch grouping
+  const [ledgerTeacherId, setLedgerTeacherId] = useState('');
+  const [ledgerMonth, setLedgerMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [ledgerBatchId, setLedgerBatchId] = useState('');
+  const [selectedPaymentIds, setSelectedPaymentIds] = useState<string[]>([]);
+  const [batchForm, setBatchForm] = useState<{ name: string; month: string; note: string } | null>(null);
 
   // Calculate Completed Subjects (Finished)
   const completedSubjects = useMemo(() => {
     const results: any[] = [];
     
     classes.forEach(cls => {
-        const isH8 = cls.name.toUpperCase().includes('H8');
-
-        // Subjects for this class: Major specific OR Common OR Culture (if not H8) OR Culture 8 (if H8)
-        const classSubjects = subjects.filter(s => {
-            if (s.majorId === 'common') return true;
-            if (s.majorId === 'culture') return !isH8;
-            if (s.majorId === 'culture_8') return isH8;
-            return s.majorId === cls.majorId;
-        });
+        if (cls.archived) return; // Archived classes keep their data in the archive store
+        // Subjects of the class curriculum (major, common and culture subjects when none is linked)
+        const classSubjects = getClassSubjects(cls, curricula, subjects);
         
         classSubjects.forEach(sub => {
             // Unique key for payment tracking
             const uniqueKey = `${sub.id}-${cls.id}`;
 
             // Skip if already paid/deleted
-            if (paidItems.includes(uniqueKey)) return;
+            const progress = getSubjectProgress(subjectProgress, sub.id, cls.id);
+            if (progress?.paid) return;
+
+            // Listed in the semester the subject ended in (last payable session, else the manual end date)
+            const lastSession = getPayableSchedules(schedules, sub.id, cls.id).slice(-1)[0];
+            if (!isInSemester(lastSession?.date || progress?.customEndDate || '', activeSemester)) return;
 
             // USE SHARED HELPER
-            if (isSubjectFinished(sub, cls.id, schedules)) {
-                 const relevantSchedules = schedules.filter(sch => 
-                    sch.subjectId === sub.id && 
-                    sch.classId === cls.id && 
-                    sch.status !== ScheduleStatus.OFF
-                );
-                
-                 // Get list of teachers who taught this subject for this class
-                 const teacherIds = Array.from(new Set(relevantSchedules.map(s => s.teacherId)));
-                 const teacherNames = teacherIds.map(tid => teachers.find(t => t.id === tid)?.name || 'GV đã xóa').join(', ');
+            if (isSubjectFinished(sub, cls.id, schedules, subjectProgress, cls.practiceGroups)) {
+                 // One payment line per teacher who taught this subject for this class
+                 const teacherLines = getTeacherPaymentLines(schedules, sub.id, cls.id).map(line => {
+                     const teacher = teachers.find(t => t.id === line.teacherId);
+                     // Each session priced by the rate table as of its date; rate shown is the average
+                     const amount = getSchedulesAmount(line.schedules, teachers, rateRules);
+                     return {
+                         teacherId: line.teacherId,
+                         teacherName: teacher?.name || 'GV đã xóa',
+                         periods: line.periods,
+                         rate: line.periods > 0 ? Math.round(amount / line.periods) : 0,
+                         amount,
+                         paid: payments.some(p => !p.reversedAt && p.teacherId === line.teacherId && p.subjectId === sub.id && p.classId === cls.id)
+                     };
+                 });
 
                  results.push({
                      subjectId: sub.id,
@@ -63,41 +69,119 @@ const Payment: React.FC = () => {
                      uniqueKey: uniqueKey,
                      subjectName: sub.name,
                      className: cls.name,
-                     teacherName: teacherNames || "Chưa xác định",
-                     totalPeriods: sub.totalPeriods
+                     teacherLines,
+                     totalPeriods: getSubjectTotalPeriods(sub, cls.practiceGroups) // Theory once, practice per group
                  });
             }
         });
     });
     
     return results;
-  }, [subjects, schedules, classes, teachers, paidItems]);
+  }, [subjects, schedules, classes, teachers, subjectProgress, payments, rateRules, activeSemester, curricula]);
 
-  const handleDelete = (key: string) => {
-    setPaidItems(prev => {
-        const newPaidItems = [...prev, key];
-        localStorage.setItem('paid_completed_subjects', JSON.stringify(newPaidItems));
-        return newPaidItems;
-    });
+  // Voucher numbers: PC<yyyyMM>-<sequence in month>
+  const nextVoucherNumber = (paymentDate: string) => {
+      const month = paymentDate.slice(0, 7);
+      const count = payments.filter(p => p.paymentDate.startsWith(month)).length;
+      return `PC${month.replace('-', '')}-${String(count + 1).padStart(3, '0')}`;
   };
 
-  const getFilteredSchedules = (item: any) => {
-      return schedules
-      .filter(s => {
-          if (s.subjectId !== item.subjectId || s.classId !== item.classId || s.status === ScheduleStatus.OFF) return false;
-          
-          if (s.type === 'class') return true;
-          if (s.type === 'exam') {
-              return s.note && s.note.toLowerCase().includes('thực hành');
-          }
-          return false;
-      })
-      .sort((a, b) => {
-          // Sort by date then startPeriod
-          const da = new Date(a.date).getTime();
-          const db = new Date(b.date).getTime();
-          return da - db || a.startPeriod - b.startPeriod;
+  const handleOpenPayment = (item: any, line: any) => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      setPayForm({
+          teacherId: line.teacherId,
+          subjectId: item.subjectId,
+          classId: item.classId,
+          subjectName: item.subjectName,
+          className: item.className,
+          periods: line.periods,
+          rate: line.rate,
+          amount: line.amount,
+          paymentDate: today,
+          voucherNumber: nextVoucherNumber(today),
+          note: ''
+      });
+  };
+
+  const handlePayTeacherChange = (teacherId: string) => {
+      if (!payForm) return;
+      const line = getTeacherPaymentLines(schedules, payForm.subjectId, payForm.classId).find(l => l.teacherId === teacherId);
+      const periods = line?.periods || 0;
+      const amount = line ? getSchedulesAmount(line.schedules, teachers, rateRules) : 0;
+      setPayForm({
+          ...payForm,
+          teacherId,
+          periods,
+          rate: periods > 0 ? Math.round(amount / periods) : (teachers.find(t => t.id === teacherId)?.ratePerPeriod || 0),
+          amount
+      });
+  };
+
+  const handleSavePayment = () => {
+      if (!payForm) return;
+      if (!payForm.teacherId) {
+          alert("Vui lòng chọn giáo viên.");
+          return;
+      }
+      if (payForm.periods <= 0 || payForm.rate < 0 || payForm.amount < 0) {
+          alert("Số tiết và đơn giá không hợp lệ.");
+          return;
+      }
+      if (!payForm.voucherNumber.trim()) {
+          alert("Vui lòng nhập số phiếu chi.");
+          return;
+      }
+      const { subjectName, className, ...record } = payForm;
+      addPayment({
+          ...record,
+          voucherNumber: record.voucherNumber.trim(),
+          note: record.note?.trim() || undefined
       });
+      setPayForm(null);
+  };
+
+  const handleReversePayment = (p: PaymentRecord) => {
+      const reason = window.prompt(`Hoàn lại phiếu chi ${p.voucherNumber}?\nMôn học sẽ quay lại danh sách chờ thanh toán.\n\nLý do:`);
+      if (reason === null) return;
+      reversePayment(p.id, reason.trim());
+      setSelectedPaymentIds(prev => prev.filter(id => id !== p.id));
+  };
+
+  const ledger = useMemo(() => {
+      return payments
+          .filter(p => !ledgerTeacherId || p.teacherId === ledgerTeacherId)
+          .filter(p => !ledgerMonth || p.paymentDate.startsWith(ledgerMonth))
+          .filter(p => !ledgerBatchId || p.batchId === ledgerBatchId)
+          .filter(p => isInSemester(p.paymentDate, activeSemester))
+          .sort((a, b) => b.paymentDate.localeCompare(a.paymentDate) || b.voucherNumber.localeCompare(a.voucherNumber));
+  }, [payments, ledgerTeacherId, ledgerMonth, ledgerBatchId, activeSemester]);
+
+  const ledgerTotal = ledger.filter(p => !p.reversedAt).reduce((sum, p) => sum + p.amount, 0);
+
+  // Only active payments that are not grouped yet can be put in a batch
+  const batchablePayments = ledger.filter(p => !p.reversedAt && !p.batchId);
+
+  const handleCreateBatch = () => {
+      if (!batchForm) return;
+      if (!batchForm.name.trim() || !batchForm.month) {
+          alert("Vui lòng nhập tên đợt và tháng thanh toán.");
+          return;
+      }
+      createPaymentBatch({ name: batchForm.name.trim(), month: batchForm.month, note: batchForm.note.trim() || undefined }, selectedPaymentIds);
+      setSelectedPaymentIds([]);
+      setBatchForm(null);
+  };
+
+  const handleDeleteBatch = (id: string, name: string) => {
+      if (!window.confirm(`Xóa đợt thanh toán "${name}"? Các phiếu chi trong đợt vẫn được giữ lại trong sổ.`)) return;
+      deletePaymentBatch(id);
+      if (ledgerBatchId === id) setLedgerBatchId('');
+  };
+
+  // Classes + practice exams of the subject, optionally limited to one teacher's sessions
+  const getFilteredSchedules = (item: any, teacherId?: string) => {
+      return getPayableSchedules(schedules, item.subjectId, item.classId)
+          .filter(s => !teacherId || s.teacherId === teacherId);
   }
 
   const exportFinishedSubject = (item: any) => {
@@ -119,7 +203,8 @@ const Payment: React.FC = () => {
     XLSX.writeFile(wb, `ThongKe_${item.subjectName}_${item.className}.xlsx`);
   };
 
-  const exportExcelTemplate = async (item: any) => {
+  // Fills the payment template for one teacher's sessions of a finished subject
+  const exportExcelTemplate = async (item: any, line: any) => {
       // 1. Check if templates exist
       const excelTemplates = templates.filter(t => t.type === 'payment_excel');
       if (excelTemplates.length === 0) {
@@ -132,16 +217,15 @@ const Payment: React.FC = () => {
 
       try {
           // 3. Prepare Data
-          const relevantSchedules = getFilteredSchedules(item);
-          const firstSchedule = relevantSchedules[0];
-          const teacherObj = firstSchedule ? teachers.find(t => t.id === firstSchedule.teacherId) : null;
+          const relevantSchedules = getFilteredSchedules(item, line.teacherId);
+          const teacherObj = teachers.find(t => t.id === line.teacherId);
           const startDate = relevantSchedules.length > 0 ? format(parseLocal(relevantSchedules[0].date), 'dd/MM/yyyy') : '...';
           const endDate = relevantSchedules.length > 0 ? format(parseLocal(relevantSchedules[relevantSchedules.length - 1].date), 'dd/MM/yyyy') : '...';
           const actualTotalPeriods = relevantSchedules.reduce((sum, s) => sum + s.periodCount, 0);
 
           const replacements: Record<string, string> = {
               "{teacherTitle}": teacherObj?.title || 'Thầy/Cô', 
-              "{teacherName}": item.teacherName,
+              "{teacherName}": line.teacherName,
               "{teacherPhone}": teacherObj?.phone || '',
               "{teacherBank}": teacherObj?.bank || '',
               "{teacherAccount}": teacherObj?.accountNumber || '',
@@ -149,6 +233,8 @@ const Payment: React.FC = () => {
               "{className}": item.className, // Scalar replacement (Header)
               "{totalPeriods}": String(item.totalPeriods),
               "{actualTotalPeriods}": String(actualTotalPeriods),
+              "{ratePerPeriod}": line.rate.toLocaleString(),
+              "{totalAmount}": line.amount.toLocaleString(),
               "{fromDate}": startDate,
               "{toDate}": endDate,
           };
@@ -175,7 +261,7 @@ const Payment: React.FC = () => {
 
                   // Detect list placeholders with optional suffix (e.g., {date}, {date_2})
                   // Regex: matches {date}, {date_1}, {date_2}, etc.
-                  const listVars = ['date', 'periods', 'type', 'note', 'className'];
+                  const listVars = ['date', 'periods', 'type', 'note', 'className', 'rate', 'amount'];
                   
                   for (const v of listVars) {
                       const regex = new RegExp(`{${v}(_([0-9]+))?}`);
@@ -228,6 +314,11 @@ const Payment: React.FC = () => {
                   if(map['type']) row.getCell(map['type']).value = schedule.type === 'exam' ? 'Thi' : 'Học';
                   if(map['note']) row.getCell(map['note']).value = schedule.note || '';
                   if(map['className']) row.getCell(map['className']).value = item.className; // From item context
+                  if(map['rate'] || map['amount']) {
+                      const rate = getScheduleRate(schedule, teachers, rateRules);
+                      if(map['rate']) row.getCell(map['rate']).value = rate;
+                      if(map['amount']) row.getCell(map['amount']).value = rate * schedule.periodCount;
+                  }
 
                   // Clean up placeholders in this cell if they remain
                   // Note: Logic here assumes the variable took up the whole cell or is ready to be overwritten
@@ -273,7 +364,7 @@ const Payment: React.FC = () => {
           // 7. Write Buffer and Save
           const outBuffer = await workbook.xlsx.writeBuffer();
           const blob = new Blob([outBuffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
-          saveAs(blob, `PhieuThanhToan_${item.subjectName}.xlsx`);
+          saveAs(blob, `PhieuThanhToan_${item.subjectName}_${item.className}_${line.teacherName}.xlsx`);
 
       } catch (error) {
           console.error(error);
@@ -281,10 +372,22 @@ const Payment: React.FC = () => {
       }
   };
 
+  // One filled template per teacher who taught the subject
+  const exportAllTemplates = async (item: any) => {
+      if (!templates.some(t => t.type === 'payment_excel')) {
+          alert('Chưa có mẫu Excel nào. Vui lòng vào mục "Hệ thống" để tải lên mẫu .xlsx!');
+          return;
+      }
+      for (const line of item.teacherLines) {
+          await exportExcelTemplate(item, line);
+      }
+  };
+
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold text-gray-800 flex items-center">
         <CreditCard className="mr-3 text-blue-600" /> Thanh toán giảng dạy
+        {activeSemester && <span className="ml-2 text-base font-normal text-gray-500">({getSemesterLabel(activeSemester, academicYears)})</span>}
       </h1>
       
       <div className="bg-white p-6 rounded-xl shadow border border-gray-200">
@@ -298,19 +401,55 @@ const Payment: React.FC = () => {
                 <table className="w-full text-left bg-white">
                     <thead className="bg-gray-50 border-b border-gray-200">
                         <tr>
-                            <th className="p-4 text-gray-600 font-semibold text-sm">Thông tin môn học</th>
+                            <th className="p-4 text-gray-600 font-semibold text-sm">Thông tin môn học / Giáo viên giảng dạy</th>
                             <th className="p-4 text-gray-600 font-semibold text-sm w-48 text-center">Thao tác</th>
-                            <th className="p-4 text-gray-600 font-semibold text-sm w-32 text-center">Trạng thái</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
                         {completedSubjects.map((item: any) => (
-                            <tr key={item.uniqueKey} className="hover:bg-gray-50 transition-colors">
-                                <td className="p-4 text-gray-800 font-medium text-[15px]">
-                                    {item.subjectName} - GV: {item.teacherName} - Lớp: {item.className}
+                            <tr key={item.uniqueKey} className="hover:bg-gray-50 transition-colors align-top">
+                                <td className="p-4 text-gray-800 text-[15px]">
+                                    <div className="font-medium">{item.subjectName} - Lớp: {item.className}</div>
+                                    {item.teacherLines.length > 0 ? (
+                                        <table className="w-full mt-2 text-sm">
+                                            <tbody>
+                                                {item.teacherLines.map((line: any) => (
+                                                    <tr key={line.teacherId} className={line.paid ? 'text-gray-400' : 'text-gray-700'}>
+                                                        <td className="py-1 pr-2">GV: {line.teacherName}</td>
+                                                        <td className="py-1 pr-2 text-right whitespace-nowrap">{line.periods} tiết</td>
+                                                        <td className="py-1 pr-2 text-right whitespace-nowrap">× {line.rate.toLocaleString()}</td>
+                                                        <td className="py-1 pr-2 text-right whitespace-nowrap font-medium">= {line.amount.toLocaleString()} đ</td>
+                                                        <td className="py-1 text-right whitespace-nowrap">
+                                                            <div className="flex justify-end gap-1">
+                                                                <button
+                                                                    onClick={() => exportExcelTemplate(item, line)}
+                                                                    className="bg-orange-100 hover:bg-orange-200 text-orange-800 px-2 py-1 rounded text-xs font-medium transition-colors flex items-center"
+                                                                    title="Xuất phiếu thanh toán theo mẫu cho giáo viên này"
+                                                                >
+                                                                    <FileSpreadsheet size={12} className="mr-1" /> Mẫu
+                                                                </button>
+                                                                {line.paid ? (
+                                                                    <span className="px-2 py-1 text-xs font-medium text-green-600 flex items-center"><CheckCircle size={12} className="mr-1" /> Đã TT</span>
+                                                                ) : (
+                                                                    <button
+                                                                        onClick={() => handleOpenPayment(item, line)}
+                                                                        className="bg-blue-50 hover:bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs font-medium transition-colors flex items-center"
+                                                                    >
+                                                                        <Wallet size={12} className="mr-1" /> Thanh toán
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    ) : (
+                                        <div className="text-sm text-gray-500 italic mt-1">Chưa xác định giáo viên</div>
+                                    )}
                                 </td>
                                 <td className="p-4 text-center">
-                                    <div className="flex justify-center gap-2">
+                                    <div className="flex flex-col items-center gap-2">
                                         <button 
                                             onClick={() => exportFinishedSubject(item)}
                                             className="bg-green-100 hover:bg-green-200 text-green-800 px-3 py-1.5 rounded text-sm font-medium whitespace-nowrap transition-colors flex items-center"
@@ -318,23 +457,17 @@ const Payment: React.FC = () => {
                                         >
                                             <Download size={14} className="mr-1" /> Excel
                                         </button>
-                                        <button 
-                                            onClick={() => exportExcelTemplate(item)}
-                                            className="bg-orange-100 hover:bg-orange-200 text-orange-800 px-3 py-1.5 rounded text-sm font-medium whitespace-nowrap transition-colors flex items-center"
-                                            title="Xuất phiếu thanh toán theo mẫu (Excel)"
-                                        >
-                                            <FileSpreadsheet size={14} className="mr-1" /> Excel (Mẫu)
-                                        </button>
+                                        {item.teacherLines.length > 1 && (
+                                            <button 
+                                                onClick={() => exportAllTemplates(item)}
+                                                className="bg-orange-100 hover:bg-orange-200 text-orange-800 px-3 py-1.5 rounded text-sm font-medium whitespace-nowrap transition-colors flex items-center"
+                                                title="Xuất mỗi giáo viên một phiếu thanh toán theo mẫu"
+                                            >
+                                                <FileSpreadsheet size={14} className="mr-1" /> Mẫu (tất cả GV)
+                                            </button>
+                                        )}
                                     </div>
                                 </td>
-                                <td className="p-4 text-center">
-                                    <button
-                                        onClick={() => handleDelete(item.uniqueKey)}
-                                        className="bg-red-50 hover:bg-red-100 text-red-600 px-3 py-1.5 rounded text-sm font-medium transition-colors flex items-center justify-center mx-auto"
-                                    >
-                                        <Trash2 size={14} className="mr-1" /> Xóa
-                                    </button>
-                                </td>
                             </tr>
                         ))}
                     </tbody>
@@ -346,6 +479,208 @@ const Payment: React.FC = () => {
             </div>
         )}
       </div>
+
+      {/* Payment Ledger */}
+      <div className="bg-white p-6 rounded-xl shadow border border-gray-200 space-y-4">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-3">
+            <h3 className="font-bold text-gray-800 text-lg flex items-center">
+                <Wallet className="mr-2 text-blue-500" size={20} />
+                Sổ thanh toán
+            </h3>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Filter size={16} className="text-gray-400" />
+                <select className="border rounded p-2" value={ledgerTeacherId} onChange={e => setLedgerTeacherId(e.target.value)}>
+                    <option value="">-- Tất cả giáo viên --</option>
+                    {teachers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <input type="month" className="border rounded p-2" value={ledgerMonth} onChange={e => setLedgerMonth(e.target.value)} title="Để trống để xem tất cả các tháng" />
+                <select className="border rounded p-2" value={ledgerBatchId} onChange={e => setLedgerBatchId(e.target.value)}>
+                    <option value="">-- Tất cả đợt --</option>
+                    {paymentBatches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+            </div>
+        </div>
+
+        {ledger.length > 0 ? (
+            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-left bg-white text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200 text-gray-600">
+                        <tr>
+                            <th className="p-3 w-10">
+                                <input
+                                    type="checkbox"
+                                    disabled={batchablePayments.length === 0}
+                                    checked={batchablePayments.length > 0 && batchablePayments.every(p => selectedPaymentIds.includes(p.id))}
+                                    onChange={e => setSelectedPaymentIds(e.target.checked ? batchablePayments.map(p => p.id) : [])}
+                                    title="Chọn các phiếu chưa thuộc đợt nào"
+                                />
+                            </th>
+                            <th className="p-3">Ngày</th>
+                            <th className="p-3">Số phiếu</th>
+                            <th className="p-3">Giáo viên</th>
+                            <th className="p-3">Môn học - Lớp</th>
+                            <th className="p-3 text-right">Số tiết</th>
+                            <th className="p-3 text-right">Đơn giá</th>
+                            <th className="p-3 text-right">Thành tiền</th>
+                            <th className="p-3">Đợt</th>
+                            <th className="p-3 text-center">Thao tác</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {ledger.map(p => (
+                            <tr key={p.id} className={p.reversedAt ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                                <td className="p-3">
+                                    {!p.reversedAt && !p.batchId && (
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedPaymentIds.includes(p.id)}
+                                            onChange={e => setSelectedPaymentIds(prev => e.target.checked ? [...prev, p.id] : prev.filter(id => id !== p.id))}
+                                        />
+                                    )}
+                                </td>
+                                <td className="p-3 whitespace-nowrap">{format(parseLocal(p.paymentDate), 'dd/MM/yyyy')}</td>
+                                <td className="p-3 font-medium">{p.voucherNumber}</td>
+                                <td className="p-3">{teachers.find(t => t.id === p.teacherId)?.name || 'GV đã xóa'}</td>
+                                <td className="p-3">
+                                    {subjects.find(s => s.id === p.subjectId)?.name} - {classes.find(c => c.id === p.classId)?.name}
+                                    {p.note && <div className="text-xs text-gray-500 italic">{p.note}</div>}
+                                    {p.reversedAt && (
+                                        <div className="text-xs text-red-500">
+                                            Đã hoàn lại {format(parseLocal(p.reversedAt), 'dd/MM/yyyy')}{p.reversalReason ? `: ${p.reversalReason}` : ''}
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="p-3 text-right">{p.periods}</td>
+                                <td className="p-3 text-right">{p.rate.toLocaleString()}</td>
+                                <td className={`p-3 text-right font-medium ${p.reversedAt ? 'line-through' : ''}`}>{p.amount.toLocaleString()}</td>
+                                <td className="p-3">{paymentBatches.find(b => b.id === p.batchId)?.name || ''}</td>
+                                <td className="p-3 text-center">
+                                    {!p.reversedAt && (
+                                        <button
+                                            onClick={() => handleReversePayment(p)}
+                                            className="text-red-600 hover:bg-red-50 px-2 py-1 rounded text-xs font-medium flex items-center mx-auto"
+                                            title="Hoàn lại thanh toán nhầm"
+                                        >
+                                            <Undo2 size={14} className="mr-1" /> Hoàn lại
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 border-t font-bold">
+                        <tr>
+                            <td colSpan={7} className="p-3 text-right">Tổng chi (không tính phiếu hoàn lại):</td>
+                            <td className="p-3 text-right text-blue-700">{ledgerTotal.toLocaleString()}</td>
+                            <td colSpan={2}></td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        ) : (
+            <div className="text-gray-500 italic py-8 text-center bg-gray-50 rounded border border-dashed border-gray-200">
+                Không có phiếu chi nào phù hợp bộ lọc.
+            </div>
+        )}
+
+        {/* Batch grouping */}
+        <div className="flex flex-wrap items-center gap-2">
+            <button
+                onClick={() => setBatchForm({ name: `Đợt thanh toán tháng ${(ledgerMonth || format(new Date(), 'yyyy-MM')).split('-').reverse().join('/')}`, month: ledgerMonth || format(new Date(), 'yyyy-MM'), note: '' })}
+                disabled={selectedPaymentIds.length === 0}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded text-sm font-medium flex items-center disabled:opacity-50"
+            >
+                <Layers size={16} className="mr-1" /> Gom vào đợt thanh toán ({selectedPaymentIds.length})
+            </button>
+            {batchForm && (
+                <div className="flex flex-wrap items-center gap-2 bg-purple-50 border border-purple-200 rounded p-2 text-sm">
+                    <input className="border rounded p-1.5 w-64" placeholder="Tên đợt" value={batchForm.name} onChange={e => setBatchForm({ ...batchForm, name: e.target.value })} />
+                    <input type="month" className="border rounded p-1.5" value={batchForm.month} onChange={e => setBatchForm({ ...batchForm, month: e.target.value })} />
+                    <input className="border rounded p-1.5 w-48" placeholder="Ghi chú" value={batchForm.note} onChange={e => setBatchForm({ ...batchForm, note: e.target.value })} />
+                    <button onClick={handleCreateBatch} className="bg-purple-600 text-white px-3 py-1.5 rounded flex items-center"><Save size={14} className="mr-1" /> Tạo đợt</button>
+                    <button onClick={() => setBatchForm(null)} className="text-gray-500 hover:text-red-500"><X size={16} /></button>
+                </div>
+            )}
+        </div>
+
+        {paymentBatches.length > 0 && (
+            <div>
+                <h4 className="font-semibold text-gray-700 text-sm mb-2">Các đợt thanh toán</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {paymentBatches.map(b => {
+                        const batchPayments = payments.filter(p => p.batchId === b.id && !p.reversedAt);
+                        return (
+                            <div key={b.id} className={`border rounded-lg p-3 text-sm ${ledgerBatchId === b.id ? 'border-purple-400 bg-purple-50' : 'border-gray-200'}`}>
+                                <div className="flex justify-between items-start">
+                                    <button onClick={() => setLedgerBatchId(ledgerBatchId === b.id ? '' : b.id)} className="font-bold text-left text-gray-800 hover:text-purple-700">{b.name}</button>
+                                    <button onClick={() => handleDeleteBatch(b.id, b.name)} className="text-red-400 hover:text-red-600" title="Xóa đợt"><Trash2 size={14} /></button>
+                                </div>
+                                <div className="text-gray-500">Tháng {b.month.split('-').reverse().join('/')} · {batchPayments.length} phiếu</div>
+                                <div className="font-medium text-blue-700">{batchPayments.reduce((sum, p) => sum + p.amount, 0).toLocaleString()} đ</div>
+                                {b.note && <div className="text-xs text-gray-500 italic">{b.note}</div>}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+      </div>
+
+      {/* Payment Modal */}
+      {payForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+            <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+              <h3 className="font-bold text-lg">Thanh toán: {payForm.subjectName} - {payForm.className}</h3>
+              <button onClick={() => setPayForm(null)} className="text-gray-500 hover:text-red-500"><X /></button>
+            </div>
+            <div className="p-6 space-y-4 overflow-y-auto text-sm">
+              <div>
+                <label className="block font-medium mb-1">Giáo viên</label>
+                <select className="w-full border rounded p-2" value={payForm.teacherId} onChange={e => handlePayTeacherChange(e.target.value)}>
+                  <option value="">-- Chọn giáo viên --</option>
+                  {teachers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block font-medium mb-1">Số tiết thanh toán</label>
+                  <input type="number" min={0} className="w-full border rounded p-2" value={payForm.periods} onChange={e => setPayForm({ ...payForm, periods: Number(e.target.value), amount: Number(e.target.value) * payForm.rate })} />
+                </div>
+                <div>
+                  <label className="block font-medium mb-1">Đơn giá/tiết</label>
+                  <input type="number" min={0} className="w-full border rounded p-2" value={payForm.rate} onChange={e => setPayForm({ ...payForm, rate: Number(e.target.value), amount: payForm.periods * Number(e.target.value) })} />
+                </div>
+                <div>
+                  <label className="block font-medium mb-1">Ngày thanh toán</label>
+                  <input type="date" className="w-full border rounded p-2" value={payForm.paymentDate} onChange={e => setPayForm({ ...payForm, paymentDate: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block font-medium mb-1">Số phiếu chi</label>
+                  <input className="w-full border rounded p-2" value={payForm.voucherNumber} onChange={e => setPayForm({ ...payForm, voucherNumber: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <label className="block font-medium mb-1">Ghi chú</label>
+                <input className="w-full border rounded p-2" value={payForm.note || ''} onChange={e => setPayForm({ ...payForm, note: e.target.value })} />
+              </div>
+              <div className="bg-blue-50 text-blue-800 rounded p-3 flex justify-between font-bold">
+                <span>Thành tiền:</span>
+                <span>{payForm.amount.toLocaleString()} đ</span>
+              </div>
+              <p className="text-xs text-gray-500 italic">
+                * Thành tiền tính theo bảng đơn giá tại ngày của từng buổi dạy; đơn giá hiển thị là đơn giá bình quân. Sửa số tiết hoặc đơn giá sẽ tính lại thành tiền.
+              </p>
+            </div>
+            <div className="p-4 border-t bg-gray-50 flex justify-end gap-2 shrink-0">
+              <button onClick={() => setPayForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+              <button onClick={handleSavePayment} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center">
+                <Save size={16} className="mr-2" /> Xác nhận thanh toán
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { ScheduleStatus } from '../types';
+import { format, addDays, startOfWeek, isSameDay, getWeek } from 'date-fns';
+import { vi } from 'date-fns/locale/vi';
+import { DoorOpen, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { getRoomKey, getOccupancyRooms, findFreeRooms, getSemesterWeek, getSemesterLabel, parseLocal, PERIODS } from '../utils';
+
+// Week grid of every room (Monday - Saturday) and a free-room search for a given date and periods
+const RoomOccupancy: React.FC = () => {
+  const { schedules, rooms, classes, subjects, holidays, semesters, academicYears } = useApp();
+
+  const [viewDate, setViewDate] = useState(new Date());
+  const weekStart = startOfWeek(viewDate, { weekStartsOn: 1 });
+  const weekDays = [0, 1, 2, 3, 4, 5].map(i => addDays(weekStart, i));
+  const semesterWeek = getSemesterWeek(viewDate, semesters);
+
+  // Free-room search
+  const [searchDate, setSearchDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [searchStart, setSearchStart] = useState(1);
+  const [searchCount, setSearchCount] = useState(3);
+  const freeRooms = useMemo(
+    () => findFreeRooms(searchDate, searchStart, searchCount, schedules, rooms),
+    [searchDate, searchStart, searchCount, schedules, rooms]
+  );
+
+  const occupancyRooms = useMemo(() => getOccupancyRooms(schedules, rooms), [schedules, rooms]);
+
+  const getHoliday = (date: Date) => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return holidays.find(h => dateStr >= h.startDate && dateStr <= h.endDate);
+  };
+
+  // Sessions of the week by room key and date (cancelled ones do not occupy the room)
+  const weekSessions = useMemo(() => {
+    const from = format(weekStart, 'yyyy-MM-dd');
+    const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+    return schedules
+      .filter(s => s.date >= from && s.date <= to && s.status !== ScheduleStatus.OFF && s.roomId)
+      .sort((a, b) => a.startPeriod - b.startPeriod);
+  }, [schedules, weekStart.getTime()]);
+
+  const sessionsOf = (roomKey: string, dateStr: string) =>
+    weekSessions.filter(s => s.date === dateStr && getRoomKey(s.roomId, rooms) === roomKey);
+
+  const searchEnd = searchStart + searchCount - 1;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-800 flex items-center">
+        <DoorOpen className="mr-3 text-blue-600" /> Tình trạng phòng học
+      </h1>
+
+      {/* Free-room search */}
+      <div className="bg-white p-4 rounded-xl shadow border space-y-3">
+        <h2 className="font-bold text-gray-700 flex items-center"><Search size={18} className="mr-2" /> Tìm phòng trống</h2>
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div>
+            <label className="block text-gray-600 mb-1">Ngày</label>
+            <input type="date" value={searchDate} onChange={e => setSearchDate(e.target.value)} className="border rounded p-2" />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Tiết bắt đầu</label>
+            <select value={searchStart} onChange={e => setSearchStart(Number(e.target.value))} className="border rounded p-2">
+              {PERIODS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Số tiết</label>
+            <input type="number" min={1} max={PERIODS.length} value={searchCount} onChange={e => setSearchCount(Math.max(1, Number(e.target.value)))} className="border rounded p-2 w-20" />
+          </div>
+        </div>
+        {searchDate && getHoliday(parseLocal(searchDate)) ? (
+          <p className="text-sm text-gray-500 italic">Ngày {format(parseLocal(searchDate), 'dd/MM/yyyy')} là ngày nghỉ: {getHoliday(parseLocal(searchDate))!.name}.</p>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              {freeRooms.length}/{rooms.length} phòng trống tiết {searchStart}-{searchEnd} ngày {searchDate && format(parseLocal(searchDate), 'dd/MM/yyyy')}:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {freeRooms.map(r => (
+                <span key={r.id} className="px-2 py-1 rounded border border-green-200 bg-green-50 text-green-800 text-sm">
+                  {r.name}{r.capacity ? ` (${r.capacity} chỗ)` : ''}{r.equipment.length > 0 ? ` - ${r.equipment.join(', ')}` : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Week navigation */}
+      <div className="flex justify-center items-center gap-4 bg-white p-4 rounded-xl shadow-sm">
+        <button onClick={() => setViewDate(addDays(viewDate, -7))} className="p-2 hover:bg-gray-100 rounded-full"><ChevronLeft /></button>
+        <div className="text-center">
+          <p className="font-bold text-lg">Tuần {semesterWeek?.week ?? getWeek(viewDate)}</p>
+          {semesterWeek && <p className="text-xs text-blue-600">{getSemesterLabel(semesterWeek.semester, academicYears)}</p>}
+          <p className="text-xs text-gray-500">{format(weekStart, 'dd/MM')} - {format(addDays(weekStart, 6), 'dd/MM/yyyy')}</p>
+        </div>
+        <button onClick={() => setViewDate(addDays(viewDate, 7))} className="p-2 hover:bg-gray-100 rounded-full"><ChevronRight /></button>
+      </div>
+
+      {/* Occupancy grid: one row per room, the day's periods as a bar per day */}
+      <div className="bg-white rounded-xl shadow overflow-x-auto">
+        <table className="w-full min-w-[1000px] border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100 text-gray-700 uppercase">
+              <th className="border p-2 w-32">Phòng</th>
+              {weekDays.map(d => (
+                <th key={d.toString()} className="border p-2 min-w-[140px]">
+                  <div className={`text-center ${isSameDay(d, new Date()) ? 'text-blue-600 font-bold' : ''}`}>
+                    <div>{format(d, 'EEEE', { locale: vi })}</div>
+                    <div className="text-xs font-normal text-gray-500">{format(d, 'dd/MM')}</div>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {occupancyRooms.length === 0 && (
+              <tr><td colSpan={7} className="p-6 text-center text-gray-400 italic">Chưa có phòng học nào.</td></tr>
+            )}
+            {occupancyRooms.map(r => (
+              <tr key={r.key} className="align-top">
+                <td className="border p-2 font-medium text-gray-800">
+                  {r.name}
+                  {!r.room && <div className="text-xs font-normal text-orange-600">Chưa có trong danh mục</div>}
+                  {!!r.room?.capacity && <div className="text-xs font-normal text-gray-500">{r.room.capacity} chỗ</div>}
+                </td>
+                {weekDays.map(day => {
+                  const holiday = getHoliday(day);
+                  if (holiday) {
+                    return <td key={day.toString()} className="border p-2 bg-gray-200 text-center text-xs text-gray-500">{holiday.name}</td>;
+                  }
+                  const dateStr = format(day, 'yyyy-MM-dd');
+                  const sessions = sessionsOf(r.key, dateStr);
+                  return (
+                    <td key={day.toString()} className="border p-1">
+                      <div className="flex gap-px mb-1" title={`Tiết 1 - ${PERIODS.length}`}>
+                        {PERIODS.map(p => {
+                          const busy = sessions.some(s => p >= s.startPeriod && p < s.startPeriod + s.periodCount);
+                          return <div key={p} className={`h-2 flex-1 ${busy ? 'bg-blue-500' : 'bg-gray-100'} ${p === 6 || p === 11 ? 'ml-1' : ''}`} />;
+                        })}
+                      </div>
+                      {sessions.map(s => (
+                        <div key={s.id} className="text-xs text-gray-700 leading-tight mb-0.5">
+                          <span className="font-semibold">T{s.startPeriod}-{s.startPeriod + s.periodCount - 1}</span>{' '}
+                          {subjects.find(sub => sub.id === s.subjectId)?.name} - {classes.find(c => c.id === s.classId)?.name}
+                          {s.type === 'exam' && <span className="ml-1 text-yellow-700">(Thi)</span>}
+                        </div>
+                      ))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RoomOccupancy;
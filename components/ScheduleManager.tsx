@@ -1,15 +1,16 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useApp } from '../store/AppContext';
-import { checkConflict, calculateSubjectProgress, getSessionFromPeriod, parseLocal, determineStatus, getSessionSequenceInfo, generateId, base64ToArrayBuffer } from '../utils';
-import { ScheduleItem, ScheduleStatus, Teacher } from '../types';
+import { checkConflict, calculateSubjectProgress, getSessionFromPeriod, parseLocal, determineStatus, getSessionSequenceInfo, generateId, base64ToArrayBuffer, getRoomName, generateAutoSchedule, AutoScheduleSubject, checkTeacherAvailability, getSubjectProgress, getScheduleRate, getClassHeadcount, getSemesterWeek, getSemesterLabel, getClassSubjects, classTakesSubject, getUnmetPrerequisites, getSubjectComponentProgress, getSubjectTotalPeriods, generateSeriesItems, SeriesIssue, getMakeupBalances, findFreeRooms, PERIODS, getPeriodsLeftInSession, getPeriodSplit, checkRoomSuitability, getSessionLabel } from '../utils';
+import { ScheduleItem, ScheduleStatus, Teacher, Session, Subject, RecurrenceRule } from '../types';
 import { format, addDays, isSameDay, getWeek } from 'date-fns';
 import { vi } from 'date-fns/locale/vi';
-import { Calendar as CalendarIcon, Plus, ChevronRight, ChevronLeft, AlertCircle, Save, Trash2, ListFilter, X, Copy, Clipboard, Users, Download, BookOpen, Mail, CalendarOff } from 'lucide-react';
+import { Calendar as CalendarIcon, Plus, ChevronRight, ChevronLeft, AlertCircle, Save, Trash2, ListFilter, X, Copy, Clipboard, Users, Download, BookOpen, Mail, CalendarOff, Wand2, Check, ClipboardCheck, Repeat, UserRound, Search } from 'lucide-react';
 import ExcelJS from 'exceljs';
 import PizZip from 'pizzip';
 import Docxtemplater from 'docxtemplater';
 import saveAs from 'file-saver';
+import AttendanceModal from './AttendanceModal';
 
 const DAYS_OF_WEEK = [
   { label: 'Thứ 2', val: 1 },
@@ -20,12 +21,20 @@ const DAYS_OF_WEEK = [
   { label: 'Thứ 7', val: 6 },
 ];
 
-const PERIODS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
 
-const ScheduleManager: React.FC = () => {
-  const { schedules, classes, teachers, subjects, templates, holidays, addSchedule, updateSchedule, deleteSchedule } = useApp();
+interface ScheduleManagerProps {
+  makeupRequest?: string | null; // Missed (OFF) session to schedule a make-up for: opens the add form pre-filled
+  onMakeupOpened?: () => void;
+}
+
+const ScheduleManager: React.FC<ScheduleManagerProps> = ({ makeupRequest, onMakeupOpened }) => {
+  const { schedules, classes, teachers, subjects, students, templates, holidays, rooms, subjectProgress, rateRules, semesters, academicYears, activeSemester, curricula, addSchedule, updateSchedule, deleteSchedule, runBatch } = useApp();
   
-  const [selectedClassId, setSelectedClassId] = useState<string>(classes[0]?.id || '');
+  const [selectedClassId, setSelectedClassId] = useState<string>((classes.find(c => !c.archived) || classes[0])?.id || '');
+  // Week grid of one class, or of one teacher across all classes
+  const [viewMode, setViewMode] = useState<'class' | 'teacher'>('class');
+  const [selectedTeacherId, setSelectedTeacherId] = useState<string>((teachers.find(t => !t.archived) || teachers[0])?.id || '');
+  const isTeacherView = viewMode === 'teacher';
   const [viewDate, setViewDate] = useState(new Date());
   const [showAddModal, setShowAddModal] = useState(false);
   const [editItem, setEditItem] = useState<ScheduleItem | null>(null);
@@ -42,6 +51,9 @@ const ScheduleManager: React.FC = () => {
     target?: { date: Date; period: number; item?: ScheduleItem };
   }>({ show: false, x: 0, y: 0 });
 
+  // Roll call modal (opened from the context menu)
+  const [attendanceScheduleId, setAttendanceScheduleId] = useState<string | null>(null);
+
   // Form State
   const [formTeacherId, setFormTeacherId] = useState('');
   const [formSubjectId, setFormSubjectId] = useState('');
@@ -57,6 +69,31 @@ const ScheduleManager: React.FC = () => {
   // Shared Class Selection
   const [selectedSharedClasses, setSelectedSharedClasses] = useState<string[]>([]);
 
+  // Recurring series (Lịch lặp lại): rule for a new session, scope of edits to a session of a series
+  const [formRepeat, setFormRepeat] = useState(false);
+  const [formRecurrence, setFormRecurrence] = useState<RecurrenceRule>({ intervalWeeks: 1, untilDate: '', onConflict: 'shift' });
+  const [editScope, setEditScope] = useState<'this' | 'following'>('this');
+
+  // Make-up session (Tiết bổ sung): missed sessions of the main class it replaces
+  const [formMakeupFor, setFormMakeupFor] = useState<string[]>([]);
+
+  // Free-room finder of the add/edit modal
+  const [showFreeRooms, setShowFreeRooms] = useState(false);
+
+  // Auto timetable generator (Xếp lịch tự động)
+  const [showAutoModal, setShowAutoModal] = useState(false);
+  const [autoStartDate, setAutoStartDate] = useState('');
+  const [autoEndDate, setAutoEndDate] = useState('');
+  const [autoRoom, setAutoRoom] = useState('');
+  const [autoSessions, setAutoSessions] = useState<Session[]>(['Sáng']);
+  const [autoWeekdays, setAutoWeekdays] = useState<number[]>([1, 2, 3, 4, 5, 6]);
+  const [autoMaxPerDay, setAutoMaxPerDay] = useState(5);
+  const [autoBlockSize, setAutoBlockSize] = useState(5);
+  const [autoSubjects, setAutoSubjects] = useState<(AutoScheduleSubject & { selected: boolean })[]>([]);
+  const [autoPreview, setAutoPreview] = useState<ScheduleItem[] | null>(null);
+  const [autoSelectedIds, setAutoSelectedIds] = useState<string[]>([]);
+  const [autoUnplaced, setAutoUnplaced] = useState<Record<string, number>>({});
+
   const getStartOfWeek = (date: Date) => {
     const d = new Date(date);
     d.setHours(0, 0, 0, 0);
@@ -68,7 +105,23 @@ const ScheduleManager: React.FC = () => {
   // Derived state
   const weekStart = getStartOfWeek(viewDate);
   const weekDays = DAYS_OF_WEEK.map((d, i) => addDays(weekStart, i));
-  const weekNumber = getWeek(viewDate);
+  // Semester week when the week falls in a semester, calendar week otherwise
+  const weekNumberOf = (date: Date) => getSemesterWeek(date, semesters)?.week ?? getWeek(date);
+  const semesterWeek = getSemesterWeek(viewDate, semesters);
+  const weekNumber = weekNumberOf(viewDate);
+
+  // Switching the global semester jumps to its first week unless the current week is already in it
+  useEffect(() => {
+    if (!activeSemester) return;
+    const current = format(viewDate, 'yyyy-MM-dd');
+    if (current < activeSemester.startDate || current > activeSemester.endDate) {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      setViewDate(today >= activeSemester.startDate && today <= activeSemester.endDate ? new Date() : parseLocal(activeSemester.startDate));
+    }
+  }, [activeSemester?.id]);
+
+  // Master data passed to checkConflict (room name normalization, capacity/equipment warnings, teacher availability)
+  const conflictResources = { rooms, classes, teachers, students };
 
   // Helper to check if a date is a holiday
   const getHoliday = (date: Date) => {
@@ -77,52 +130,51 @@ const ScheduleManager: React.FC = () => {
   };
 
   const filteredSchedules = useMemo(() => {
+    if (isTeacherView) return schedules.filter(s => s.teacherId === selectedTeacherId);
     return schedules.filter(s => s.classId === selectedClassId);
-  }, [schedules, selectedClassId]);
+  }, [schedules, selectedClassId, selectedTeacherId, isTeacherView]);
+
+  // Classes sharing a teacher-view slot (a shared session is one item per class)
+  const getSlotClassNames = (dateStr: string, period: number) =>
+    filteredSchedules
+      .filter(s => s.date === dateStr && s.startPeriod === period)
+      .map(s => classes.find(c => c.id === s.classId)?.name || s.classId)
+      .join(', ');
+
+  // Editing from the teacher view: the form's class-dependent parts (groups, subjects, make-ups) follow the session's class
+  const openEditItem = (item: ScheduleItem) => {
+    if (isTeacherView) setSelectedClassId(item.classId);
+    setEditItem(item);
+    setShowAddModal(true);
+  };
+
+  const currentClassGroups = classes.find(c => c.id === selectedClassId)?.practiceGroups || [];
+
+  // Periods left for the stream of the session (whole class or a practice group), not counting the session being edited
+  const getRemainingPeriods = (subject: Subject, classId: string, group?: string) => {
+    const others = editItem ? schedules.filter(s => s.id !== editItem.id) : schedules;
+    const practiceGroups = classes.find(c => c.id === classId)?.practiceGroups;
+    return calculateSubjectProgress(subject, classId, others, group || undefined, practiceGroups).remaining;
+  };
 
   // Filter subjects logic
   const availableSubjects = useMemo(() => {
     const currentClass = classes.find(c => c.id === selectedClassId);
-    if (!currentClass) return subjects; 
+    if (!currentClass) return subjects.filter(s => !s.archived);
     
-    let manualCompleted: string[] = [];
-    let paidCompleted: string[] = [];
-    let progressMetadata: Record<string, any> = {};
-
-    try {
-        const manual = localStorage.getItem('manual_completed_subjects');
-        if (manual) manualCompleted = JSON.parse(manual);
-        const paid = localStorage.getItem('paid_completed_subjects');
-        if (paid) paidCompleted = JSON.parse(paid);
-        const meta = localStorage.getItem('subject_progress_metadata');
-        if (meta) progressMetadata = JSON.parse(meta);
-    } catch (e) {
-        console.error(e);
-    }
-
     const currentType = editItem ? editItem.type : formType;
-    const isH8 = currentClass.name.toUpperCase().includes('H8');
+    const classSubjectIds = new Set(getClassSubjects(currentClass, curricula, subjects).map(s => s.id));
 
     return subjects.filter(s => {
-        let isEligible = false;
-        if (s.majorId === 'common') {
-            isEligible = true;
-        } else if (s.majorId === 'culture') {
-            isEligible = !isH8;
-        } else if (s.majorId === 'culture_8') {
-            // NEW: Only eligible if class has 'H8' in name
-            isEligible = isH8;
-        } else {
-            isEligible = s.majorId === currentClass.majorId;
-        }
-
-        if (!isEligible) return false;
+        if (s.archived) return !!editItem && editItem.subjectId === s.id;
+        // Only subjects of the class curriculum (major, common and culture subjects when none is linked)
+        if (!classSubjectIds.has(s.id)) return false;
         if (editItem && editItem.subjectId === s.id) return true;
 
-        const uniqueKey = `${s.id}-${currentClass.id}`;
-        
-        // Check for legacy manual/paid completion
-        const isLegacyFinished = manualCompleted.includes(uniqueKey) || paidCompleted.includes(uniqueKey);
+        const progressRecord = getSubjectProgress(subjectProgress, s.id, currentClass.id);
+
+        // Check for manual/paid completion
+        const isManuallyFinished = !!(progressRecord?.manualCompleted || progressRecord?.paid);
         
         // Check for auto completion
         const relevantSchedules = schedules.filter(sch => 
@@ -130,16 +182,13 @@ const ScheduleManager: React.FC = () => {
             sch.classId === currentClass.id && 
             sch.status !== ScheduleStatus.OFF
         );
-        const learned = relevantSchedules
-            .filter(sch => sch.type === 'class')
-            .reduce((acc, curr) => acc + curr.periodCount, 0);
-        const isAutoFinished = learned >= s.totalPeriods;
+        // Theory taught and practice taught to every group
+        const isAutoFinished = getSubjectComponentProgress(s, currentClass.id, schedules, currentClass.practiceGroups).finished;
         
-        // Check for new TeachingProgress metadata completion
-        const metadata = progressMetadata[uniqueKey];
-        const isMetadataFinished = metadata?.statusOverride === 'completed';
+        // Check for TeachingProgress override
+        const isOverrideFinished = progressRecord?.statusOverride === 'completed';
 
-        const isFinished = isLegacyFinished || isAutoFinished || isMetadataFinished;
+        const isFinished = isManuallyFinished || isAutoFinished || isOverrideFinished;
 
         if (currentType === 'exam') {
              // For Exam: Show if subject is Finished
@@ -157,7 +206,7 @@ const ScheduleManager: React.FC = () => {
              return true;
         }
     });
-  }, [subjects, classes, selectedClassId, schedules, editItem, formType]);
+  }, [subjects, classes, selectedClassId, schedules, editItem, formType, subjectProgress, curricula]);
 
   // Active Subjects Summary
   const activeSubjectsSummary = useMemo(() => {
@@ -197,7 +246,7 @@ const ScheduleManager: React.FC = () => {
             teacherId: teacher?.id,
             subjectName: sub?.name || 'Unknown',
             teacherName: teacher?.name || 'Chưa cập nhật',
-            totalPeriods: sub?.totalPeriods || 0,
+            totalPeriods: sub ? getSubjectTotalPeriods(sub, cls?.practiceGroups) : 0,
             className: cls?.name || ''
         };
     });
@@ -206,19 +255,21 @@ const ScheduleManager: React.FC = () => {
   // Teacher Recommendation
   const currentSubjectId = editItem ? editItem.subjectId : formSubjectId;
   const { suggestedTeachers, otherTeachers } = useMemo(() => {
+    // Archived teachers stay selectable only on the sessions they already teach
+    const activeTeachers = teachers.filter(t => !t.archived || t.id === editItem?.teacherId);
     const subj = subjects.find(s => s.id === currentSubjectId);
-    if (!subj) return { suggestedTeachers: [], otherTeachers: teachers };
+    if (!subj) return { suggestedTeachers: [], otherTeachers: activeTeachers };
 
     const responsibleNames = [subj.teacher1, subj.teacher2, subj.teacher3]
         .filter(n => n && n.trim() !== '')
         .map(n => n!.toLowerCase().trim());
     
-    if (responsibleNames.length === 0) return { suggestedTeachers: [], otherTeachers: teachers };
+    if (responsibleNames.length === 0) return { suggestedTeachers: [], otherTeachers: activeTeachers };
 
     const suggested: Teacher[] = [];
     const others: Teacher[] = [];
 
-    teachers.forEach(t => {
+    activeTeachers.forEach(t => {
         if (responsibleNames.includes(t.name.toLowerCase().trim())) {
             suggested.push(t);
         } else {
@@ -226,7 +277,7 @@ const ScheduleManager: React.FC = () => {
         }
     });
     return { suggestedTeachers: suggested, otherTeachers: others };
-  }, [currentSubjectId, teachers, subjects]);
+  }, [currentSubjectId, teachers, subjects, editItem]);
 
   const currentFormSubject = subjects.find(s => s.id === currentSubjectId);
   
@@ -237,11 +288,11 @@ const ScheduleManager: React.FC = () => {
       
       // Check if it is a specific major (not common/culture/culture_8)
       if (currentFormSubject.majorId !== 'common' && currentFormSubject.majorId !== 'culture' && currentFormSubject.majorId !== 'culture_8') {
-          return classes.some(c => c.id !== selectedClassId && c.majorId === currentFormSubject.majorId);
+          return classes.some(c => c.id !== selectedClassId && classTakesSubject(c, currentFormSubject.id, curricula, subjects));
       }
       
       return false;
-  }, [currentFormSubject, classes, selectedClassId]);
+  }, [currentFormSubject, classes, selectedClassId, curricula, subjects]);
 
   // Initialize shared classes
   useEffect(() => {
@@ -252,34 +303,16 @@ const ScheduleManager: React.FC = () => {
     }
   }, [showAddModal, formSubjectId, selectedClassId]);
 
-  // FILTER LOGIC:
-  // 1. If Culture -> Remove H8
-  // 2. If Major Specific -> Remove classes not in that major
+  // FILTER LOGIC: keep only the classes whose curriculum includes the subject
   useEffect(() => {
       if (!currentFormSubject) return;
 
       setSelectedSharedClasses(prev => prev.filter(id => {
           if (id === selectedClassId) return true; // Always keep current
           const cls = classes.find(c => c.id === id);
-          if (!cls) return false;
-
-          if (currentFormSubject.majorId === 'culture') {
-              return !cls.name.toUpperCase().includes('H8');
-          }
-
-          // NEW: Culture 8 -> Only H8
-          if (currentFormSubject.majorId === 'culture_8') {
-              return cls.name.toUpperCase().includes('H8');
-          }
-          
-          if (currentFormSubject.majorId !== 'common') {
-              // Strict Major matching
-              return cls.majorId === currentFormSubject.majorId;
-          }
-
-          return true; // Common subjects keep everyone
+          return !!cls && classTakesSubject(cls, currentFormSubject.id, curricula, subjects);
       }));
-  }, [formSubjectId, classes, selectedClassId, currentFormSubject]);
+  }, [formSubjectId, classes, selectedClassId, currentFormSubject, curricula, subjects]);
 
   useEffect(() => {
     const handleClick = () => setContextMenu({ ...contextMenu, show: false });
@@ -309,6 +342,81 @@ const ScheduleManager: React.FC = () => {
     setEditItem(null);
     setFormType('class');
     setSelectedSharedClasses([selectedClassId]);
+    setFormRepeat(false);
+    setFormRecurrence({ intervalWeeks: 1, untilDate: '', onConflict: 'shift' });
+    setFormMakeupFor([]);
+    setShowFreeRooms(false);
+  };
+
+  useEffect(() => { setEditScope('this'); }, [editItem?.id]);
+
+  const formatDay = (dateStr: string) => format(parseLocal(dateStr), 'dd/MM/yyyy');
+
+  // Summary of a series before it is written: sessions, periods, dates and the weeks moved or left out
+  const confirmSeries = (items: ScheduleItem[], issues: SeriesIssue[], intro = '') => {
+      const dates = Array.from(new Set(items.map(i => i.date))).sort();
+      const periods = items.filter(i => i.classId === items[0].classId).reduce((acc, i) => acc + i.periodCount, 0);
+      let msg = `${intro}Tạo ${dates.length} buổi (${periods} tiết) từ ${formatDay(dates[0])} đến ${formatDay(dates[dates.length - 1])}.`;
+      if (issues.length > 0) {
+          msg += '\n\n' + issues.map(i => `- ${formatDay(i.date)}: ${i.reason}${i.shiftedTo ? ` → dời sang ${formatDay(i.shiftedTo)}` : ''}`).join('\n');
+      }
+      // Room capacity / equipment, the same for every session of the series
+      const warnings = Array.from(new Set(items.flatMap(i => checkRoomSuitability(i, rooms, classes, subjects, students))));
+      if (warnings.length > 0) {
+          msg += `\n\nCảnh báo phòng học:\n${warnings.join('\n')}`;
+      }
+      return window.confirm(`${msg}\n\nBạn có muốn tiếp tục?`);
+  };
+
+  // Periods a series may place: what is left of the subject, or up to the end date for subjects without a limit (culture_8)
+  const getSeriesPeriods = (subject: Subject | undefined, classId: string, group: string | undefined, existing: ScheduleItem[]) => {
+      if (!subject) return 0;
+      if (subject.majorId === 'culture_8') return Number.POSITIVE_INFINITY;
+      const practiceGroups = classes.find(c => c.id === classId)?.practiceGroups;
+      return calculateSubjectProgress(subject, classId, existing, group || undefined, practiceGroups).remaining;
+  };
+
+  // "This and all following": the series sessions from this one on that are still pending are re-planned by re-running
+  // the rule from the edited session. They are moved in place; only the surplus is added or deleted. Cancelled, make-up
+  // and taught sessions keep their date, status and make-up links.
+  const rescheduleFollowing = (original: ScheduleItem, changes: Omit<ScheduleItem, 'id' | 'status'>): boolean => {
+      const following = schedules.filter(s =>
+          s.seriesId === original.seriesId && s.date >= original.date &&
+          s.status === ScheduleStatus.PENDING && determineStatus(s.date, s.startPeriod, s.status) === ScheduleStatus.PENDING
+      );
+      if (following.length === 0) {
+          setFormError('Không còn buổi chưa dạy nào của chuỗi để xếp lại.');
+          return false;
+      }
+      const kept = schedules.filter(s => !following.includes(s));
+      const classIds: string[] = Array.from(new Set(following.map(s => s.classId)));
+      const subject = subjects.find(s => s.id === changes.subjectId);
+      const rule: RecurrenceRule = { ...(original.recurrence || { intervalWeeks: 1, onConflict: 'shift' }) };
+      if (subject?.majorId === 'culture_8' && !rule.untilDate) {
+          rule.untilDate = following.reduce((last, s) => s.date > last ? s.date : last, original.date);
+      }
+
+      const { items, issues } = generateSeriesItems(
+          { ...changes, seriesId: original.seriesId, recurrence: rule },
+          classIds, rule, getSeriesPeriods(subject, original.classId, changes.group, kept), kept, subjects, holidays, conflictResources
+      );
+      if (items.length === 0) {
+          setFormError(`Không xếp được buổi nào: ${issues[0]?.reason || 'môn học đã đủ số tiết'}`);
+          return false;
+      }
+      const replaced = new Set(following.map(s => s.date)).size;
+      if (!confirmSeries(items, issues, `Thay ${replaced} buổi của chuỗi lặp lại từ ${formatDay(original.date)}.\n`)) return false;
+      const byTime = (a: ScheduleItem, b: ScheduleItem) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod;
+      runBatch(() => classIds.forEach(classId => {
+          const current = following.filter(s => s.classId === classId).sort(byTime);
+          const planned = items.filter(i => i.classId === classId).sort(byTime);
+          planned.forEach(({ id, ...item }, index) => {
+              if (current[index]) updateSchedule(current[index].id, item);
+              else addSchedule(item);
+          });
+          current.slice(planned.length).forEach(s => deleteSchedule(s.id));
+      }));
+      return true;
   };
 
   const getRelatedSharedItems = (sourceItem: ScheduleItem) => {
@@ -326,6 +434,57 @@ const ScheduleManager: React.FC = () => {
     );
   };
 
+  // Period-accurate make-up balances (see getMakeupBalances)
+  const makeupBalances = useMemo(() => getMakeupBalances(schedules), [schedules]);
+
+  // Missed sessions of the form's subject-class-group still owed, plus those already linked
+  const makeupCandidates = useMemo(() => {
+    const subjectId = editItem ? editItem.subjectId : formSubjectId;
+    const classId = editItem ? editItem.classId : selectedClassId;
+    const group = (editItem ? editItem.group : formGroup) || undefined;
+    const linked = editItem ? editItem.makeupFor || [] : formMakeupFor;
+    const balance = makeupBalances.find(b => b.subjectId === subjectId && b.classId === classId && b.group === group);
+    return balance ? balance.sessions.filter(m => m.outstanding > 0 || linked.includes(m.item.id)) : [];
+  }, [makeupBalances, editItem, formSubjectId, selectedClassId, formGroup, formMakeupFor]);
+
+  // The same missed sessions in another class of a shared session: missed together, made up together
+  const getMissedForClass = (missedIds: string[], classId: string): string[] => missedIds.flatMap(id => {
+    const missed = schedules.find(s => s.id === id);
+    if (!missed) return [];
+    return getRelatedSharedItems(missed).filter(s => s.classId === classId && s.status === ScheduleStatus.OFF).map(s => s.id);
+  });
+
+  // Rooms free for the form's date and periods; an edited session (and its shared siblings) does not block its own room
+  const getFormFreeRooms = () => {
+    if (!showAddModal || !showFreeRooms) return [];
+    const originalItem = editItem ? schedules.find(s => s.id === editItem.id) : undefined;
+    const excludeIds = originalItem ? getRelatedSharedItems(originalItem).map(i => i.id) : [];
+    return editItem
+      ? findFreeRooms(editItem.date, editItem.startPeriod, editItem.periodCount, schedules, rooms, excludeIds)
+      : findFreeRooms(formDate, formStartPeriod, formPeriodCount, schedules, rooms);
+  };
+
+  // "Xếp bù" from the missed-classes list: add form of the missed session's class, pre-filled
+  useEffect(() => {
+    if (!makeupRequest) return;
+    onMakeupOpened?.();
+    const missed = schedules.find(s => s.id === makeupRequest);
+    if (!missed) return;
+    const owed = makeupBalances.flatMap(b => b.sessions).find(m => m.item.id === missed.id);
+    resetForm();
+    setSelectedClassId(missed.classId);
+    setSelectedSharedClasses(getRelatedSharedItems(missed).filter(s => s.status === ScheduleStatus.OFF).map(s => s.classId));
+    setFormTeacherId(missed.teacherId);
+    setFormSubjectId(missed.subjectId);
+    setFormRoom(missed.roomId);
+    setFormGroup(missed.group || '');
+    setFormStartPeriod(missed.startPeriod);
+    setFormPeriodCount(owed?.outstanding || missed.periodCount);
+    setFormNote(`Dạy bù buổi ${format(parseLocal(missed.date), 'dd/MM/yyyy')}`);
+    setFormMakeupFor([missed.id]);
+    setShowAddModal(true);
+  }, [makeupRequest]);
+
   const getTeacherForSubject = (subjId: string, clsId: string) => {
     const matches = schedules.filter(s => 
         s.subjectId === subjId && 
@@ -338,6 +497,100 @@ const ScheduleManager: React.FC = () => {
     return latest.teacherId;
   };
 
+  const openAutoSchedule = () => {
+    const currentClass = classes.find(c => c.id === selectedClassId);
+    if (!currentClass) {
+        alert("Vui lòng chọn lớp học.");
+        return;
+    }
+    resetForm(); // availableSubjects must be computed for type 'class' (see effect below)
+
+    setAutoSubjects([]);
+    setAutoStartDate(format(weekStart, 'yyyy-MM-dd'));
+    setAutoEndDate(format(addDays(weekStart, 8 * 7 - 1), 'yyyy-MM-dd'));
+    setAutoRoom(schedules.find(s => s.classId === currentClass.id && s.roomId)?.roomId || rooms[0]?.id || '');
+    setAutoPreview(null);
+    setAutoSelectedIds([]);
+    setAutoUnplaced({});
+    setShowAutoModal(true);
+  };
+
+  // Subjects with remaining periods, suggested teacher = last teacher of the class or responsible teacher
+  useEffect(() => {
+    if (!showAutoModal) return;
+    const candidates = availableSubjects
+        .map(sub => {
+            const progress = calculateSubjectProgress(sub, selectedClassId, schedules, undefined, currentClassGroups);
+            const teacherId = getTeacherForSubject(sub.id, selectedClassId) || teachers.find(t => t.name === sub.teacher1)?.id || '';
+            return { subjectId: sub.id, teacherId, remaining: progress.remaining, selected: !!teacherId };
+        })
+        .filter(s => s.remaining > 0);
+    setAutoSubjects(candidates);
+  }, [showAutoModal]);
+
+  const handleGenerateAuto = () => {
+    const selected = autoSubjects.filter(s => s.selected);
+    if (selected.length === 0) {
+        alert("Vui lòng chọn ít nhất một môn học.");
+        return;
+    }
+    if (selected.some(s => !s.teacherId)) {
+        alert("Vui lòng chọn giáo viên cho tất cả các môn đã chọn.");
+        return;
+    }
+    if (!autoRoom) {
+        alert("Vui lòng chọn phòng học.");
+        return;
+    }
+    if (!autoStartDate || !autoEndDate || autoStartDate > autoEndDate) {
+        alert("Khoảng thời gian không hợp lệ.");
+        return;
+    }
+    if (autoSessions.length === 0 || autoWeekdays.length === 0) {
+        alert("Vui lòng chọn ít nhất một buổi và một ngày trong tuần.");
+        return;
+    }
+
+    const { items, unplaced } = generateAutoSchedule(
+        {
+            classId: selectedClassId,
+            roomId: autoRoom,
+            startDate: autoStartDate,
+            endDate: autoEndDate,
+            subjects: selected.map(({ subjectId, teacherId, remaining }) => ({ subjectId, teacherId, remaining })),
+            weekdays: autoWeekdays,
+            sessions: autoSessions,
+            maxPeriodsPerDay: autoMaxPerDay,
+            blockSize: autoBlockSize,
+        },
+        schedules, subjects, holidays, conflictResources
+    );
+
+    setAutoPreview(items);
+    setAutoSelectedIds(items.map(i => i.id));
+    setAutoUnplaced(unplaced);
+  };
+
+  // Accept proposed items (all selected, or a single row)
+  const handleAcceptAuto = (ids: string[]) => {
+    if (!autoPreview || ids.length === 0) return;
+    const accepted = autoPreview.filter(i => ids.includes(i.id));
+    runBatch(() => {
+        accepted.forEach(item => {
+            const { id, status, ...newItem } = item;
+            addSchedule(newItem);
+        });
+    }, `Xếp lịch tự động ${accepted.length} buổi - ${classes.find(c => c.id === selectedClassId)?.name}`);
+
+    const rest = autoPreview.filter(i => !ids.includes(i.id));
+    setAutoPreview(rest);
+    setAutoSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    if (rest.length === 0) {
+        setShowAutoModal(false);
+        setTimeout(() => alert(`Đã thêm ${accepted.length} buổi học vào lịch.`), 100);
+    }
+  };
+
   const handleDragStart = (e: React.DragEvent, item: ScheduleItem) => {
     setDraggedItem(item);
     e.dataTransfer.effectAllowed = "copy";
@@ -365,10 +618,18 @@ const ScheduleManager: React.FC = () => {
         return;
     }
 
+    // Shared siblings have the same teacher, so one check covers them all
+    const unavailable = checkTeacherAvailability({ ...draggedItem, date: targetDateStr, startPeriod: targetPeriod }, teachers);
+    if (unavailable) {
+        alert(`Không thể xếp lịch: ${unavailable}`);
+        setDraggedItem(null);
+        return;
+    }
+
     const itemsToCopy = getRelatedSharedItems(draggedItem);
     let successCount = 0;
 
-    itemsToCopy.forEach(sourceItem => {
+    runBatch(() => itemsToCopy.forEach(sourceItem => {
         const newItem = {
             type: sourceItem.type,
             teacherId: sourceItem.teacherId,
@@ -382,12 +643,12 @@ const ScheduleManager: React.FC = () => {
             group: sourceItem.group,
         };
 
-        const conflict = checkConflict(newItem, schedules, subjects); 
+        const conflict = checkConflict(newItem, schedules, subjects, undefined, conflictResources); 
         if (!conflict.hasConflict) {
             addSchedule(newItem);
             successCount++;
         }
-    });
+    }), `Kéo thả lịch sang ${format(targetDate, 'dd/MM/yyyy')} tiết ${targetPeriod}`);
 
     if (successCount === 0) {
         alert(`Không thể sao chép (Trùng lịch).`);
@@ -434,7 +695,7 @@ const ScheduleManager: React.FC = () => {
     const targetPeriod = contextMenu.target.period;
     let pastedCount = 0;
 
-    sourceItems.forEach(src => {
+    runBatch(() => sourceItems.forEach(src => {
         const newItem = {
             type: src.type,
             teacherId: src.teacherId,
@@ -449,12 +710,12 @@ const ScheduleManager: React.FC = () => {
             group: src.group,
         };
 
-        const conflict = checkConflict(newItem, schedules, subjects);
+        const conflict = checkConflict(newItem, schedules, subjects, undefined, conflictResources);
         if (!conflict.hasConflict) {
             addSchedule(newItem);
             pastedCount++;
         }
-    });
+    }), `Dán lịch vào ${format(contextMenu.target.date, 'dd/MM/yyyy')} tiết ${targetPeriod}`);
 
     if (pastedCount === 0) {
         alert("Không thể dán (Trùng lịch).");
@@ -467,6 +728,14 @@ const ScheduleManager: React.FC = () => {
       if (!editItem) return;
       const originalItem = schedules.find(s => s.id === editItem.id);
       if (!originalItem) return;
+      if (originalItem.seriesId && editScope === 'following') {
+          const following = schedules.filter(s => s.seriesId === originalItem.seriesId && s.date >= originalItem.date);
+          const sessions = new Set(following.map(s => s.date)).size;
+          if (!window.confirm(`Xóa ${sessions} buổi của chuỗi lặp lại từ ngày ${formatDay(originalItem.date)}?`)) return;
+          runBatch(() => following.forEach(item => deleteSchedule(item.id)));
+          setShowAddModal(false);
+          return;
+      }
       const relatedItems = getRelatedSharedItems(originalItem);
       
       if (relatedItems.length > 1) {
@@ -478,7 +747,7 @@ const ScheduleManager: React.FC = () => {
               return;
           }
       }
-      relatedItems.forEach(item => deleteSchedule(item.id));
+      runBatch(() => relatedItems.forEach(item => deleteSchedule(item.id)));
       setShowAddModal(false);
   }
 
@@ -487,9 +756,9 @@ const ScheduleManager: React.FC = () => {
     const originalItem = schedules.find(s => s.id === editItem.id);
     if (!originalItem) return;
     const relatedItems = getRelatedSharedItems(originalItem);
-    relatedItems.forEach(item => {
+    runBatch(() => relatedItems.forEach(item => {
         updateSchedule(item.id, { status: newStatus });
-    });
+    }));
     setEditItem({ ...editItem, status: newStatus });
   };
 
@@ -532,7 +801,9 @@ const ScheduleManager: React.FC = () => {
 
     if (editItem) {
         const originalItem = schedules.find(s => s.id === editItem.id);
-        if (originalItem) {
+        if (originalItem?.seriesId && editScope === 'following') {
+            if (!rescheduleFollowing(originalItem, baseItem)) return;
+        } else if (originalItem) {
             const relatedItems = getRelatedSharedItems(originalItem);
             
             // CONFIRMATION FOR SHARED CLASSES
@@ -557,36 +828,78 @@ const ScheduleManager: React.FC = () => {
 
             // Get IDs of all items in the group to exclude from conflict check
             const relatedIds = relatedItems.map(i => i.id);
+            const warnings: string[] = [];
 
             for (const item of relatedItems) {
                  const itemToCheck = { ...baseItem, classId: item.classId };
                  // Pass all related IDs to exclude from conflict checking (safe update for shared group)
-                 const conflict = checkConflict(itemToCheck, schedules, subjects, relatedIds);
+                 const conflict = checkConflict(itemToCheck, schedules, subjects, relatedIds, conflictResources);
                  if (conflict.hasConflict) {
                      const className = classes.find(c => c.id === item.classId)?.name;
                      setFormError(`Lớp ${className}: ${conflict.message}`);
                      return;
                  }
+                 warnings.push(...conflict.warnings);
             }
-            relatedItems.forEach(item => {
-                updateSchedule(item.id, { ...baseItem, classId: item.classId });
-            });
+            if (warnings.length > 0 && !window.confirm(`Cảnh báo phòng học:\n${warnings.join('\n')}\n\nBạn vẫn muốn lưu?`)) return;
+            // Cancelled together, so the classes of a shared session are owed the make-up together
+            const makeup = editItem.status === ScheduleStatus.OFF ? { makeupNeeded: editItem.makeupNeeded !== false } : {};
+            runBatch(() => relatedItems.forEach(item => {
+                // A make-up session covers the matching missed sessions of each class
+                const links = editItem.status === ScheduleStatus.MAKEUP ? { makeupFor: getMissedForClass(editItem.makeupFor || [], item.classId) } : {};
+                updateSchedule(item.id, { ...baseItem, classId: item.classId, ...makeup, ...links });
+            }));
         }
     } else {
         const targetClassIds = isFormSubjectShared ? selectedSharedClasses : [classId];
+        const isMakeup = formMakeupFor.length > 0 && type === 'class';
+        const isSeries = formRepeat && type === 'class' && !isMakeup;
+        const warnings: string[] = [];
         for (const targetId of targetClassIds) {
-            const itemToCheck = { ...baseItem, classId: targetId };
-            const conflict = checkConflict(itemToCheck, schedules, subjects);
-            if (conflict.hasConflict) {
-                 const className = classes.find(c => c.id === targetId)?.name;
-                 setFormError(`Lớp ${className}: ${conflict.message}`);
-                 return; 
+            // Collisions of a series are handled per week by generateSeriesItems
+            if (!isSeries) {
+                const itemToCheck = { ...baseItem, classId: targetId };
+                const conflict = checkConflict(itemToCheck, schedules, subjects, undefined, conflictResources);
+                if (conflict.hasConflict) {
+                     const className = classes.find(c => c.id === targetId)?.name;
+                     setFormError(`Lớp ${className}: ${conflict.message}`);
+                     return; 
+                }
+                warnings.push(...conflict.warnings);
+            }
+
+            // Prerequisites of the class curriculum that are not finished yet
+            const targetClass = classes.find(c => c.id === targetId);
+            if (targetClass && type === 'class') {
+                getUnmetPrerequisites(targetClass, subjectId, curricula, subjects, schedules, subjectProgress)
+                    .forEach(p => warnings.push(`Lớp ${targetClass.name}: chưa hoàn thành môn tiên quyết ${p.name}`));
             }
         }
-        targetClassIds.forEach(targetId => {
-            const newItem = { ...baseItem, classId: targetId };
-            addSchedule(newItem);
-        });
+        if (warnings.length > 0 && !window.confirm(`Cảnh báo:\n${warnings.join('\n')}\n\nBạn vẫn muốn lưu?`)) return;
+        if (isSeries) {
+            const subject = subjects.find(s => s.id === subjectId);
+            if (subject?.majorId === 'culture_8' && !formRecurrence.untilDate) {
+                setFormError('Môn văn hóa 8 môn không giới hạn số tiết: vui lòng chọn ngày kết thúc lặp lại.');
+                return;
+            }
+            const rule: RecurrenceRule = { ...formRecurrence, untilDate: formRecurrence.untilDate || undefined };
+            const { items, issues } = generateSeriesItems(
+                { ...baseItem, seriesId: generateId(), recurrence: rule },
+                targetClassIds, rule, getSeriesPeriods(subject, classId, group, schedules), schedules, subjects, holidays, conflictResources
+            );
+            if (items.length === 0) {
+                setFormError(`Không xếp được buổi nào: ${issues[0]?.reason || 'môn học đã đủ số tiết'}`);
+                return;
+            }
+            if (!confirmSeries(items, issues)) return;
+            runBatch(() => items.forEach(({ id, status, ...item }) => addSchedule(item)));
+        } else {
+            runBatch(() => targetClassIds.forEach(targetId => {
+                const newItem = { ...baseItem, classId: targetId };
+                if (isMakeup) addSchedule({ ...newItem, status: ScheduleStatus.MAKEUP, makeupFor: getMissedForClass(formMakeupFor, targetId) });
+                else addSchedule(newItem);
+            }));
+        }
     }
     setShowAddModal(false);
     resetForm();
@@ -608,7 +921,7 @@ const ScheduleManager: React.FC = () => {
     const addedPeriodsMap: Record<string, number> = {};
     const processedSharedKeys: Set<string> = new Set(); 
 
-    currentWeekSchedules.forEach(item => {
+    runBatch(() => currentWeekSchedules.forEach(item => {
       if (item.type === 'exam') return;
       const subject = subjects.find(s => s.id === item.subjectId);
       if (!subject) return;
@@ -629,9 +942,12 @@ const ScheduleManager: React.FC = () => {
       }
 
       itemsToProcess.forEach(sourceItem => {
-          const key = `${sourceItem.subjectId}-${sourceItem.classId}-${sourceItem.group || 'common'}`;
+          // Groups share the whole-class budget when the subject has no practice periods
+          const stream = sourceItem.group && getPeriodSplit(subject).practice > 0 ? sourceItem.group : 'common';
+          const key = `${sourceItem.subjectId}-${sourceItem.classId}-${stream}`;
           const previouslyAdded = addedPeriodsMap[key] || 0;
-          const progress = calculateSubjectProgress(sourceItem.subjectId, sourceItem.classId, subject.totalPeriods, schedules, sourceItem.group);
+          const practiceGroups = classes.find(c => c.id === sourceItem.classId)?.practiceGroups;
+          const progress = calculateSubjectProgress(subject, sourceItem.classId, schedules, sourceItem.group, practiceGroups);
           const currentRemaining = progress.remaining - previouslyAdded;
           
           if (currentRemaining > 0) {
@@ -657,8 +973,9 @@ const ScheduleManager: React.FC = () => {
                 status: ScheduleStatus.PENDING,
                 id: generateId() 
               };
-              const { id, ...itemWithoutId } = newItem;
-              const conflict = checkConflict(itemWithoutId as any, schedules, subjects);
+              // The copy is a one-off session, not part of the source's series nor linked to missed sessions
+              const { id, seriesId, recurrence, makeupFor, makeupNeeded, ...itemWithoutId } = newItem;
+              const conflict = checkConflict(itemWithoutId as any, schedules, subjects, undefined, conflictResources);
               if (!conflict.hasConflict) {
                 addSchedule(itemWithoutId as any);
                 addedCount++;
@@ -676,7 +993,7 @@ const ScheduleManager: React.FC = () => {
              if (!warnings.includes(msg)) warnings.push(msg);
           }
       });
-    });
+    }), `Tiếp tục lịch ${classes.find(c => c.id === selectedClassId)?.name} sang tuần ${weekNumberOf(addDays(viewDate, 7))}`);
 
     if (warnings.length > 0) {
       alert(`Đã sao chép lịch!\n\nCảnh báo:\n${warnings.join('\n')}`);
@@ -686,9 +1003,11 @@ const ScheduleManager: React.FC = () => {
     handleNextWeek();
   };
 
+  // Week grid of the selected class, or in the teacher view of the selected teacher across all classes
   const handleExportExcel = async () => {
     const currentClass = classes.find(c => c.id === selectedClassId);
-    if (!currentClass) return;
+    const currentTeacher = teachers.find(t => t.id === selectedTeacherId);
+    if (isTeacherView ? !currentTeacher : !currentClass) return;
 
     const workbook = new ExcelJS.Workbook();
     const worksheet = workbook.addWorksheet('Lịch Học');
@@ -697,7 +1016,8 @@ const ScheduleManager: React.FC = () => {
       { width: 10 }, { width: 6 }, { width: 25 }, { width: 25 }, { width: 25 }, { width: 25 }, { width: 25 }, { width: 25 },
     ];
 
-    const title = `LỊCH HỌC CỦA LỚP ${currentClass.name} TỪ NGÀY ${format(weekStart, 'dd/MM')} ĐẾN NGÀY ${format(addDays(weekStart, 6), 'dd/MM')}`.toUpperCase();
+    const owner = isTeacherView ? `LỊCH GIẢNG DẠY CỦA GIÁO VIÊN ${currentTeacher!.name}` : `LỊCH HỌC CỦA LỚP ${currentClass!.name}`;
+    const title = `${owner} TỪ NGÀY ${format(weekStart, 'dd/MM')} ĐẾN NGÀY ${format(addDays(weekStart, 6), 'dd/MM')}`.toUpperCase();
     const titleRow = worksheet.addRow([title]);
     worksheet.mergeCells('A1:H1');
     titleRow.font = { name: 'Arial', size: 14, bold: true };
@@ -717,7 +1037,7 @@ const ScheduleManager: React.FC = () => {
     const borderStyle: Partial<ExcelJS.Borders> = { top: { style: 'thin' }, left: { style: 'thin' }, bottom: { style: 'thin' }, right: { style: 'thin' } };
     const centerStyle: Partial<ExcelJS.Alignment> = { horizontal: 'center', vertical: 'middle', wrapText: true };
 
-    for (let p = 1; p <= 10; p++) {
+    for (const p of PERIODS) {
        const row = worksheet.addRow(['', p]);
        row.height = 60;
        
@@ -742,6 +1062,12 @@ const ScheduleManager: React.FC = () => {
     afternoonCell.alignment = { ...centerStyle, textRotation: 90 };
     afternoonCell.font = { bold: true, size: 12 };
 
+    worksheet.mergeCells('A13:A14');
+    const eveningCell = worksheet.getCell('A13');
+    eveningCell.value = 'TỐI';
+    eveningCell.alignment = { ...centerStyle, textRotation: 90 };
+    eveningCell.font = { bold: true, size: 12 };
+
     for (let dayIndex = 0; dayIndex < weekDays.length; dayIndex++) {
         const day = weekDays[dayIndex];
         const dateStr = format(day, 'yyyy-MM-dd');
@@ -749,7 +1075,7 @@ const ScheduleManager: React.FC = () => {
         
         const holiday = getHoliday(day);
 
-        for (let p = 1; p <= 10; p++) {
+        for (const p of PERIODS) {
             const rowIndex = p + 2;
             const cell = worksheet.getCell(rowIndex, colIndex);
             cell.border = borderStyle;
@@ -785,12 +1111,12 @@ const ScheduleManager: React.FC = () => {
                 if (isSHCN) {
                     // Only Subject Name. Do not append Teacher, Room, or Progress.
                 } else if (isCulture8) {
-                    // Only Subject Name + Teacher. Do not append Room or Progress.
-                    cellText += `\nGV: ${tea?.name || '---'}`;
+                    // Only Subject Name + Teacher (classes in the teacher view). Do not append Room or Progress.
+                    cellText += isTeacherView ? `\nLớp: ${getSlotClassNames(dateStr, p)}` : `\nGV: ${tea?.name || '---'}`;
                 } else {
-                    // Standard: Name + Teacher + Room + Progress
-                    cellText += `\nGV: ${tea?.name || '---'}`;
-                    cellText += `\nPhòng: ${item.roomId} | Tiết: ${displayCumulative}/${subj?.totalPeriods}`;
+                    // Standard: Name + Teacher (classes in the teacher view) + Room + Progress
+                    cellText += isTeacherView ? `\nLớp: ${getSlotClassNames(dateStr, p)}` : `\nGV: ${tea?.name || '---'}`;
+                    cellText += `\nPhòng: ${getRoomName(item.roomId, rooms)} | Tiết: ${displayCumulative}/${subj?.totalPeriods}`;
                 }
                 
                 cell.value = cellText;
@@ -816,7 +1142,7 @@ const ScheduleManager: React.FC = () => {
         }
     }
 
-    const footerStartRow = 14;
+    const footerStartRow = PERIODS.length + 4;
     const f1 = worksheet.addRow(['', '', "Sáng: Tiết 1: 7h30 - 8h15   Tiết 2: 8h15 - 9h00   Ra chơi: 30 phút   Tiết 3: 9h30 - 10h15   Tiết 4: 10h15 - 11h00"]);
     worksheet.mergeCells(`C${footerStartRow}:H${footerStartRow}`);
     f1.getCell(3).font = { italic: true, size: 9 };
@@ -829,9 +1155,11 @@ const ScheduleManager: React.FC = () => {
 
     const buffer = await workbook.xlsx.writeBuffer();
     const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    saveAs(blob, `Lich_Hoc_${currentClass.name}_Tuan_${weekNumber}.xlsx`);
+    saveAs(blob, isTeacherView ? `Lich_Giang_Day_${currentTeacher!.name}_Tuan_${weekNumber}.xlsx` : `Lich_Hoc_${currentClass!.name}_Tuan_${weekNumber}.xlsx`);
   };
 
+  const freeRooms = getFormFreeRooms();
+
   const handleExportInvitation = (item: any) => {
       const template = templates.find(t => t.type === 'invitation_word');
       if (!template) {
@@ -857,12 +1185,9 @@ const ScheduleManager: React.FC = () => {
           const datesStr = `Từ ngày ${startDate} đến ngày ${endDate}`;
 
           const sessions = new Set<string>();
-          relevantSchedules.forEach(s => {
-              if (s.startPeriod <= 5) sessions.add("Sáng (1-5)");
-              else sessions.add("Chiều (6-10)");
-          });
+          relevantSchedules.forEach(s => sessions.add(getSessionLabel(getSessionFromPeriod(s.startPeriod))));
           const sessionStr = Array.from(sessions).join(', ');
-          const rooms = Array.from(new Set(relevantSchedules.map(s => s.roomId))).join(', ');
+          const roomNames = Array.from(new Set(relevantSchedules.map(s => getRoomName(s.roomId, rooms)))).join(', ');
 
           let location = "Cơ sở 1 - Số 79, ĐT743, phường Bình Hoà, TP. Thuận An, Bình Dương";
           let mapLink = "https://maps.app.goo.gl/Y9ubh6zCUp6USaun8";
@@ -871,18 +1196,29 @@ const ScheduleManager: React.FC = () => {
              location = "Cơ sở 2 - Số 470, tổ 3, Ba Đình, phường Tân Đông Hiệp, TP. Dĩ An, Bình Dương";
              mapLink = "https://maps.app.goo.gl/8Vwf8gMnPuMGpNgA8";
           }
-          const rateStr = new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(teacher.ratePerPeriod || 0);
+          // Rate table as of each of the teacher's sessions; a range when the rate differs (evening, new school year...)
+          const formatVND = (v: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(v);
+          const teacherSessions = relevantSchedules.filter(s => s.teacherId === teacher.id);
+          const rates = teacherSessions.length > 0
+              ? teacherSessions.map(s => getScheduleRate(s, teachers, rateRules))
+              : [getScheduleRate({
+                    id: '', type: 'class', teacherId: teacher.id, subjectId: subject.id, classId: currentClass.id, roomId: '',
+                    date: format(new Date(), 'yyyy-MM-dd'), session: 'Sáng', startPeriod: 1, periodCount: 1, status: ScheduleStatus.PENDING
+                }, teachers, rateRules)];
+          const minRate = Math.min(...rates);
+          const maxRate = Math.max(...rates);
+          const rateStr = minRate === maxRate ? formatVND(minRate) : `${formatVND(minRate)} - ${formatVND(maxRate)}`;
 
           const data = {
               teacherTitle: teacher.title || 'Thầy/Cô',
               teacherName: teacher.name,
               subjectName: subject.name,
               className: currentClass.name,
-              totalPeriods: subject.totalPeriods,
+              totalPeriods: getSubjectTotalPeriods(subject, currentClass.practiceGroups),
               dates: datesStr,
               sessions: sessionStr,
               rate: rateStr,
-              room: rooms,
+              room: roomNames,
               location: location,
               mapLink: mapLink
           };
@@ -903,20 +1239,38 @@ const ScheduleManager: React.FC = () => {
       {/* Header Controls */}
       <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-white p-4 rounded-xl shadow-sm">
         <div className="flex items-center gap-2">
-           <ListFilter size={20} className="text-gray-500" />
-           <select 
-             className="border rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
-             value={selectedClassId}
-             onChange={(e) => setSelectedClassId(e.target.value)}
-           >
-             {classes.map(c => <option key={c.id} value={c.id}>{c.name} ({c.studentCount} SV)</option>)}
-           </select>
+           <div className="flex rounded border overflow-hidden text-sm">
+             <button onClick={() => setViewMode('class')} className={`px-3 py-2 flex items-center gap-1 ${!isTeacherView ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>
+               <ListFilter size={16} /> Theo lớp
+             </button>
+             <button onClick={() => setViewMode('teacher')} className={`px-3 py-2 flex items-center gap-1 ${isTeacherView ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>
+               <UserRound size={16} /> Theo giáo viên
+             </button>
+           </div>
+           {isTeacherView ? (
+             <select 
+               className="border rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+               value={selectedTeacherId}
+               onChange={(e) => setSelectedTeacherId(e.target.value)}
+             >
+               {teachers.filter(t => !t.archived || t.id === selectedTeacherId).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+             </select>
+           ) : (
+             <select 
+               className="border rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+               value={selectedClassId}
+               onChange={(e) => setSelectedClassId(e.target.value)}
+             >
+               {classes.filter(c => !c.archived || c.id === selectedClassId).map(c => <option key={c.id} value={c.id}>{c.name} ({getClassHeadcount(c, students)} SV)</option>)}
+             </select>
+           )}
         </div>
 
         <div className="flex items-center gap-4">
           <button onClick={handlePrevWeek} className="p-2 hover:bg-gray-100 rounded-full"><ChevronLeft /></button>
           <div className="text-center">
             <p className="font-bold text-lg">Tuần {weekNumber}</p>
+            {semesterWeek && <p className="text-xs text-blue-600">{getSemesterLabel(semesterWeek.semester, academicYears)}</p>}
             <p className="text-xs text-gray-500">
                 {format(weekStart, 'dd/MM')} - {format(addDays(weekStart, 6), 'dd/MM/yyyy')}
             </p>
@@ -925,20 +1279,30 @@ const ScheduleManager: React.FC = () => {
         </div>
 
         <div className="flex gap-2">
-            <button 
-                onClick={handleContinueNextWeek}
-                className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 text-sm font-medium"
-            >
-                <CalendarIcon size={16} /> Tiếp tục lịch tuần sau
-            </button>
+            {!isTeacherView && (
+              <>
+                <button 
+                    onClick={handleContinueNextWeek}
+                    className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 text-sm font-medium"
+                >
+                    <CalendarIcon size={16} /> Tiếp tục lịch tuần sau
+                </button>
+                <button 
+                    onClick={openAutoSchedule}
+                    className="flex items-center gap-2 px-3 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 text-sm font-medium"
+                >
+                    <Wand2 size={16} /> Xếp lịch tự động
+                </button>
+              </>
+            )}
             <button 
                 onClick={handleExportExcel}
                 className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm font-medium"
             >
-                <Download size={16} /> Xuất file lịch học
+                <Download size={16} /> {isTeacherView ? 'Xuất lịch giảng dạy' : 'Xuất file lịch học'}
             </button>
             <button 
-                onClick={() => { resetForm(); setShowAddModal(true); }}
+                onClick={() => { resetForm(); if (isTeacherView) setFormTeacherId(selectedTeacherId); setShowAddModal(true); }}
                 className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium"
             >
                 <Plus size={16} /> Thêm lịch
@@ -965,11 +1329,11 @@ const ScheduleManager: React.FC = () => {
           </thead>
           <tbody className="text-sm">
              {PERIODS.map((period, index) => {
-               const isStartOfSession = period === 1 || period === 6;
+               const isStartOfSession = period === 1 || period === 6 || period === 11;
                return (
                  <tr key={period} className="hover:bg-gray-50">
                    {isStartOfSession && (
-                     <td rowSpan={5} className="border p-2 text-center font-bold bg-gray-50 writing-mode-vertical">
+                     <td rowSpan={getPeriodsLeftInSession(period)} className="border p-2 text-center font-bold bg-gray-50 writing-mode-vertical">
                        {getSessionFromPeriod(period)}
                      </td>
                    )}
@@ -982,7 +1346,7 @@ const ScheduleManager: React.FC = () => {
                      if (holiday) {
                          if (period === 1) { // Only render content in first cell, but block all
                             return (
-                                <td key={day.toString()} rowSpan={10} className="border p-1 bg-gray-200 cursor-not-allowed text-center align-middle opacity-80">
+                                <td key={day.toString()} rowSpan={PERIODS.length} className="border p-1 bg-gray-200 cursor-not-allowed text-center align-middle opacity-80">
                                     <div className="flex flex-col items-center justify-center h-full text-gray-500">
                                         <CalendarOff size={32} className="mb-2" />
                                         <span className="font-bold text-lg block">{holiday.name.toUpperCase()}</span>
@@ -1010,6 +1374,7 @@ const ScheduleManager: React.FC = () => {
                                 resetForm(); 
                                 setFormDate(format(day, 'yyyy-MM-dd')); 
                                 setFormStartPeriod(period); 
+                                if (isTeacherView) setFormTeacherId(selectedTeacherId);
                                 setShowAddModal(true); 
                             }}
                          />
@@ -1036,7 +1401,7 @@ const ScheduleManager: React.FC = () => {
                          key={day.toString()} 
                          rowSpan={item.periodCount} 
                          className="border p-1 align-top relative group cursor-pointer hover:brightness-95 transition" 
-                         onDoubleClick={() => { setEditItem(item); setShowAddModal(true); }}
+                         onDoubleClick={() => openEditItem(item)}
                          draggable="true"
                          onDragStart={(e) => handleDragStart(e, item)}
                          onContextMenu={(e) => handleContextMenu(e, day, period, item)}
@@ -1046,9 +1411,12 @@ const ScheduleManager: React.FC = () => {
                              <div className="font-bold text-gray-800 text-sm mb-1">
                                 {subject?.name}
                                 {item.group && <span className="ml-1 text-red-600 font-normal">({item.group})</span>}
+                                {item.seriesId && <span title="Lịch lặp lại"><Repeat size={10} className="inline ml-1 text-gray-400" /></span>}
                              </div>
-                             <div className="text-gray-600 mb-0.5"><span className="font-semibold">GV:</span> {teacher?.name || '---'}</div>
-                             <div className="text-gray-600 mb-0.5"><span className="font-semibold">Phòng:</span> {item.roomId}</div>
+                             {isTeacherView
+                                ? <div className="text-gray-600 mb-0.5"><span className="font-semibold">Lớp:</span> {getSlotClassNames(dateStr, period)}</div>
+                                : <div className="text-gray-600 mb-0.5"><span className="font-semibold">GV:</span> {teacher?.name || '---'}</div>}
+                             <div className="text-gray-600 mb-0.5"><span className="font-semibold">Phòng:</span> {getRoomName(item.roomId, rooms)}</div>
                              {item.type === 'class' && (
                                 <div className="text-gray-500 italic">Tiến độ: {displayCumulative}/{subject?.totalPeriods}</div>
                              )}
@@ -1075,6 +1443,7 @@ const ScheduleManager: React.FC = () => {
       </div>
 
       {/* Active Subjects Summary & Invitation */}
+      {!isTeacherView && (
       <div className="bg-white rounded-xl shadow border border-gray-200 p-6">
          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
             <BookOpen className="mr-2 text-blue-600" /> Môn học đang triển khai
@@ -1121,6 +1490,7 @@ const ScheduleManager: React.FC = () => {
              </table>
          </div>
       </div>
+      )}
 
       {/* Context Menu */}
       {contextMenu.show && (
@@ -1129,12 +1499,22 @@ const ScheduleManager: React.FC = () => {
             style={{ top: contextMenu.y, left: contextMenu.x }}
         >
             {contextMenu.target?.item ? (
-                <button 
-                    onClick={handleCopy}
-                    className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center text-sm text-gray-700"
-                >
-                    <Copy size={16} className="mr-2" /> Sao chép buổi học
-                </button>
+                <>
+                    <button 
+                        onClick={handleCopy}
+                        className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center text-sm text-gray-700"
+                    >
+                        <Copy size={16} className="mr-2" /> Sao chép buổi học
+                    </button>
+                    {contextMenu.target.item.type === 'class' && (
+                        <button 
+                            onClick={() => { setAttendanceScheduleId(contextMenu.target!.item!.id); setContextMenu({ ...contextMenu, show: false }); }}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center text-sm text-gray-700"
+                        >
+                            <ClipboardCheck size={16} className="mr-2" /> Điểm danh
+                        </button>
+                    )}
+                </>
             ) : (
                 <button 
                     onClick={handlePaste}
@@ -1157,6 +1537,10 @@ const ScheduleManager: React.FC = () => {
         </div>
       )}
 
+      {attendanceScheduleId && (
+        <AttendanceModal scheduleId={attendanceScheduleId} onClose={() => setAttendanceScheduleId(null)} />
+      )}
+
       {/* Add/Edit Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1173,6 +1557,23 @@ const ScheduleManager: React.FC = () => {
                  </div>
               )}
 
+              {editItem?.seriesId && (
+                  <div className="bg-blue-50 p-3 rounded border border-blue-200 text-sm">
+                    <div className="font-bold mb-2 text-blue-800 flex items-center"><Repeat size={14} className="mr-2" /> Buổi học thuộc chuỗi lặp lại</div>
+                    <div className="flex gap-4">
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input type="radio" checked={editScope === 'this'} onChange={() => setEditScope('this')} /> Chỉ buổi này
+                      </label>
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input type="radio" checked={editScope === 'following'} onChange={() => setEditScope('following')} /> Buổi này và các buổi sau
+                      </label>
+                    </div>
+                    {editScope === 'following' && (
+                      <p className="text-xs text-gray-500 mt-2">Các buổi từ ngày này được xếp lại theo thông tin mới (bỏ qua ngày nghỉ, dời buổi trùng lịch).</p>
+                    )}
+                  </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium mb-1">Loại lịch</label>
@@ -1198,7 +1599,13 @@ const ScheduleManager: React.FC = () => {
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-1">Lớp chính</label>
-                    <input type="text" value={classes.find(c => c.id === selectedClassId)?.name} disabled className="w-full border rounded p-2 bg-gray-100" />
+                    {isTeacherView && !editItem ? (
+                        <select value={selectedClassId} onChange={(e) => setSelectedClassId(e.target.value)} className="w-full border rounded p-2">
+                            {classes.filter(c => !c.archived || c.id === selectedClassId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    ) : (
+                        <input type="text" value={classes.find(c => c.id === selectedClassId)?.name} disabled className="w-full border rounded p-2 bg-gray-100" />
+                    )}
                   </div>
               </div>
 
@@ -1258,18 +1665,11 @@ const ScheduleManager: React.FC = () => {
                         // Skip if Culture 8 (allow unlimited scheduling)
                         if (val && !isExam && selectedSub?.majorId !== 'culture_8') {
                             if (selectedSub) {
-                                const used = schedules.filter(s =>
-                                    s.subjectId === val &&
-                                    s.classId === clsId &&
-                                    s.status !== ScheduleStatus.OFF &&
-                                    (editItem ? s.id !== editItem.id : true)
-                                ).reduce((acc, curr) => acc + curr.periodCount, 0);
-
-                                const remaining = Math.max(0, selectedSub.totalPeriods - used);
+                                const remaining = getRemainingPeriods(selectedSub, clsId, editItem ? editItem.group : formGroup);
                                 
-                                // Calculate max periods allowed based on start period (morning/afternoon boundary)
+                                // Calculate max periods allowed based on start period (end of its part of the day)
                                 const currentStart = editItem ? editItem.startPeriod : formStartPeriod;
-                                const maxSession = currentStart <= 5 ? 6 - currentStart : 11 - currentStart;
+                                const maxSession = getPeriodsLeftInSession(currentStart);
 
                                 let suggested = 3; // Default batch
                                 if (remaining < suggested) suggested = remaining; // Last session case
@@ -1310,25 +1710,9 @@ const ScheduleManager: React.FC = () => {
                     </label>
                     <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto pr-2 custom-scrollbar">
                         {classes.filter(cls => {
-                            if (!currentFormSubject) return false;
-
-                            // 1. Culture: Exclude H8
-                            if (currentFormSubject.majorId === 'culture') {
-                                return !cls.name.toUpperCase().includes('H8');
-                            }
-
-                             // 2. Culture 8: Only H8
-                            if (currentFormSubject.majorId === 'culture_8') {
-                                return cls.name.toUpperCase().includes('H8');
-                            }
-                            
-                            // 3. Common: Include All
-                            if (currentFormSubject.majorId === 'common') {
-                                return true;
-                            }
-
-                            // 4. Specific Major: Only include classes with same major
-                            return cls.majorId === currentFormSubject.majorId;
+                            if (!currentFormSubject || cls.archived) return false;
+                            // Classes whose curriculum includes the subject
+                            return cls.id === selectedClassId || classTakesSubject(cls, currentFormSubject.id, curricula, subjects);
                         }).map(cls => (
                             <label key={cls.id} className={`flex items-center space-x-2 text-sm p-2 rounded cursor-pointer ${selectedSharedClasses.includes(cls.id) ? 'bg-blue-100' : 'hover:bg-white'}`}>
                                 <input
@@ -1358,7 +1742,7 @@ const ScheduleManager: React.FC = () => {
                         value={editItem ? editItem.startPeriod : formStartPeriod} 
                         onChange={(e) => {
                             const val = Number(e.target.value);
-                            const maxSession = val <= 5 ? 6 - val : 11 - val;
+                            const maxSession = getPeriodsLeftInSession(val);
                             
                             if (editItem) {
                                 // Adjust count if it exceeds new max
@@ -1380,15 +1764,12 @@ const ScheduleManager: React.FC = () => {
                     <input 
                         type="number" 
                         min="1" 
-                        max={(() => {
-                            const start = editItem ? editItem.startPeriod : formStartPeriod;
-                            return start <= 5 ? 6 - start : 11 - start;
-                        })()}
+                        max={getPeriodsLeftInSession(editItem ? editItem.startPeriod : formStartPeriod)}
                         value={editItem ? editItem.periodCount : formPeriodCount} 
                         onChange={(e) => {
                             let val = Number(e.target.value);
                             const start = editItem ? editItem.startPeriod : formStartPeriod;
-                            const maxSession = start <= 5 ? 6 - start : 11 - start;
+                            const maxSession = getPeriodsLeftInSession(start);
                             
                             if (val > maxSession) val = maxSession;
 
@@ -1399,14 +1780,7 @@ const ScheduleManager: React.FC = () => {
                                 const subject = subjects.find(s => s.id === subjId);
                                 // Skip limiting for culture_8
                                 if (subject && subject.majorId !== 'culture_8') {
-                                    const used = schedules.filter(s =>
-                                        s.subjectId === subjId &&
-                                        s.classId === selectedClassId &&
-                                        s.status !== ScheduleStatus.OFF &&
-                                        (editItem ? s.id !== editItem.id : true)
-                                    ).reduce((acc, curr) => acc + curr.periodCount, 0);
-
-                                    const remaining = Math.max(0, subject.totalPeriods - used);
+                                    const remaining = getRemainingPeriods(subject, editItem ? editItem.classId : selectedClassId, editItem ? editItem.group : formGroup);
                                     if (val > remaining) {
                                         alert(`Môn học chỉ còn ${remaining} tiết`);
                                         val = remaining;
@@ -1424,8 +1798,28 @@ const ScheduleManager: React.FC = () => {
 
               <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium mb-1">Phòng học</label>
-                    <input type="text" value={editItem ? editItem.roomId : formRoom} onChange={(e) => editItem ? setEditItem({...editItem, roomId: e.target.value}) : setFormRoom(e.target.value)} className="w-full border rounded p-2" />
+                    <label className="flex justify-between items-center text-sm font-medium mb-1">
+                        Phòng học
+                        <button type="button" onClick={() => setShowFreeRooms(!showFreeRooms)} className="text-xs text-blue-600 hover:underline flex items-center font-normal">
+                            <Search size={12} className="mr-1" /> {showFreeRooms ? 'Ẩn phòng trống' : 'Tìm phòng trống'}
+                        </button>
+                    </label>
+                    <select 
+                        value={editItem ? editItem.roomId : formRoom} 
+                        onChange={(e) => editItem ? setEditItem({...editItem, roomId: e.target.value}) : setFormRoom(e.target.value)} 
+                        className="w-full border rounded p-2"
+                    >
+                        <option value="">Chọn phòng...</option>
+                        {/* Legacy free-text room not yet linked to a Room entity */}
+                        {editItem && editItem.roomId && !rooms.some(r => r.id === editItem.roomId) && (
+                            <option value={editItem.roomId}>{editItem.roomId}</option>
+                        )}
+                        {rooms.map(r => (
+                            <option key={r.id} value={r.id}>
+                                {r.name}{r.capacity ? ` (${r.capacity} chỗ)` : ''}{r.equipment.length > 0 ? ` - ${r.equipment.join(', ')}` : ''}
+                            </option>
+                        ))}
+                    </select>
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-1">Nhóm (Thực hành)</label>
@@ -1435,13 +1829,32 @@ const ScheduleManager: React.FC = () => {
                         className="w-full border rounded p-2"
                     >
                         <option value="">-- Cả lớp --</option>
-                        <option value="Nhóm 1">Nhóm 1</option>
-                        <option value="Nhóm 2">Nhóm 2</option>
-                        <option value="Nhóm 3">Nhóm 3</option>
+                        {(currentClassGroups.length > 0 ? currentClassGroups : ['Nhóm 1', 'Nhóm 2', 'Nhóm 3']).map(g => <option key={g} value={g}>{g}</option>)}
+                        {editItem?.group && !currentClassGroups.includes(editItem.group) && currentClassGroups.length > 0 && <option value={editItem.group}>{editItem.group}</option>}
                     </select>
                   </div>
               </div>
 
+              {showFreeRooms && (
+                  <div className="bg-green-50 p-3 rounded border border-green-200 text-sm">
+                      <p className="text-green-800 font-medium mb-2">
+                          {freeRooms.length > 0 ? `${freeRooms.length} phòng trống trong khung giờ này (chọn để dùng):` : 'Không còn phòng trống trong khung giờ này.'}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                          {freeRooms.map(r => (
+                              <button
+                                  key={r.id}
+                                  type="button"
+                                  onClick={() => editItem ? setEditItem({...editItem, roomId: r.id}) : setFormRoom(r.id)}
+                                  className={`px-2 py-1 rounded border text-xs ${(editItem ? editItem.roomId : formRoom) === r.id ? 'bg-green-600 text-white border-green-700' : 'bg-white text-green-800 border-green-300 hover:bg-green-100'}`}
+                              >
+                                  {r.name}{r.capacity ? ` (${r.capacity} chỗ)` : ''}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium mb-1">Ghi chú</label>
                 <input 
@@ -1453,6 +1866,63 @@ const ScheduleManager: React.FC = () => {
                 />
               </div>
 
+              {(editItem ? editItem.status === ScheduleStatus.MAKEUP : formType === 'class') && makeupCandidates.length > 0 && (
+                  <div className="bg-purple-50 p-3 rounded border border-purple-200 text-sm space-y-1">
+                    <label className="block font-medium text-purple-800">Dạy bù cho buổi nghỉ</label>
+                    {makeupCandidates.map(m => {
+                      const linked = editItem ? editItem.makeupFor || [] : formMakeupFor;
+                      const checked = linked.includes(m.item.id);
+                      return (
+                        <label key={m.item.id} className="flex items-center gap-2 cursor-pointer">
+                          <input type="checkbox" checked={checked} onChange={() => {
+                            const next = checked ? linked.filter(id => id !== m.item.id) : [...linked, m.item.id];
+                            if (editItem) setEditItem({ ...editItem, makeupFor: next });
+                            else setFormMakeupFor(next);
+                          }} />
+                          {format(parseLocal(m.item.date), 'dd/MM/yyyy')}, tiết {m.item.startPeriod}-{m.item.startPeriod + m.item.periodCount - 1}
+                          <span className="text-xs text-gray-500">(còn nợ {m.outstanding}/{m.item.periodCount} tiết)</span>
+                        </label>
+                      );
+                    })}
+                    {!editItem && formMakeupFor.length > 0 && (
+                      <p className="text-xs text-gray-500">Buổi mới được lưu với trạng thái "{ScheduleStatus.MAKEUP}".</p>
+                    )}
+                  </div>
+              )}
+
+              {!editItem && formType === 'class' && formMakeupFor.length === 0 && (
+                  <div className="bg-gray-50 p-3 rounded border text-sm space-y-2">
+                    <label className="flex items-center gap-2 font-medium cursor-pointer">
+                      <input type="checkbox" checked={formRepeat} onChange={e => setFormRepeat(e.target.checked)} />
+                      <Repeat size={14} className="text-blue-600" /> Lặp lại hàng tuần
+                    </label>
+                    {formRepeat && (
+                      <>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">Mỗi (tuần)</label>
+                            <input type="number" min={1} className="w-full border rounded p-1.5" value={formRecurrence.intervalWeeks} onChange={e => setFormRecurrence({ ...formRecurrence, intervalWeeks: Math.max(1, Number(e.target.value) || 1) })} />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">Đến ngày</label>
+                            <input type="date" className="w-full border rounded p-1.5" value={formRecurrence.untilDate || ''} onChange={e => setFormRecurrence({ ...formRecurrence, untilDate: e.target.value })} />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">Khi trùng lịch</label>
+                            <select className="w-full border rounded p-1.5" value={formRecurrence.onConflict} onChange={e => setFormRecurrence({ ...formRecurrence, onConflict: e.target.value as RecurrenceRule['onConflict'] })}>
+                              <option value="shift">Dời ngày khác</option>
+                              <option value="skip">Bỏ qua tuần đó</option>
+                            </select>
+                          </div>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Tạo đến khi đủ số tiết còn lại của môn{formRecurrence.untilDate ? ' hoặc đến ngày kết thúc' : ''}, bỏ qua các ngày nghỉ.
+                        </p>
+                      </>
+                    )}
+                  </div>
+              )}
+
               {editItem && (
                   <div className="bg-yellow-50 p-3 rounded border border-yellow-200">
                       <label className="block text-sm font-bold mb-2 text-yellow-800">Trạng thái & Điều chỉnh</label>
@@ -1467,6 +1937,12 @@ const ScheduleManager: React.FC = () => {
                               </button>
                           ))}
                       </div>
+                      {editItem.status === ScheduleStatus.OFF && (
+                          <label className="flex items-center gap-2 mt-2 text-sm text-gray-700 cursor-pointer">
+                              <input type="checkbox" checked={editItem.makeupNeeded !== false} onChange={e => setEditItem({ ...editItem, makeupNeeded: e.target.checked })} />
+                              Cần dạy bù buổi này
+                          </label>
+                      )}
                       <p className="text-xs text-gray-500 mt-2">
                           *Chọn "Nghỉ" để đánh dấu buổi nghỉ. Chọn "Tiết bổ sung" cho lịch bù.
                       </p>
@@ -1491,6 +1967,230 @@ const ScheduleManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Auto Schedule Modal */}
+      {showAutoModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+            <div className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 shrink-0">
+              <h3 className="font-bold text-lg">
+                Xếp lịch tự động - {classes.find(c => c.id === selectedClassId)?.name}
+              </h3>
+              <button onClick={() => setShowAutoModal(false)} className="text-gray-500 hover:text-red-500"><X /></button>
+            </div>
+
+            <div className="p-6 space-y-4 overflow-y-auto">
+              {autoPreview === null ? (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Từ ngày</label>
+                      <input type="date" value={autoStartDate} onChange={e => setAutoStartDate(e.target.value)} className="w-full border rounded p-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Đến ngày</label>
+                      <input type="date" value={autoEndDate} onChange={e => setAutoEndDate(e.target.value)} className="w-full border rounded p-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Tối đa tiết/ngày</label>
+                      <input type="number" min={1} max={10} value={autoMaxPerDay} onChange={e => setAutoMaxPerDay(Math.max(1, Number(e.target.value)))} className="w-full border rounded p-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Số tiết/buổi</label>
+                      <input type="number" min={1} max={5} value={autoBlockSize} onChange={e => setAutoBlockSize(Math.min(5, Math.max(1, Number(e.target.value))))} className="w-full border rounded p-2 text-sm" />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Phòng học</label>
+                      <select value={autoRoom} onChange={e => setAutoRoom(e.target.value)} className="w-full border rounded p-2 text-sm">
+                        <option value="">-- Chọn phòng --</option>
+                        {rooms.map(r => <option key={r.id} value={r.id}>{r.name} ({r.capacity} chỗ)</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Buổi</label>
+                      <div className="flex gap-3 text-sm pt-2">
+                        {(['Sáng', 'Chiều', 'Tối'] as Session[]).map(session => (
+                          <label key={session} className="flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={autoSessions.includes(session)}
+                              onChange={e => setAutoSessions(prev => e.target.checked ? [...prev, session] : prev.filter(x => x !== session))}
+                            />
+                            {session}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Ngày trong tuần</label>
+                      <div className="flex flex-wrap gap-2 text-sm pt-2">
+                        {DAYS_OF_WEEK.map(({ label, val: dayNum }) => {
+                          return (
+                            <label key={label} className="flex items-center gap-1 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={autoWeekdays.includes(dayNum)}
+                                onChange={e => setAutoWeekdays(prev => e.target.checked ? [...prev, dayNum] : prev.filter(x => x !== dayNum))}
+                              />
+                              {label}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Môn học còn tiết</label>
+                    {autoSubjects.length === 0 ? (
+                      <p className="text-sm text-gray-500 italic">Lớp này không còn môn học nào cần xếp lịch.</p>
+                    ) : (
+                      <table className="w-full text-sm border">
+                        <thead className="bg-gray-100">
+                          <tr>
+                            <th className="border p-2 w-10"></th>
+                            <th className="border p-2 text-left">Môn học</th>
+                            <th className="border p-2 w-24">Còn lại</th>
+                            <th className="border p-2 text-left">Giáo viên</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {autoSubjects.map((row, idx) => (
+                            <tr key={row.subjectId}>
+                              <td className="border p-2 text-center">
+                                <input
+                                  type="checkbox"
+                                  checked={row.selected}
+                                  onChange={e => setAutoSubjects(prev => prev.map((r, i) => i === idx ? { ...r, selected: e.target.checked } : r))}
+                                />
+                              </td>
+                              <td className="border p-2">{subjects.find(s => s.id === row.subjectId)?.name}</td>
+                              <td className="border p-2 text-center">{row.remaining} tiết</td>
+                              <td className="border p-2">
+                                <select
+                                  value={row.teacherId}
+                                  onChange={e => setAutoSubjects(prev => prev.map((r, i) => i === idx ? { ...r, teacherId: e.target.value } : r))}
+                                  className="w-full border rounded p-1 text-sm"
+                                >
+                                  <option value="">-- Chọn giáo viên --</option>
+                                  {teachers.filter(t => !t.archived || t.id === row.teacherId).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </select>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1 italic">
+                      *Lịch được xếp vào các tiết trống, bỏ qua ngày nghỉ lễ và tránh trùng giáo viên/phòng học và ngoài lịch rảnh của giáo viên.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {Object.keys(autoUnplaced).length > 0 && (
+                    <div className="bg-yellow-50 text-yellow-800 p-3 rounded text-sm">
+                      <div className="flex items-center font-medium mb-1"><AlertCircle size={16} className="mr-2" /> Chưa xếp hết trong khoảng thời gian đã chọn:</div>
+                      <ul className="list-disc ml-6">
+                        {Object.entries(autoUnplaced).map(([subId, periods]) => (
+                          <li key={subId}>{subjects.find(s => s.id === subId)?.name}: còn {periods} tiết</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {autoPreview.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">Không tìm được tiết trống phù hợp.</p>
+                  ) : (
+                    <table className="w-full text-sm border">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="border p-2 w-10">
+                            <input
+                              type="checkbox"
+                              checked={autoSelectedIds.length === autoPreview.length}
+                              onChange={e => setAutoSelectedIds(e.target.checked ? autoPreview.map(i => i.id) : [])}
+                            />
+                          </th>
+                          <th className="border p-2 text-left">Ngày</th>
+                          <th className="border p-2">Tiết</th>
+                          <th className="border p-2 text-left">Môn học</th>
+                          <th className="border p-2 text-left">Giáo viên</th>
+                          <th className="border p-2 text-left">Phòng</th>
+                          <th className="border p-2 w-20"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {autoPreview.map(item => (
+                          <tr key={item.id} className="bg-green-50">
+                            <td className="border p-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={autoSelectedIds.includes(item.id)}
+                                onChange={e => setAutoSelectedIds(prev => e.target.checked ? [...prev, item.id] : prev.filter(x => x !== item.id))}
+                              />
+                            </td>
+                            <td className="border p-2">
+                              <span className="text-green-700 font-bold mr-1">+</span>
+                              {format(parseLocal(item.date), 'EEEE dd/MM/yyyy', { locale: vi })}
+                            </td>
+                            <td className="border p-2 text-center">{item.startPeriod} - {item.startPeriod + item.periodCount - 1}</td>
+                            <td className="border p-2">{subjects.find(s => s.id === item.subjectId)?.name}</td>
+                            <td className="border p-2">{teachers.find(t => t.id === item.teacherId)?.name}</td>
+                            <td className="border p-2">{getRoomName(item.roomId, rooms)}</td>
+                            <td className="border p-2 text-center">
+                              <button onClick={() => handleAcceptAuto([item.id])} className="text-green-600 hover:bg-green-100 px-2 py-1 rounded flex items-center text-xs mx-auto">
+                                <Check size={14} className="mr-1" /> Thêm
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="p-4 border-t bg-gray-50 flex justify-between shrink-0">
+              {autoPreview !== null ? (
+                <button onClick={() => setAutoPreview(null)} className="px-3 py-2 text-gray-600 hover:bg-gray-200 rounded flex items-center">
+                  <ChevronLeft size={16} className="mr-1" /> Quay lại
+                </button>
+              ) : <div></div>}
+
+              <div className="flex gap-2">
+                <button onClick={() => setShowAutoModal(false)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+                {autoPreview === null ? (
+                  <button onClick={handleGenerateAuto} className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 flex items-center">
+                    <Wand2 size={16} className="mr-2" /> Xem trước
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleAcceptAuto(autoSelectedIds)}
+                      disabled={autoSelectedIds.length === 0}
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center disabled:opacity-50"
+                    >
+                      <Save size={16} className="mr-2" /> Thêm mục đã chọn ({autoSelectedIds.length})
+                    </button>
+                    <button
+                      onClick={() => handleAcceptAuto(autoPreview.map(i => i.id))}
+                      disabled={autoPreview.length === 0}
+                      className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center disabled:opacity-50"
+                    >
+                      <Check size={16} className="mr-2" /> Chấp nhận tất cả
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { AcademicYear, Semester } from '../types';
+import { Plus, Trash2, Edit2, Save, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { parseLocal } from '../utils';
+
+type SemesterDraft = { name: string; startDate: string; endDate: string };
+
+// Usual split of a school year starting in `year`: HK1 = 08/year - 01/year+1, HK2 = 02 - 07/year+1
+const defaultSemesters = (year: number): SemesterDraft[] => [
+  { name: 'Học kỳ 1', startDate: `${year}-08-01`, endDate: `${year + 1}-01-31` },
+  { name: 'Học kỳ 2', startDate: `${year + 1}-02-01`, endDate: `${year + 1}-07-31` },
+];
+
+const formatDate = (dateStr: string) => dateStr ? format(parseLocal(dateStr), 'dd/MM/yyyy') : '';
+
+// Returns an error message, or null when the semesters fit in the year and do not overlap
+const validateSemesters = (year: Pick<AcademicYear, 'startDate' | 'endDate'>, semesters: SemesterDraft[]): string | null => {
+  for (const s of semesters) {
+    if (!s.name.trim() || !s.startDate || !s.endDate) return 'Vui lòng nhập đầy đủ tên, ngày bắt đầu và ngày kết thúc của học kỳ.';
+    if (s.startDate > s.endDate) return `${s.name}: ngày kết thúc phải sau ngày bắt đầu.`;
+    if (s.startDate < year.startDate || s.endDate > year.endDate) return `${s.name} nằm ngoài thời gian của năm học.`;
+  }
+  const sorted = [...semesters].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startDate <= sorted[i - 1].endDate) return `${sorted[i - 1].name} và ${sorted[i].name} bị trùng thời gian.`;
+  }
+  return null;
+};
+
+// Academic years and their semesters (tab of Management)
+const SemesterManager: React.FC = () => {
+  const {
+    academicYears, semesters,
+    addAcademicYear, updateAcademicYear, deleteAcademicYear, addSemester, updateSemester, deleteSemester
+  } = useApp();
+
+  const startYear = new Date().getMonth() >= 7 ? new Date().getFullYear() : new Date().getFullYear() - 1;
+  const emptyYear = () => ({ name: `${startYear}-${startYear + 1}`, startDate: `${startYear}-08-01`, endDate: `${startYear + 1}-07-31` });
+
+  const [newYear, setNewYear] = useState(emptyYear);
+  const [newSemesters, setNewSemesters] = useState<SemesterDraft[]>(() => defaultSemesters(startYear));
+  const [editingYearId, setEditingYearId] = useState<string | null>(null);
+  const [yearForm, setYearForm] = useState<Omit<AcademicYear, 'id'>>({ name: '', startDate: '', endDate: '' });
+  // Semester being edited (id) or added to a year (academicYearId, no id)
+  const [semesterForm, setSemesterForm] = useState<(SemesterDraft & { id?: string; academicYearId: string }) | null>(null);
+
+  const semestersOf = (yearId: string) => semesters
+    .filter(s => s.academicYearId === yearId)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const overlapsOtherYear = (y: Pick<AcademicYear, 'startDate' | 'endDate'>, exceptId?: string) =>
+    academicYears.find(other => other.id !== exceptId && y.startDate <= other.endDate && y.endDate >= other.startDate);
+
+  const handleNewYearStart = (startDate: string) => {
+    const year = parseLocal(startDate).getFullYear();
+    setNewYear({ ...newYear, startDate, name: startDate ? `${year}-${year + 1}` : newYear.name });
+    if (startDate) setNewSemesters(defaultSemesters(year));
+  };
+
+  const handleAddYear = () => {
+    if (!newYear.name.trim() || !newYear.startDate || !newYear.endDate) {
+      alert('Vui lòng nhập tên năm học, ngày bắt đầu và ngày kết thúc.');
+      return;
+    }
+    if (newYear.startDate > newYear.endDate) { alert('Ngày kết thúc phải sau ngày bắt đầu.'); return; }
+    const overlap = overlapsOtherYear(newYear);
+    if (overlap) { alert(`Năm học bị trùng thời gian với năm học ${overlap.name}.`); return; }
+    const error = validateSemesters(newYear, newSemesters);
+    if (error) { alert(error); return; }
+    addAcademicYear({ ...newYear, name: newYear.name.trim() }, newSemesters.map(s => ({ ...s, name: s.name.trim() })));
+    setNewYear(emptyYear());
+    setNewSemesters(defaultSemesters(startYear));
+  };
+
+  const handleSaveYear = () => {
+    if (!editingYearId) return;
+    if (!yearForm.name.trim() || !yearForm.startDate || !yearForm.endDate || yearForm.startDate > yearForm.endDate) {
+      alert('Thông tin năm học không hợp lệ.');
+      return;
+    }
+    const overlap = overlapsOtherYear(yearForm, editingYearId);
+    if (overlap) { alert(`Năm học bị trùng thời gian với năm học ${overlap.name}.`); return; }
+    const error = validateSemesters(yearForm, semestersOf(editingYearId));
+    if (error) { alert(error); return; }
+    updateAcademicYear(editingYearId, { ...yearForm, name: yearForm.name.trim() });
+    setEditingYearId(null);
+  };
+
+  const handleDeleteYear = (y: AcademicYear) => {
+    if (!confirm(`Xóa năm học ${y.name} và ${semestersOf(y.id).length} học kỳ? Lịch học không bị ảnh hưởng.`)) return;
+    deleteAcademicYear(y.id);
+  };
+
+  const handleSaveSemester = () => {
+    if (!semesterForm) return;
+    const year = academicYears.find(y => y.id === semesterForm.academicYearId);
+    if (!year) return;
+    const others = semestersOf(year.id).filter(s => s.id !== semesterForm.id);
+    const error = validateSemesters(year, [...others, semesterForm]);
+    if (error) { alert(error); return; }
+    const data = { name: semesterForm.name.trim(), startDate: semesterForm.startDate, endDate: semesterForm.endDate };
+    if (semesterForm.id) updateSemester(semesterForm.id, data);
+    else addSemester({ ...data, academicYearId: year.id });
+    setSemesterForm(null);
+  };
+
+  const handleDeleteSemester = (s: Semester) => {
+    if (!confirm(`Xóa ${s.name}?`)) return;
+    deleteSemester(s.id);
+  };
+
+  const updateNewSemester = (idx: number, patch: Partial<SemesterDraft>) => {
+    setNewSemesters(prev => prev.map((s, i) => i === idx ? { ...s, ...patch } : s));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded shadow space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+          <input placeholder="Năm học (VD: 2025-2026)" className="border p-2 rounded md:col-span-4" value={newYear.name} onChange={e => setNewYear({ ...newYear, name: e.target.value })} />
+          <div className="md:col-span-6 flex items-center gap-2">
+            <input type="date" className="border p-2 rounded flex-1" value={newYear.startDate} onChange={e => handleNewYearStart(e.target.value)} title="Ngày bắt đầu năm học" />
+            <span className="text-gray-400">-</span>
+            <input type="date" className="border p-2 rounded flex-1" value={newYear.endDate} onChange={e => setNewYear({ ...newYear, endDate: e.target.value })} title="Ngày kết thúc năm học" />
+          </div>
+          <button onClick={handleAddYear} className="bg-blue-600 text-white p-2 rounded flex justify-center items-center md:col-span-2">
+            <Plus size={18} className="mr-1" /> Thêm
+          </button>
+        </div>
+        <div className="space-y-2">
+          {newSemesters.map((s, idx) => (
+            <div key={idx} className="flex flex-wrap items-center gap-2 text-sm">
+              <input className="border p-1.5 rounded w-32" value={s.name} onChange={e => updateNewSemester(idx, { name: e.target.value })} />
+              <input type="date" className="border p-1.5 rounded" value={s.startDate} onChange={e => updateNewSemester(idx, { startDate: e.target.value })} />
+              <span className="text-gray-400">-</span>
+              <input type="date" className="border p-1.5 rounded" value={s.endDate} onChange={e => updateNewSemester(idx, { endDate: e.target.value })} />
+              <button onClick={() => setNewSemesters(prev => prev.filter((_, i) => i !== idx))} className="text-red-500" title="Bỏ học kỳ"><X size={16} /></button>
+            </div>
+          ))}
+          <button
+            onClick={() => setNewSemesters(prev => [...prev, { name: `Học kỳ ${prev.length + 1}`, startDate: '', endDate: '' }])}
+            className="text-sm text-blue-600 hover:underline flex items-center"
+          >
+            <Plus size={14} className="mr-1" /> Thêm học kỳ
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded shadow overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-gray-50 text-gray-600 text-sm">
+            <tr>
+              <th className="p-3">Năm học</th>
+              <th className="p-3">Thời gian</th>
+              <th className="p-3">Học kỳ</th>
+              <th className="p-3">Hành động</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...academicYears].sort((a, b) => b.startDate.localeCompare(a.startDate)).map(y => (
+              <tr key={y.id} className="border-t align-top">
+                {editingYearId === y.id ? (
+                  <>
+                    <td className="p-3"><input className="border p-1.5 rounded w-full" value={yearForm.name} onChange={e => setYearForm({ ...yearForm, name: e.target.value })} /></td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-1">
+                        <input type="date" className="border p-1.5 rounded" value={yearForm.startDate} onChange={e => setYearForm({ ...yearForm, startDate: e.target.value })} />
+                        <span className="text-gray-400">-</span>
+                        <input type="date" className="border p-1.5 rounded" value={yearForm.endDate} onChange={e => setYearForm({ ...yearForm, endDate: e.target.value })} />
+                      </div>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="p-3 font-medium">{y.name}</td>
+                    <td className="p-3 text-sm">{formatDate(y.startDate)} - {formatDate(y.endDate)}</td>
+                  </>
+                )}
+                <td className="p-3 text-sm space-y-1">
+                  {semestersOf(y.id).map(s => semesterForm?.id === s.id ? null : (
+                    <div key={s.id} className="flex items-center gap-2">
+                      <span className="font-medium">{s.name}:</span>
+                      <span>{formatDate(s.startDate)} - {formatDate(s.endDate)}</span>
+                      <button onClick={() => setSemesterForm({ ...s })} className="text-orange-500" title="Sửa học kỳ"><Edit2 size={14} /></button>
+                      <button onClick={() => handleDeleteSemester(s)} className="text-red-500" title="Xóa học kỳ"><Trash2 size={14} /></button>
+                    </div>
+                  ))}
+                  {semesterForm && semesterForm.academicYearId === y.id ? (
+                    <div className="flex flex-wrap items-center gap-1">
+                      <input className="border p-1 rounded w-28" value={semesterForm.name} onChange={e => setSemesterForm({ ...semesterForm, name: e.target.value })} />
+                      <input type="date" className="border p-1 rounded" value={semesterForm.startDate} onChange={e => setSemesterForm({ ...semesterForm, startDate: e.target.value })} />
+                      <span className="text-gray-400">-</span>
+                      <input type="date" className="border p-1 rounded" value={semesterForm.endDate} onChange={e => setSemesterForm({ ...semesterForm, endDate: e.target.value })} />
+                      <button onClick={handleSaveSemester} className="text-green-600" title="Lưu"><Save size={16} /></button>
+                      <button onClick={() => setSemesterForm(null)} className="text-gray-500" title="Hủy"><X size={16} /></button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setSemesterForm({ academicYearId: y.id, name: `Học kỳ ${semestersOf(y.id).length + 1}`, startDate: '', endDate: '' })}
+                      className="text-blue-600 hover:underline flex items-center"
+                    >
+                      <Plus size={14} className="mr-1" /> Thêm học kỳ
+                    </button>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div className="flex space-x-2">
+                    {editingYearId === y.id ? (
+                      <>
+                        <button onClick={handleSaveYear} className="text-green-600" title="Lưu"><Save size={18} /></button>
+                        <button onClick={() => setEditingYearId(null)} className="text-gray-500" title="Hủy"><X size={18} /></button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => { setEditingYearId(y.id); setYearForm({ name: y.name, startDate: y.startDate, endDate: y.endDate }); }} className="text-orange-500" title="Sửa"><Edit2 size={18} /></button>
+                        <button onClick={() => handleDeleteYear(y)} className="text-red-500" title="Xóa"><Trash2 size={18} /></button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {academicYears.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-8 text-center text-gray-400 italic">Chưa có năm học nào. Các màn hình thống kê đang tính trên toàn bộ thời gian.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SemesterManager;
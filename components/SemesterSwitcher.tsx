@@ -0,0 +1,30 @@
+import React from 'react';
+import { useApp } from '../store/AppContext';
+import { CalendarRange } from 'lucide-react';
+import { getSemesterLabel } from '../utils';
+
+// Global semester selection: lists, reports and exports are scoped to it
+const SemesterSwitcher: React.FC = () => {
+  const { semesters, academicYears, activeSemester, setActiveSemesterId } = useApp();
+
+  if (semesters.length === 0) return null;
+
+  const sorted = [...semesters].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <CalendarRange size={16} className="shrink-0 text-blue-600" />
+      <select
+        className="flex-1 min-w-0 border rounded p-1.5 bg-white outline-none focus:ring-2 focus:ring-blue-500"
+        value={activeSemester?.id || ''}
+        onChange={e => setActiveSemesterId(e.target.value)}
+        title="Học kỳ đang xem"
+      >
+        <option value="">Tất cả thời gian</option>
+        {sorted.map(s => <option key={s.id} value={s.id}>{getSemesterLabel(s, academicYears)}</option>)}
+      </select>
+    </label>
+  );
+};
+
+export default SemesterSwitcher;
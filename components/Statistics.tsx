@@ -1,61 +1,36 @@
 
 import React, { useMemo, useState } from 'react';
 import { useApp } from '../store/AppContext';
-import { ScheduleStatus, ScheduleItem } from '../types';
+import { ScheduleStatus } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import *as XLSX from 'xlsx';
-import { Download, AlertCircle, X } from 'lucide-react';
+import { Download, AlertCircle, X, CalendarPlus } from 'lucide-react';
 import { format } from 'date-fns';
-import { parseLocal, isSubjectFinished } from '../utils';
+import { parseLocal, isSubjectFinished, getSchedulesAmount, isInSemester, getSemesterLabel, getClassSubjects, getSubjectComponentProgress, getMakeupBalances, MissedSession, isTaughtSession } from '../utils';
 
-const Statistics: React.FC = () => {
-  const { teachers, schedules, subjects, classes } = useApp();
+interface StatisticsProps {
+  onScheduleMakeup?: (missedId: string) => void; // "Xếp bù": opens the schedule form pre-filled for the missed session
+}
+
+const Statistics: React.FC<StatisticsProps> = ({ onScheduleMakeup }) => {
+  const { teachers, schedules, subjects, classes, subjectProgress, rateRules, activeSemester, academicYears, curricula } = useApp();
   const [showAlert, setShowAlert] = useState(true);
 
-  // 1. Missed classes needing makeup
-  // Logic: Filter out if Subject is Finished OR if there are corresponding Makeup sessions
+  // 1. Missed classes needing makeup: periods of OFF sessions not yet covered by make-up sessions
+  // (period-accurate, see getMakeupBalances). Finished subjects raise no alert.
   const missedClasses = useMemo(() => {
-    const missedMap: Record<string, ScheduleItem[]> = {};
-    const makeupMap: Record<string, number> = {};
-    
-    // Group items
-    schedules.forEach(s => {
-        const key = `${s.subjectId}-${s.classId}`;
-        if (s.status === ScheduleStatus.OFF) {
-            if (!missedMap[key]) missedMap[key] = [];
-            missedMap[key].push(s);
-        }
-        if (s.status === ScheduleStatus.MAKEUP) {
-            makeupMap[key] = (makeupMap[key] || 0) + 1;
-        }
-    });
-
-    let results: ScheduleItem[] = [];
-
-    Object.keys(missedMap).forEach(key => {
-        const [subId, clsId] = key.split('-');
-        
-        const subject = subjects.find(s => s.id === subId);
+    const results: MissedSession[] = [];
+    getMakeupBalances(schedules).forEach(balance => {
+        if (balance.outstanding <= 0) return;
+        const subject = subjects.find(s => s.id === balance.subjectId);
         if (!subject) return;
-
-        // 1. If subject completed (use shared helper) -> No alert
-        if (isSubjectFinished(subject, clsId, schedules)) return;
-
-        // 2. If has makeup sessions -> Reduce alerts
-        // We assume makeup sessions cover the earliest missed classes first
-        const makeupsCount = makeupMap[key] || 0;
-        const missedItems = missedMap[key].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        
-        // If we have enough makeups to cover all missed, show nothing.
-        // Otherwise show the remaining earliest ones (or latest? usually earliest are the ones needing attention).
-        if (makeupsCount >= missedItems.length) return;
-
-        const remaining = missedItems.slice(makeupsCount);
-        results = [...results, ...remaining];
+        if (isSubjectFinished(subject, balance.classId, schedules, subjectProgress, classes.find(c => c.id === balance.classId)?.practiceGroups)) return;
+        results.push(...balance.sessions.filter(m => m.outstanding > 0 && isInSemester(m.item.date, activeSemester)));
     });
+    return results.sort((a, b) => a.item.date.localeCompare(b.item.date));
+  }, [schedules, subjects, classes, subjectProgress, activeSemester]);
 
-    return results;
-  }, [schedules, subjects]);
+  const missedPeriods = missedClasses.reduce((sum, m) => sum + m.outstanding, 0);
 
   // 2. Teacher Stats (Memoized)
   const teacherStats = useMemo(() => {
@@ -66,6 +41,7 @@ const Statistics: React.FC = () => {
         const allSchedules = schedules.filter(s => 
             s.teacherId === t.id && 
             s.status !== ScheduleStatus.OFF &&
+            isInSemester(s.date, activeSemester) &&
             (s.type === 'class' || (s.type === 'exam' && s.note?.toLowerCase().includes('thực hành')))
         ); 
 
@@ -74,28 +50,38 @@ const Statistics: React.FC = () => {
         const activeLoad = allSchedules.reduce((acc, s) => {
             const sub = subjects.find(sub => sub.id === s.subjectId);
             // If subject exists and is NOT finished, count it towards active load
-            if (sub && !isSubjectFinished(sub, s.classId, schedules)) {
+            if (sub && !isSubjectFinished(sub, s.classId, schedules, subjectProgress, classes.find(c => c.id === s.classId)?.practiceGroups)) {
                 return acc + s.periodCount;
             }
             return acc;
         }, 0);
 
         // Metric 2: Taught Load (For Excel / History)
-        // Sum of periods that are explicitly marked as COMPLETED (actually taught).
+        // Sum of periods actually taught (see isTaughtSession).
         const taughtLoad = allSchedules.reduce((acc, s) => {
-            if (s.status === ScheduleStatus.COMPLETED) {
+            if (isTaughtSession(s)) {
                 return acc + s.periodCount;
             }
             return acc;
         }, 0);
 
+        // Metric 3: Income of the taught sessions, each priced by the rate table as of its date
+        const taughtIncome = getSchedulesAmount(allSchedules.filter(isTaughtSession), teachers, rateRules);
+
+        // Metric 4: Periods of this teacher's missed sessions still owed to the classes
+        const unrecovered = missedClasses.filter(m => m.item.teacherId === t.id);
+
         return {
+          id: t.id,
           name: t.name,
           activePeriods: activeLoad,
-          taughtPeriods: taughtLoad
+          taughtPeriods: taughtLoad,
+          taughtIncome,
+          unrecoveredSessions: unrecovered.length,
+          unrecoveredPeriods: unrecovered.reduce((sum, m) => sum + m.outstanding, 0)
         };
       });
-  }, [teachers, schedules, subjects]);
+  }, [teachers, schedules, subjects, classes, subjectProgress, rateRules, activeSemester, missedClasses]);
 
   // Filter for Chart: Only show teachers currently teaching active subjects
   const chartData = teacherStats.filter(t => t.activePeriods > 0);
@@ -105,15 +91,9 @@ const Statistics: React.FC = () => {
     const results: any[] = [];
     
     classes.forEach(cls => {
-        const isH8 = cls.name.toUpperCase().includes('H8');
-        
-        // Subjects for this class: Major specific OR Common OR Culture (if not H8) OR Culture 8 (if H8)
-        const classSubjects = subjects.filter(s => {
-            if (s.majorId === 'common') return true;
-            if (s.majorId === 'culture') return !isH8;
-            if (s.majorId === 'culture_8') return isH8;
-            return s.majorId === cls.majorId;
-        });
+        if (cls.archived) return; // Archived classes keep their data in the archive store
+        // Subjects of the class curriculum (major, common and culture subjects when none is linked)
+        const classSubjects = getClassSubjects(cls, curricula, subjects);
         
         classSubjects.forEach(sub => {
              const relevantSchedules = schedules.filter(sch => 
@@ -122,18 +102,18 @@ const Statistics: React.FC = () => {
                 sch.status !== ScheduleStatus.OFF
             );
             
-            const learned = relevantSchedules.reduce((acc, curr) => acc + curr.periodCount, 0);
-            const remaining = Math.max(0, sub.totalPeriods - learned);
+            // Theory counted once, practice per group
+            const { learned, total, remaining } = getSubjectComponentProgress(sub, cls.id, schedules, cls.practiceGroups);
             
             // Filter: Only show subjects that are "currently learning"
-            // Condition: Learned > 0 (started) AND Remaining > 0 (not finished)
-            if (learned > 0 && remaining > 0) {
+            // Condition: Learned > 0 (started) AND Remaining > 0 (not finished), taught in the selected semester
+            if (learned > 0 && remaining > 0 && relevantSchedules.some(sch => isInSemester(sch.date, activeSemester))) {
                  results.push({
                      name: sub.name,
                      className: cls.name,
                      // Combine for unique label
                      fullName: `${sub.name} (${cls.name})`,
-                     total: sub.totalPeriods,
+                     total,
                      learned: learned,
                      remaining: remaining
                  });
@@ -142,7 +122,7 @@ const Statistics: React.FC = () => {
     });
     
     return results;
-  }, [subjects, schedules, classes]);
+  }, [subjects, schedules, classes, activeSemester, curricula]);
 
   const exportTeacherReport = () => {
      // Prepare data for all teachers (even those with 0 active periods)
@@ -150,16 +130,18 @@ const Statistics: React.FC = () => {
          'Họ và tên': t.name,
          'Số tiết đang dạy (Môn chưa kết thúc)': t.activePeriods,
          'Số tiết đã dạy (Thực tế đã hoàn thành)': t.taughtPeriods,
+         'Thù lao các tiết đã dạy (VNĐ)': t.taughtIncome,
+         'Số tiết nghỉ chưa dạy bù': t.unrecoveredPeriods,
      }));
     
     const ws = XLSX.utils.json_to_sheet(data);
     
     // Set column widths
-    ws['!cols'] = [{ wch: 25 }, { wch: 35 }, { wch: 35 }];
+    ws['!cols'] = [{ wch: 25 }, { wch: 35 }, { wch: 35 }, { wch: 30 }, { wch: 25 }];
 
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "ThongKeGiaoVien");
-    XLSX.writeFile(wb, "Thong_Ke_Tiet_Day_Giao_Vien.xlsx");
+    XLSX.writeFile(wb, activeSemester ? `Thong_Ke_Tiet_Day_Giao_Vien_${getSemesterLabel(activeSemester, academicYears)}.xlsx` : "Thong_Ke_Tiet_Day_Giao_Vien.xlsx");
   };
 
   // Dynamic height calculation
@@ -167,18 +149,29 @@ const Statistics: React.FC = () => {
 
   return (
     <div className="space-y-6">
-      <h1 className="text-2xl font-bold text-gray-800">Thống kê báo cáo</h1>
+      <h1 className="text-2xl font-bold text-gray-800">
+        Thống kê báo cáo
+        {activeSemester && <span className="ml-2 text-base font-normal text-gray-500">({getSemesterLabel(activeSemester, academicYears)})</span>}
+      </h1>
 
       {/* Quick Alert: Missed Classes */}
       {missedClasses.length > 0 && showAlert && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3 relative">
           <AlertCircle className="text-red-500 mt-1 flex-shrink-0" />
           <div className="flex-1">
-             <h3 className="font-bold text-red-700">Cần xếp lịch bù ({missedClasses.length} buổi)</h3>
-             <ul className="text-sm text-red-600 mt-1 list-disc pl-4">
-               {missedClasses.map(m => (
-                 <li key={m.id}>
-                    {m.date} - GV {teachers.find(t => t.id === m.teacherId)?.name} - Môn {subjects.find(s => s.id === m.subjectId)?.name} (Lớp {classes.find(c => c.id === m.classId)?.name})
+             <h3 className="font-bold text-red-700">Cần xếp lịch bù ({missedClasses.length} buổi, {missedPeriods} tiết)</h3>
+             <ul className="text-sm text-red-600 mt-1 space-y-1">
+               {missedClasses.map(({ item: m, outstanding }) => (
+                 <li key={m.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {format(parseLocal(m.date), 'dd/MM/yyyy')} - GV {teachers.find(t => t.id === m.teacherId)?.name} - Môn {subjects.find(s => s.id === m.subjectId)?.name} (Lớp {classes.find(c => c.id === m.classId)?.name}{m.group ? `, ${m.group}` : ''})
+                      <span className="ml-1 font-medium">- còn nợ {outstanding}/{m.periodCount} tiết</span>
+                    </span>
+                    {onScheduleMakeup && (
+                      <button onClick={() => onScheduleMakeup(m.id)} className="shrink-0 text-xs bg-white border border-red-200 text-red-700 px-2 py-1 rounded hover:bg-red-100 flex items-center">
+                        <CalendarPlus size={14} className="mr-1" /> Xếp bù
+                      </button>
+                    )}
                  </li>
                ))}
              </ul>
@@ -252,6 +245,31 @@ const Statistics: React.FC = () => {
            </div>
         </div>
       </div>
+
+      {/* Unrecovered periods per teacher */}
+      {missedPeriods > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow border">
+          <h3 className="font-bold text-gray-700 mb-4">Tiết nghỉ chưa dạy bù theo giáo viên</h3>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-gray-600 text-xs uppercase">
+              <tr>
+                <th className="p-2 text-left">Giáo viên</th>
+                <th className="p-2 text-right">Số buổi</th>
+                <th className="p-2 text-right">Số tiết chưa bù</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {teacherStats.filter(t => t.unrecoveredPeriods > 0).sort((a, b) => b.unrecoveredPeriods - a.unrecoveredPeriods).map(t => (
+                <tr key={t.id}>
+                  <td className="p-2 text-gray-800">{t.name}</td>
+                  <td className="p-2 text-right">{t.unrecoveredSessions}</td>
+                  <td className="p-2 text-right font-medium text-red-600">{t.unrecoveredPeriods}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
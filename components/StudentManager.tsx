@@ -1,26 +1,34 @@
 import React, { useState, useRef, useMemo } from 'react';
 import { useApp } from '../store/AppContext';
-import { Student } from '../types';
-import { Plus, Trash2, Edit2, Upload, Save, X, Filter, User, HelpCircle, FileSpreadsheet, ArrowUpDown, ArrowUp, ArrowDown, Search } from 'lucide-react';
+import { Student, StudentStatus, StudentStatusChange } from '../types';
+import { Plus, Trash2, Edit2, Upload, Save, X, Filter, User, HelpCircle, FileSpreadsheet, ArrowUpDown, ArrowUp, ArrowDown, Search, ClipboardCheck, AlertTriangle, ArrowRightLeft, History, RefreshCw } from 'lucide-react';
 import *as XLSX from 'xlsx';
 import ExcelJS from 'exceljs';
 import saveAs from 'file-saver';
 import { format } from 'date-fns';
-import { parseLocal, base64ToArrayBuffer } from '../utils';
+import { parseLocal, base64ToArrayBuffer, getAbsenceTotals, getAbsenceCeiling, isBarredFromExam, getClassHeadcount, isInSemester } from '../utils';
+import ImportWizard, { parseDateCell } from './ImportWizard';
+
+export const STATUS_TEXT: Record<StudentStatus, string> = { studying: 'Đang học', reserved: 'Bảo lưu', dropped: 'Nghỉ học' };
 
 const StudentManager: React.FC = () => {
-  const { classes, students, majors, templates, addStudent, updateStudent, deleteStudent, importStudents } = useApp();
-  const [selectedClassId, setSelectedClassId] = useState<string>(classes[0]?.id || '');
+  const { classes, students, majors, templates, subjects, schedules, attendance, activeSemester, addStudent, updateStudent, deleteStudent, importStudents, changeStudentStatus, transferStudent } = useApp();
+  const [selectedClassId, setSelectedClassId] = useState<string>((classes.find(c => !c.archived) || classes[0])?.id || '');
   
   const [showModal, setShowModal] = useState(false);
   const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Partial<Student>>({});
+
+  // Status change / class transfer dialog and history viewer
+  const [lifecycleForm, setLifecycleForm] = useState<{ student: Student; mode: 'status' | 'transfer'; date: string; toStatus: StudentStatus; toClassId: string; reason: string; decisionNumber: string } | null>(null);
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
   
   // Sorting state: 'asc' (A-Z), 'desc' (Z-A), or 'default' (insertion order)
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc' | 'default'>('default');
   const [searchTerm, setSearchTerm] = useState('');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
 
   // Filter students by selected class
   const filteredStudents = students.filter(s => {
@@ -34,6 +42,33 @@ const StudentManager: React.FC = () => {
   
   const currentClass = classes.find(c => c.id === selectedClassId);
 
+  // Attendance summary: subjects with class sessions in the selected class and semester
+  const [attendanceSubjectId, setAttendanceSubjectId] = useState('');
+  const classSubjects = useMemo(() => {
+      const ids = new Set(schedules.filter(s => s.classId === selectedClassId && s.type === 'class' && isInSemester(s.date, activeSemester)).map(s => s.subjectId));
+      return subjects.filter(s => ids.has(s.id));
+  }, [schedules, subjects, selectedClassId, activeSemester]);
+  const attendanceSubject = classSubjects.find(s => s.id === attendanceSubjectId) || classSubjects[0];
+
+  const absenceTotals = useMemo(() => attendanceSubject
+      ? getAbsenceTotals(attendanceSubject.id, selectedClassId, schedules, attendance)
+      : {},
+  [attendanceSubject, selectedClassId, schedules, attendance]);
+
+  // Students over the absence ceiling in any subject of the class
+  const barredStudents = useMemo(() => {
+      const result: { studentName: string; subjectName: string; absent: number; ceiling: number }[] = [];
+      classSubjects.forEach(sub => {
+          const totals = getAbsenceTotals(sub.id, selectedClassId, schedules, attendance);
+          students.filter(s => s.classId === selectedClassId).forEach(st => {
+              if (isBarredFromExam(totals[st.id], sub)) {
+                  result.push({ studentName: st.name, subjectName: sub.name, absent: totals[st.id].excused + totals[st.id].unexcused, ceiling: getAbsenceCeiling(sub) });
+              }
+          });
+      });
+      return result;
+  }, [classSubjects, selectedClassId, schedules, attendance, students]);
+
   // Sorting Logic
   const sortedStudents = useMemo(() => {
     if (sortOrder === 'default') return filteredStudents;
@@ -116,55 +151,12 @@ const StudentManager: React.FC = () => {
       fileInputRef.current?.click();
   };
 
+  // Opens the shared import wizard (column mapping + validation preview)
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-
     // Reset immediately to prevent input freezing
     e.target.value = '';
-
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-        try {
-            const bstr = evt.target?.result;
-            const wb = XLSX.read(bstr, { type: 'binary' });
-            const wsname = wb.SheetNames[0];
-            const ws = wb.Sheets[wsname];
-            const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-            
-            if (!data || data.length < 2) {
-                setTimeout(() => alert("File Excel rỗng hoặc không đúng định dạng!"), 100);
-                return;
-            }
-
-            // Remove header row
-            const rows = data.slice(1) as any[]; 
-            
-            // Map data to Student structure (Col 0: Code, Col 1: Name, Col 2: DOB, Col 3: POB, Col 4: Father, Col 5: Mother, Col 6: Phone)
-            const newStudents: Omit<Student, 'id'>[] = rows.map(row => ({
-                classId: selectedClassId,
-                studentCode: row[0] ? String(row[0]) : '',
-                name: row[1] || '',
-                dob: row[2] ? String(row[2]) : '',
-                pob: row[3] ? String(row[3]) : '',
-                fatherName: row[4] ? String(row[4]) : '',
-                motherName: row[5] ? String(row[5]) : '',
-                phone: row[6] ? String(row[6]) : '',
-                status: 'studying' as 'studying' | 'reserved' | 'dropped' // Default status for imported students
-            })).filter(s => s.name); // Filter empty rows
-
-            if (newStudents.length > 0) {
-                importStudents(newStudents);
-                setTimeout(() => alert(`Đã nhập thành công ${newStudents.length} học sinh.`), 100);
-            } else {
-                setTimeout(() => alert("Không tìm thấy dữ liệu hợp lệ trong file Excel."), 100);
-            }
-        } catch (error) {
-            console.error(error);
-            setTimeout(() => alert("Lỗi khi đọc file Excel. Vui lòng kiểm tra lại định dạng file."), 100);
-        }
-    };
-    reader.readAsBinaryString(file);
+    if (file) setImportFile(file);
   };
 
   const handleExportClassList = async () => {
@@ -186,7 +178,7 @@ const StudentManager: React.FC = () => {
             const replacements: Record<string, string> = {
                 '{className}': currentClass.name,
                 '{majorName}': currentMajor?.name || '',
-                '{studentCount}': String(currentClass.studentCount),
+                '{studentCount}': String(getClassHeadcount(currentClass, students)),
                 '{schoolYear}': currentClass.schoolYear,
             };
 
@@ -428,6 +420,49 @@ const StudentManager: React.FC = () => {
     }
   };
 
+  const openLifecycle = (student: Student, mode: 'status' | 'transfer') => {
+      setLifecycleForm({
+          student, mode,
+          date: format(new Date(), 'yyyy-MM-dd'),
+          toStatus: student.status || 'studying',
+          toClassId: classes.find(c => c.id !== student.classId)?.id || '',
+          reason: '', decisionNumber: ''
+      });
+  };
+
+  const handleSaveLifecycle = () => {
+      if (!lifecycleForm) return;
+      const { student, mode, date, toStatus, toClassId } = lifecycleForm;
+      const info = { date, reason: lifecycleForm.reason.trim() || undefined, decisionNumber: lifecycleForm.decisionNumber.trim() || undefined };
+      if (!date) {
+          alert("Vui lòng chọn ngày hiệu lực.");
+          return;
+      }
+      if (mode === 'status') {
+          if (toStatus === (student.status || 'studying')) {
+              alert("Trạng thái mới trùng với trạng thái hiện tại.");
+              return;
+          }
+          changeStudentStatus(student.id, { ...info, toStatus });
+      } else {
+          if (!toClassId || toClassId === student.classId) {
+              alert("Vui lòng chọn lớp chuyển đến khác lớp hiện tại.");
+              return;
+          }
+          transferStudent(student.id, toClassId, info);
+      }
+      setLifecycleForm(null);
+  };
+
+  const describeChange = (change: StudentStatusChange) => {
+      const className = (id?: string) => classes.find(c => c.id === id)?.name || '(đã xóa)';
+      if (!change.fromStatus) return `Nhập học${change.toClassId ? ` lớp ${className(change.toClassId)}` : ''}`;
+      const parts: string[] = [];
+      if (change.fromStatus !== change.toStatus) parts.push(`${STATUS_TEXT[change.fromStatus]} → ${STATUS_TEXT[change.toStatus]}`);
+      if (change.fromClassId && change.toClassId && change.fromClassId !== change.toClassId) parts.push(`Chuyển lớp ${className(change.fromClassId)} → ${className(change.toClassId)}`);
+      return parts.join('; ') || STATUS_TEXT[change.toStatus];
+  };
+
   const getStatusLabel = (status: string) => {
       switch(status) {
           case 'reserved': return <span className="px-2 py-1 rounded-full text-xs font-semibold bg-orange-100 text-orange-700">Bảo lưu</span>;
@@ -451,7 +486,7 @@ const StudentManager: React.FC = () => {
                     value={selectedClassId}
                     onChange={(e) => setSelectedClassId(e.target.value)}
                 >
-                    {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    {classes.filter(c => !c.archived || c.id === selectedClassId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                 </select>
             </div>
 
@@ -503,14 +538,14 @@ const StudentManager: React.FC = () => {
 
       <div className="bg-blue-50 text-blue-800 p-3 rounded text-xs flex items-center border border-blue-200">
          <HelpCircle size={16} className="mr-2" />
-         <span>Lưu ý file Excel nhập liệu: Dòng 1 là tiêu đề. Các cột theo thứ tự: <strong>Mã HS | Họ tên | Ngày sinh | Nơi sinh | Bố | Mẹ | Điện thoại</strong></span>
+         <span>Nhập Excel: các cột được nhận theo tiêu đề (có thể chọn lại khi nhập): <strong>Mã HS | Họ tên | Ngày sinh | Nơi sinh | Bố | Mẹ | Điện thoại | Trạng thái</strong></span>
       </div>
 
       {/* Student List */}
       <div className="bg-white rounded-xl shadow overflow-hidden">
         <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
             <h2 className="font-bold text-gray-700">Danh sách lớp: {currentClass?.name}</h2>
-            <span className="text-sm text-gray-500">Sĩ số: {sortedStudents.length} / {currentClass?.studentCount}</span>
+            <span className="text-sm text-gray-500">Sĩ số: {students.filter(s => s.classId === selectedClassId && (s.status || 'studying') === 'studying').length} đang học / {students.filter(s => s.classId === selectedClassId).length} hồ sơ</span>
         </div>
         <div className="overflow-x-auto">
             <table className="w-full text-left text-sm">
@@ -574,6 +609,15 @@ const StudentManager: React.FC = () => {
                                         <button onClick={() => handleOpenEdit(s)} className="p-1 text-orange-500 hover:bg-orange-100 rounded" title="Sửa">
                                             <Edit2 size={16} />
                                         </button>
+                                        <button onClick={() => openLifecycle(s, 'status')} className="p-1 text-green-600 hover:bg-green-100 rounded" title="Đổi trạng thái">
+                                            <RefreshCw size={16} />
+                                        </button>
+                                        <button onClick={() => openLifecycle(s, 'transfer')} className="p-1 text-blue-600 hover:bg-blue-100 rounded" title="Chuyển lớp">
+                                            <ArrowRightLeft size={16} />
+                                        </button>
+                                        <button onClick={() => setHistoryStudent(s)} className="p-1 text-gray-600 hover:bg-gray-200 rounded" title="Lịch sử trạng thái">
+                                            <History size={16} />
+                                        </button>
                                         <button onClick={() => deleteStudent(s.id)} className="p-1 text-red-500 hover:bg-red-100 rounded" title="Xóa">
                                             <Trash2 size={16} />
                                         </button>
@@ -587,6 +631,67 @@ const StudentManager: React.FC = () => {
         </div>
       </div>
 
+      {/* Attendance Summary */}
+      <div className="bg-white rounded-xl shadow overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex flex-col md:flex-row justify-between md:items-center gap-3">
+            <h2 className="font-bold text-gray-700 flex items-center gap-2"><ClipboardCheck size={18} className="text-blue-600" /> Chuyên cần theo môn học</h2>
+            {classSubjects.length > 0 && (
+                <select className="border p-2 rounded text-sm" value={attendanceSubject?.id || ''} onChange={e => setAttendanceSubjectId(e.target.value)}>
+                    {classSubjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+            )}
+        </div>
+
+        {barredStudents.length > 0 && (
+            <div className="m-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                <div className="font-bold flex items-center gap-1 mb-1"><AlertTriangle size={16} /> Vượt quá số tiết vắng cho phép (không đủ điều kiện dự thi)</div>
+                <ul className="list-disc pl-5">
+                    {barredStudents.map((b, idx) => (
+                        <li key={idx}>{b.studentName} - {b.subjectName}: vắng {b.absent}/{b.ceiling} tiết</li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
+        {attendanceSubject ? (
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-100 text-gray-600">
+                        <tr>
+                            <th className="p-3 border-b">Mã HS</th>
+                            <th className="p-3 border-b">Họ tên</th>
+                            <th className="p-3 border-b text-right">Vắng có phép (tiết)</th>
+                            <th className="p-3 border-b text-right">Vắng không phép (tiết)</th>
+                            <th className="p-3 border-b text-right">Đi trễ (lần)</th>
+                            <th className="p-3 border-b text-right">Tổng vắng / Cho phép</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                        {sortedStudents.map(s => {
+                            const total = absenceTotals[s.id] || { excused: 0, unexcused: 0, late: 0 };
+                            const barred = isBarredFromExam(total, attendanceSubject);
+                            return (
+                                <tr key={s.id} className={barred ? 'bg-red-50' : ''}>
+                                    <td className="p-3 text-blue-600">{s.studentCode}</td>
+                                    <td className="p-3 font-medium">{s.name}</td>
+                                    <td className="p-3 text-right">{total.excused}</td>
+                                    <td className="p-3 text-right">{total.unexcused}</td>
+                                    <td className="p-3 text-right">{total.late}</td>
+                                    <td className={`p-3 text-right ${barred ? 'text-red-600 font-bold' : ''}`}>
+                                        {total.excused + total.unexcused}/{getAbsenceCeiling(attendanceSubject)}
+                                        {barred && <span className="ml-2 text-xs bg-red-100 px-1.5 py-0.5 rounded">Cấm thi</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        ) : (
+            <div className="p-8 text-center text-gray-400 italic">Lớp chưa có lịch học nào để điểm danh.</div>
+        )}
+      </div>
+
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -667,9 +772,11 @@ const StudentManager: React.FC = () => {
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">Trạng thái</label>
                             <select 
-                                className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                                className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white disabled:bg-gray-100"
                                 value={formData.status || 'studying'}
-                                onChange={e => setFormData({...formData, status: e.target.value as any})}
+                                disabled={!!editingStudentId}
+                                title={editingStudentId ? 'Dùng nút "Đổi trạng thái" để ghi nhận ngày, lý do và số quyết định' : undefined}
+                                onChange={e => setFormData({...formData, status: e.target.value as StudentStatus})}
                             >
                                 <option value="studying">Đang học</option>
                                 <option value="reserved">Bảo lưu</option>
@@ -688,6 +795,149 @@ const StudentManager: React.FC = () => {
             </div>
         </div>
       )}
+
+      {importFile && (
+        <ImportWizard<Omit<Student, 'id'>>
+          file={importFile}
+          target="students"
+          title={`Học sinh lớp ${currentClass?.name || ''}`}
+          fields={[
+            { key: 'studentCode', label: 'Mã HS', aliases: ['MSSV', 'Mã số', 'Mã học sinh'] },
+            { key: 'name', label: 'Họ tên', required: true, aliases: ['Họ và tên'] },
+            { key: 'dob', label: 'Ngày sinh', parse: parseDateCell },
+            { key: 'pob', label: 'Nơi sinh' },
+            { key: 'fatherName', label: 'Bố', aliases: ['Họ tên bố', 'Họ tên Bố'] },
+            { key: 'motherName', label: 'Mẹ', aliases: ['Họ tên mẹ', 'Họ tên Mẹ'] },
+            { key: 'phone', label: 'Điện thoại', aliases: ['SĐT', 'Số điện thoại'] },
+            { key: 'status', label: 'Trạng thái', parse: raw => {
+                const text = String(raw).trim().toLowerCase();
+                const status = (Object.keys(STATUS_TEXT) as StudentStatus[]).find(st => STATUS_TEXT[st].toLowerCase() === text);
+                return status ? { value: status } : { error: 'Chỉ nhận Đang học / Bảo lưu / Nghỉ học' };
+            } },
+          ]}
+          build={v => ({
+              classId: selectedClassId,
+              studentCode: v.studentCode || '',
+              name: v.name,
+              dob: v.dob || '',
+              pob: v.pob || '',
+              fatherName: v.fatherName || '',
+              motherName: v.motherName || '',
+              phone: v.phone || '',
+              status: v.status || 'studying'
+          })}
+          // Student codes are unique across classes; a code already used in another class is a transfer, not an import
+          validateRow={v => {
+              const code = String(v.studentCode || '').trim().toUpperCase();
+              const other = code && students.find(s => s.studentCode.trim().toUpperCase() === code && s.classId !== selectedClassId);
+              return other ? { studentCode: `Mã HS thuộc lớp ${classes.find(c => c.id === other.classId)?.name || '?'} (dùng chức năng Chuyển lớp)` } : {};
+          }}
+          naturalKey={s => s.studentCode.trim().toUpperCase()}
+          existing={students.filter(s => s.classId === selectedClassId)}
+          onImport={(created, updated) => { importStudents(created, updated); return `Học sinh: ${created.length} thêm mới, ${updated.length} cập nhật.`; }}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+
+      {/* Status change / transfer */}
+      {lifecycleForm && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+                <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                        {lifecycleForm.mode === 'status' ? <RefreshCw size={20} className="text-green-600" /> : <ArrowRightLeft size={20} className="text-blue-600" />}
+                        {lifecycleForm.mode === 'status' ? 'Đổi trạng thái' : 'Chuyển lớp'}: {lifecycleForm.student.name}
+                    </h3>
+                    <button onClick={() => setLifecycleForm(null)} className="text-gray-400 hover:text-red-500">
+                        <X size={24} />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <div className="text-sm text-gray-600">
+                        Hiện tại: {getStatusLabel(lifecycleForm.student.status || 'studying')} - Lớp {classes.find(c => c.id === lifecycleForm.student.classId)?.name}
+                    </div>
+                    {lifecycleForm.mode === 'status' ? (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Trạng thái mới</label>
+                            <select className="w-full border p-2 rounded bg-white" value={lifecycleForm.toStatus} onChange={e => setLifecycleForm({ ...lifecycleForm, toStatus: e.target.value as StudentStatus })}>
+                                {(Object.keys(STATUS_TEXT) as StudentStatus[]).map(st => <option key={st} value={st}>{STATUS_TEXT[st]}</option>)}
+                            </select>
+                        </div>
+                    ) : (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Chuyển đến lớp</label>
+                            <select className="w-full border p-2 rounded bg-white" value={lifecycleForm.toClassId} onChange={e => setLifecycleForm({ ...lifecycleForm, toClassId: e.target.value })}>
+                                <option value="">-- Chọn lớp --</option>
+                                {classes.filter(c => c.id !== lifecycleForm.student.classId && !c.archived).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Ngày hiệu lực</label>
+                            <input type="date" className="w-full border p-2 rounded" value={lifecycleForm.date} onChange={e => setLifecycleForm({ ...lifecycleForm, date: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Số quyết định</label>
+                            <input className="w-full border p-2 rounded" value={lifecycleForm.decisionNumber} onChange={e => setLifecycleForm({ ...lifecycleForm, decisionNumber: e.target.value })} placeholder="VD: 123/QĐ-TCCN" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Lý do</label>
+                        <input className="w-full border p-2 rounded" value={lifecycleForm.reason} onChange={e => setLifecycleForm({ ...lifecycleForm, reason: e.target.value })} />
+                    </div>
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+                    <button onClick={() => setLifecycleForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Hủy</button>
+                    <button onClick={handleSaveLifecycle} className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center gap-2">
+                        <Save size={18} /> Xác nhận
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* Status history */}
+      {historyStudent && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="p-4 border-b bg-gray-50 flex justify-between items-center shrink-0">
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                        <History size={20} className="text-blue-600" /> Lịch sử trạng thái: {historyStudent.name} ({historyStudent.studentCode})
+                    </h3>
+                    <button onClick={() => setHistoryStudent(null)} className="text-gray-400 hover:text-red-500">
+                        <X size={24} />
+                    </button>
+                </div>
+                <div className="overflow-y-auto">
+                    {(historyStudent.statusHistory || []).length === 0 ? (
+                        <div className="p-8 text-center text-gray-400 italic">Chưa có lịch sử thay đổi (dữ liệu nhập trước khi có chức năng này).</div>
+                    ) : (
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-gray-100 text-gray-600">
+                                <tr>
+                                    <th className="p-3 border-b">Ngày</th>
+                                    <th className="p-3 border-b">Thay đổi</th>
+                                    <th className="p-3 border-b">Lý do</th>
+                                    <th className="p-3 border-b">Số QĐ</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y">
+                                {[...(historyStudent.statusHistory || [])].reverse().map(h => (
+                                    <tr key={h.id}>
+                                        <td className="p-3 whitespace-nowrap">{format(parseLocal(h.date), 'dd/MM/yyyy')}</td>
+                                        <td className="p-3">{describeChange(h)}</td>
+                                        <td className="p-3 text-gray-600">{h.reason || ''}</td>
+                                        <td className="p-3 text-gray-600">{h.decisionNumber || ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -4,10 +4,11 @@ import { useApp } from '../store/AppContext';
 import { AppState } from '../types';
 import { Download, Upload, RefreshCcw, FileJson, Settings, FileSpreadsheet, Trash2, FileQuestion, FileText } from 'lucide-react';
 import { format } from 'date-fns';
+import { SCHEMA_VERSION } from '../store/migrations';
 
 const SystemManager: React.FC = () => {
   const { 
-    teachers, subjects, majors, classes, schedules, students, documents, templates, holidays,
+    teachers, subjects, majors, classes, schedules, students, documents, templates, holidays, rooms, subjectProgress, payments, paymentBatches, rateRules, attendance, grades, importMappings, classArchives, academicYears, semesters, curricula,
     loadData, resetData, addTemplate, deleteTemplate
   } = useApp();
   
@@ -15,25 +16,18 @@ const SystemManager: React.FC = () => {
   const templatePaymentInputRef = useRef<HTMLInputElement>(null);
   const templateStudentInputRef = useRef<HTMLInputElement>(null);
   const templateInvitationInputRef = useRef<HTMLInputElement>(null);
+  const templateGradeInputRef = useRef<HTMLInputElement>(null);
 
-  // Backup Handler (Enhanced to include metadata)
+  // Backup Handler (progress/payment state is part of the core data since schema 3)
   const handleBackup = () => {
-      // 1. Core State
-      const coreData: AppState = { teachers, subjects, majors, classes, schedules, students, documents, templates, holidays };
-      
-      // 2. Metadata (Local Storage side-data)
-      const metaData = {
-          progress: JSON.parse(localStorage.getItem('subject_progress_metadata') || '{}'),
-          paid: JSON.parse(localStorage.getItem('paid_completed_subjects') || '[]'),
-          manual: JSON.parse(localStorage.getItem('manual_completed_subjects') || '[]')
-      };
+      const coreData: AppState = { teachers, subjects, majors, classes, schedules, students, documents, templates, holidays, rooms, subjectProgress, payments, paymentBatches, rateRules, attendance, grades, importMappings, classArchives, academicYears, semesters, curricula };
 
       const backupPackage = {
-          version: "1.1",
+          version: "1.2",
+          schemaVersion: SCHEMA_VERSION, // Shape of `data`, used to migrate on restore
           type: "full_backup",
           timestamp: new Date().toISOString(),
-          data: coreData,
-          meta: metaData
+          data: coreData
       };
 
       const json = JSON.stringify(backupPackage, null, 2);
@@ -63,16 +57,10 @@ const SystemManager: React.FC = () => {
 
               // Check if it's new format (v1.1+) or old format
               if (parsed.type === "full_backup" && parsed.data) {
-                  // New Format: Restore Core Data
-                  loadData(parsed.data);
-                  
-                  // Restore Metadata
-                  if (parsed.meta) {
-                      if (parsed.meta.progress) localStorage.setItem('subject_progress_metadata', JSON.stringify(parsed.meta.progress));
-                      if (parsed.meta.paid) localStorage.setItem('paid_completed_subjects', JSON.stringify(parsed.meta.paid));
-                      if (parsed.meta.manual) localStorage.setItem('manual_completed_subjects', JSON.stringify(parsed.meta.manual));
-                  }
-                  
+                  // New Format: Restore Core Data.
+                  // v1.1 backups keep progress/payment flags in a separate `meta` section, converted by the migration.
+                  loadData(parsed.meta ? { ...parsed.data, meta: parsed.meta } : parsed.data, parsed.schemaVersion);
+
                   alert("Khôi phục toàn bộ dữ liệu hệ thống thành công!");
               } else {
                   // Legacy Format (Just AppState)
@@ -102,7 +90,7 @@ const SystemManager: React.FC = () => {
       }
   };
 
-  const handleTemplateUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'payment_excel' | 'student_list_excel' | 'invitation_word') => {
+  const handleTemplateUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'payment_excel' | 'student_list_excel' | 'grade_sheet_excel' | 'invitation_word') => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -127,6 +115,7 @@ const SystemManager: React.FC = () => {
         if (templatePaymentInputRef.current) templatePaymentInputRef.current.value = '';
         if (templateStudentInputRef.current) templateStudentInputRef.current.value = '';
         if (templateInvitationInputRef.current) templateInvitationInputRef.current.value = '';
+        if (templateGradeInputRef.current) templateGradeInputRef.current.value = '';
         
         alert(`Đã thêm mẫu thành công!`);
     };
@@ -134,7 +123,7 @@ const SystemManager: React.FC = () => {
   };
 
   // Generate and download instruction file
-  const handleDownloadGuide = (type: 'payment' | 'student' | 'invitation') => {
+  const handleDownloadGuide = (type: 'payment' | 'student' | 'grade' | 'invitation') => {
       let content = "";
       let filename = "";
 
@@ -143,6 +132,7 @@ const SystemManager: React.FC = () => {
           content = `HƯỚNG DẪN CÁC BIẾN MẪU EXCEL (THANH TOÁN GIẢNG DẠY)
 -------------------------------------------------------
 Cách dùng: Nhập tên biến (bao gồm cả dấu ngoặc nhọn) vào ô Excel bất kỳ. Hệ thống sẽ tự động thay thế bằng dữ liệu thực tế.
+Môn học có nhiều giáo viên dạy sẽ được xuất thành nhiều phiếu, mỗi giáo viên một phiếu.
 
 1. THÔNG TIN CHUNG (Thay thế giá trị đơn):
    {teacherName}        : Tên giáo viên
@@ -153,7 +143,9 @@ Cách dùng: Nhập tên biến (bao gồm cả dấu ngoặc nhọn) vào ô Ex
    {subjectName}        : Tên môn học
    {className}          : Tên lớp
    {totalPeriods}       : Tổng số tiết theo chương trình
-   {actualTotalPeriods} : Tổng số tiết thực tế đã dạy
+   {actualTotalPeriods} : Tổng số tiết thực tế giáo viên này đã dạy
+   {ratePerPeriod}      : Đơn giá/tiết bình quân (theo bảng đơn giá)
+   {totalAmount}        : Thành tiền (mỗi buổi tính theo đơn giá tại ngày dạy)
    {fromDate}           : Ngày bắt đầu dạy
    {toDate}             : Ngày kết thúc dạy
 
@@ -164,6 +156,8 @@ Cách dùng: Nhập tên biến (bao gồm cả dấu ngoặc nhọn) vào ô Ex
    {periods}            : Số tiết dạy của buổi đó
    {type}               : Nội dung (Học / Thi)
    {note}               : Ghi chú
+   {rate}               : Đơn giá/tiết của buổi đó (theo bảng đơn giá)
+   {amount}             : Thành tiền của buổi đó
 `;
       } else if (type === 'student') {
           filename = "Huong_dan_bien_Excel_Danh_sach_lop.txt";
@@ -186,6 +180,28 @@ Cách dùng: Nhập tên biến (bao gồm cả dấu ngoặc nhọn) vào ô Ex
    {dob}                : Ngày sinh
    {pob}                : Nơi sinh
    {phone}              : Số điện thoại
+`;
+      } else if (type === 'grade') {
+          filename = "Huong_dan_bien_Excel_Bang_diem.txt";
+          content = `HƯỚNG DẪN CÁC BIẾN MẪU EXCEL (BẢNG ĐIỂM MÔN HỌC)
+-------------------------------------------------------
+Cách dùng: Nhập tên biến (bao gồm cả dấu ngoặc nhọn) vào ô Excel bất kỳ.
+
+1. THÔNG TIN CHUNG:
+   {className}          : Tên lớp
+   {subjectName}        : Tên môn học
+   {schoolYear}         : Niên khóa
+
+2. DANH SÁCH ĐIỂM (Đặt trên 1 hàng để tạo bảng):
+   {stt}                : Số thứ tự
+   {studentCode}        : Mã số sinh viên
+   {firstName}          : Tên
+   {lastName}           : Họ và tên đệm
+   {fullName}           : Họ và tên đầy đủ
+   {score1}, {score2}...: Điểm các thành phần theo thứ tự cấu hình của môn học
+   {reExamScore}        : Điểm thi lại
+   {finalScore}         : Điểm tổng kết (có tính điểm thi lại)
+   {result}             : Kết quả (Đạt / Thi lại / Không đạt...)
 `;
       } else {
           filename = "Huong_dan_bien_Word_Thu_moi.txt";
@@ -199,7 +215,7 @@ Cách dùng: Copy các biến bên dưới (bao gồm cả dấu ngoặc nhọn)
    {subjectName}        : Tên môn học
    {className}          : Lớp dạy
    {totalPeriods}       : Tổng số tiết
-   {rate}               : Thù lao tiết dạy (đã định dạng tiền tệ)
+   {rate}               : Thù lao tiết dạy theo bảng đơn giá (đã định dạng tiền tệ; hiển thị khoảng nếu đơn giá thay đổi)
 
 2. THỜI GIAN & ĐỊA ĐIỂM:
    {dates}              : Thời gian dạy (VD: Từ ngày 01/01/2024 đến ngày 30/01/2024)
@@ -453,6 +469,59 @@ Cách dùng: Copy các biến bên dưới (bao gồm cả dấu ngoặc nhọn)
                 </div>
             </div>
         </div>
+        <div className="bg-white p-6 rounded shadow border border-gray-200">
+             <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+                <FileSpreadsheet className="mr-2 text-green-600" /> Quản lý mẫu Bảng điểm (Excel)
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div>
+                     <p className="text-sm text-gray-600 mb-3">
+                         Tải lên các file Excel (.xlsx) mẫu để sử dụng khi xuất bảng điểm môn học.
+                     </p>
+                     <input 
+                        type="file" 
+                        accept=".xlsx" 
+                        ref={templateGradeInputRef} 
+                        className="hidden" 
+                        onChange={(e) => handleTemplateUpload(e, 'grade_sheet_excel')} 
+                    />
+                     <div className="flex flex-wrap gap-2 mb-4">
+                        <button 
+                            onClick={() => templateGradeInputRef.current?.click()}
+                            className="bg-green-600 text-white px-4 py-2 rounded shadow hover:bg-green-700 flex items-center text-sm"
+                        >
+                            <Upload className="mr-2" size={16} /> Tải mẫu mới (.xlsx)
+                        </button>
+                        <button 
+                            onClick={() => handleDownloadGuide('grade')}
+                            className="bg-white text-green-700 border border-green-300 px-4 py-2 rounded shadow-sm hover:bg-green-50 flex items-center text-sm"
+                        >
+                            <FileQuestion className="mr-2" size={16} /> Tải hướng dẫn biến mẫu
+                        </button>
+                    </div>
+                </div>
+
+                <div className="border rounded bg-gray-50 p-4">
+                    <h4 className="font-bold text-gray-700 mb-2 text-sm">Danh sách mẫu Excel hiện có:</h4>
+                    {templates.filter(t => t.type === 'grade_sheet_excel').length === 0 ? (
+                        <p className="text-gray-400 italic text-sm">Chưa có mẫu nào.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {templates.filter(t => t.type === 'grade_sheet_excel').map(t => (
+                                <li key={t.id} className="flex justify-between items-center bg-white p-2 rounded border text-sm">
+                                    <span className="flex items-center text-gray-700">
+                                        <FileSpreadsheet size={16} className="text-green-500 mr-2"/> {t.name}
+                                    </span>
+                                    <button onClick={() => deleteTemplate(t.id)} className="text-red-500 hover:text-red-700 p-1">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
     </div>
   );
 };
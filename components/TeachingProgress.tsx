@@ -1,32 +1,14 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useApp } from '../store/AppContext';
-import { ScheduleStatus } from '../types';
+import { ScheduleStatus, SubjectProgressRecord } from '../types';
 import { Filter, BookOpen, User, Edit2, Save, X, Calendar, Clock, Users } from 'lucide-react';
-import { parseLocal } from '../utils';
+import { parseLocal, getSubjectProgress, getSemesterLabel, getClassSubjects, getSubjectComponentProgress, getProgrammeSemesterNo } from '../utils';
 import { isSameDay, startOfDay, format } from 'date-fns';
 
-// Interface for local metadata storage
-interface SubjectMetadata {
-    statusOverride?: 'upcoming' | 'completed' | 'in-progress' | 'auto';
-    customStartDate?: string; // YYYY-MM-DD
-    customEndDate?: string;   // YYYY-MM-DD
-    customExamDate?: string;  // YYYY-MM-DD
-}
-
 const TeachingProgress: React.FC = () => {
-  const { classes, subjects, schedules, teachers, updateSubject } = useApp();
-  const [selectedClassId, setSelectedClassId] = useState<string>(classes[0]?.id || '');
-
-  // NEW: State for Subject Metadata (Persisted in localStorage) replaces simple manualCompleted
-  const [progressMetadata, setProgressMetadata] = useState<Record<string, SubjectMetadata>>(() => {
-    try {
-      const saved = localStorage.getItem('subject_progress_metadata');
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  });
+  const { classes, subjects, schedules, teachers, subjectProgress, activeSemester, semesters, academicYears, curricula, updateSubject, updateSubjectProgress, runBatch } = useApp();
+  const [selectedClassId, setSelectedClassId] = useState<string>((classes.find(c => !c.archived) || classes[0])?.id || '');
 
   // Modal State
   const [editingItem, setEditingItem] = useState<{
@@ -39,12 +21,6 @@ const TeachingProgress: React.FC = () => {
       selectedTeacherId: string; // NEW
   } | null>(null);
 
-  const saveMetadata = (key: string, data: SubjectMetadata) => {
-      const newMeta = { ...progressMetadata, [key]: data };
-      setProgressMetadata(newMeta);
-      localStorage.setItem('subject_progress_metadata', JSON.stringify(newMeta));
-  };
-
   const handleEditClick = (subject: any) => {
       // Convert display dates back to input format (YYYY-MM-DD) if possible, or keep empty
       const toInputDate = (dateStr: string) => {
@@ -79,28 +55,26 @@ const TeachingProgress: React.FC = () => {
           }
       }
 
-      const key = `${editingItem.subjectId}-${selectedClassId}`;
-      
-      let statusOverride: SubjectMetadata['statusOverride'] = 'auto';
+      let statusOverride: SubjectProgressRecord['statusOverride'] = 'auto';
       if (editingItem.status === 'completed') statusOverride = 'completed';
       else if (editingItem.status === 'upcoming') statusOverride = 'upcoming';
       else if (editingItem.status === 'in-progress') statusOverride = 'in-progress';
 
-      const metadata: SubjectMetadata = {
-          statusOverride: statusOverride,
-          customStartDate: editingItem.startDate || undefined,
-          customEndDate: editingItem.endDate || undefined,
-          customExamDate: editingItem.examDate || undefined
-      };
-
-      // 1. Save Metadata
-      saveMetadata(key, metadata);
+      runBatch(() => {
+          // 1. Save progress override / custom dates
+          updateSubjectProgress(editingItem.subjectId, selectedClassId, {
+              statusOverride: statusOverride,
+              customStartDate: editingItem.startDate || undefined,
+              customEndDate: editingItem.endDate || undefined,
+              customExamDate: editingItem.examDate || undefined
+          });
 
-      // 2. Save Teacher Assignment (Update Subject)
-      const selectedTeacher = teachers.find(t => t.id === editingItem.selectedTeacherId);
-      updateSubject(editingItem.subjectId, {
-          teacher1: selectedTeacher ? selectedTeacher.name : '',
-          phone1: selectedTeacher ? selectedTeacher.phone : ''
+          // 2. Save Teacher Assignment (Update Subject)
+          const selectedTeacher = teachers.find(t => t.id === editingItem.selectedTeacherId);
+          updateSubject(editingItem.subjectId, {
+              teacher1: selectedTeacher ? selectedTeacher.name : '',
+              phone1: selectedTeacher ? selectedTeacher.phone : ''
+          });
       });
 
       setEditingItem(null);
@@ -109,25 +83,37 @@ const TeachingProgress: React.FC = () => {
   const currentClass = classes.find(c => c.id === selectedClassId);
   const today = startOfDay(new Date());
 
+  // Subject taught (scheduled or with manual dates) during the selected semester.
+  // Subjects without any date yet follow the planned semester of the class curriculum,
+  // or are listed while the semester is not over when there is no plan.
+  const isInActiveSemester = (subjectId: string) => {
+    if (!activeSemester) return true;
+    const meta = getSubjectProgress(subjectProgress, subjectId, selectedClassId);
+    const dates = schedules
+      .filter(sch => sch.subjectId === subjectId && sch.classId === selectedClassId && sch.status !== ScheduleStatus.OFF)
+      .map(sch => sch.date);
+    [meta?.customStartDate, meta?.customEndDate, meta?.customExamDate].forEach(d => { if (d) dates.push(d); });
+    if (dates.length === 0) {
+      const curriculum = curricula.find(c => c.id === currentClass?.curriculumId);
+      const plannedNo = curriculum?.subjects.find(cs => cs.subjectId === subjectId)?.semesterNo;
+      const currentNo = curriculum ? getProgrammeSemesterNo(curriculum, activeSemester, semesters, academicYears) : null;
+      if (plannedNo && currentNo) return plannedNo === currentNo;
+      return activeSemester.endDate >= format(new Date(), 'yyyy-MM-dd');
+    }
+    dates.sort();
+    return dates[0] <= activeSemester.endDate && dates[dates.length - 1] >= activeSemester.startDate;
+  };
+
   // Calculate progress for all subjects in the selected class
   const progressData = useMemo(() => {
     if (!currentClass) return [];
     
-    const isH8 = currentClass.name.toUpperCase().includes('H8');
-
-    // 1. Filter relevant subjects
-    // Includes: Major specific, Common, Culture (unless H8), and Culture 8 (if H8)
-    const classSubjects = subjects.filter(s => {
-        if (s.majorId === 'common') return true;
-        if (s.majorId === 'culture') return !isH8;
-        if (s.majorId === 'culture_8') return isH8; // H8 classes get Culture 8
-        return s.majorId === currentClass.majorId;
-    });
+    // 1. Subjects of the class curriculum (major, common and culture subjects when none is linked)
+    const classSubjects = getClassSubjects(currentClass, curricula, subjects).filter(s => isInActiveSemester(s.id));
 
     // 2. Calculate stats per subject
     return classSubjects.map(sub => {
-      const uniqueKey = `${sub.id}-${selectedClassId}`;
-      const metadata = progressMetadata[uniqueKey] || {};
+      const metadata: Partial<SubjectProgressRecord> = getSubjectProgress(subjectProgress, sub.id, selectedClassId) || {};
 
       const relevantSchedules = schedules.filter(sch => 
         sch.subjectId === sub.id && 
@@ -174,7 +160,7 @@ const TeachingProgress: React.FC = () => {
           return {
               ...sub,
               learnedPeriods: 0,
-              groupBreakdown: [],
+              components: [],
               percentage: 0,
               status: 'upcoming', // Always Upcoming/Sắp học
               startDate,
@@ -184,52 +170,13 @@ const TeachingProgress: React.FC = () => {
           };
       }
 
-      // --- GROUP LOGIC (Standard) ---
-      // Identify distinct groups (e.g. "Nhóm 1", "Nhóm 2")
-      const uniqueGroups = Array.from(new Set(classSchedules.map(s => s.group).filter((g): g is string => !!g && g !== ''))) as string[];
-      
-      let groupBreakdown: { name: string, learned: number, percentage: number }[] = [];
-      let totalLearnedForStandard = 0; // Fallback if no groups
-      let isAutoCompleted = false;
-
-      if (uniqueGroups.length > 0) {
-          // Logic: Subject has groups. 
-          // Progress of Group X = (Common/Theory Periods) + (Group X Practice Periods)
-          
-          // 1. Calculate Common (Theory) periods - those without a group
-          const commonSchedules = classSchedules.filter(s => !s.group);
-          const commonRealized = commonSchedules.reduce((acc, curr) => parseLocal(curr.date) <= today ? acc + curr.periodCount : acc, 0);
-
-          // 2. Calculate per group
-          groupBreakdown = uniqueGroups.sort().map(gName => {
-               const gSchedules = classSchedules.filter(s => s.group === gName);
-               const gRealized = gSchedules.reduce((acc, curr) => parseLocal(curr.date) <= today ? acc + curr.periodCount : acc, 0);
-               const totalForGroup = commonRealized + gRealized;
-               
-               return {
-                   name: gName,
-                   learned: totalForGroup,
-                   percentage: Math.min(100, Math.round((totalForGroup / sub.totalPeriods) * 100))
-               };
-          });
-
-          // Auto Complete only if ALL groups are finished
-          isAutoCompleted = groupBreakdown.every(g => g.percentage >= 100);
-
-          // For sorting/display, use the MIN percentage as the "Subject Percentage" to be conservative
-          totalLearnedForStandard = Math.min(...groupBreakdown.map(g => g.learned)); 
-      } else {
-          // Standard Logic (No groups)
-          totalLearnedForStandard = classSchedules.reduce((acc, curr) => {
-              const sDate = parseLocal(curr.date);
-              if (sDate <= today) return acc + curr.periodCount;
-              return acc;
-          }, 0);
-          isAutoCompleted = totalLearnedForStandard >= sub.totalPeriods;
-      }
-
-      const totalPeriods = sub.totalPeriods;
-      const percentage = Math.min(100, Math.round((totalLearnedForStandard / totalPeriods) * 100));
+      // --- PROGRESS (sessions up to today): theory once, practice per group ---
+      const progress = getSubjectComponentProgress(sub, selectedClassId, schedules, currentClass.practiceGroups, today);
+      const components = [
+          { name: 'Lý thuyết', ...progress.theory },
+          ...progress.practice.map(p => ({ name: p.group ? `Thực hành ${p.group}` : 'Thực hành', ...p }))
+      ].filter(c => c.total > 0);
+      const isAutoCompleted = progress.finished;
 
       // --- STATUS CALCULATION ---
       const hasScheduleToday = relevantSchedules.some(s => isSameDay(parseLocal(s.date), today));
@@ -249,9 +196,10 @@ const TeachingProgress: React.FC = () => {
 
       return {
         ...sub,
-        learnedPeriods: totalLearnedForStandard, // Represents conservative progress
-        groupBreakdown, // NEW: Detailed group stats
-        percentage, 
+        learnedPeriods: progress.learned,
+        totalPeriods: progress.total, // Theory once + practice per group
+        components, // Theory and practice (per group) bars
+        percentage: progress.percentage,
         status,
         startDate,
         endDate,
@@ -263,7 +211,7 @@ const TeachingProgress: React.FC = () => {
         const order = { 'in-progress': 1, 'upcoming': 2, 'completed': 3 };
         return order[a.status] - order[b.status];
     });
-  }, [subjects, schedules, classes, selectedClassId, currentClass, today, progressMetadata]);
+  }, [subjects, schedules, classes, selectedClassId, currentClass, today, subjectProgress, activeSemester, semesters, academicYears, curricula]);
 
   // Summary Counts
   const summary = {
@@ -300,7 +248,10 @@ const TeachingProgress: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-        <h1 className="text-2xl font-bold text-gray-800">Tiến độ giảng dạy</h1>
+        <h1 className="text-2xl font-bold text-gray-800">
+          Tiến độ giảng dạy
+          {activeSemester && <span className="ml-2 text-base font-normal text-gray-500">({getSemesterLabel(activeSemester, academicYears)})</span>}
+        </h1>
         
         <div className="flex items-center gap-3 bg-white p-2 rounded shadow-sm border">
             <Filter size={20} className="text-blue-600" />
@@ -310,7 +261,7 @@ const TeachingProgress: React.FC = () => {
                 value={selectedClassId}
                 onChange={(e) => setSelectedClassId(e.target.value)}
             >
-                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                {classes.filter(c => !c.archived || c.id === selectedClassId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
             </select>
         </div>
       </div>
@@ -390,17 +341,17 @@ const TeachingProgress: React.FC = () => {
 
                      {/* Column 3: Progress Bar (3 cols) */}
                      <div className="md:col-span-3 w-full px-2">
-                        {/* Check if we have group breakdown */}
-                        {subject.groupBreakdown && subject.groupBreakdown.length > 0 ? (
+                        {/* Subjects with practice: one bar per component */}
+                        {subject.components && subject.components.length > 1 ? (
                             <div className="space-y-2">
                                 <div className="text-[10px] font-bold text-blue-600 uppercase flex items-center mb-1">
-                                    <Users size={10} className="mr-1" /> Tiến độ theo nhóm
+                                    <Users size={10} className="mr-1" /> {subject.learnedPeriods}/{subject.totalPeriods} tiết ({subject.percentage}%)
                                 </div>
-                                {subject.groupBreakdown.map(gb => (
+                                {subject.components.map(gb => (
                                     <div key={gb.name}>
                                         <div className="flex justify-between text-[10px] mb-0.5">
                                             <span className="font-semibold text-gray-600">{gb.name}</span>
-                                            <span className="text-gray-500">{gb.learned}/{subject.totalPeriods} ({gb.percentage}%)</span>
+                                            <span className="text-gray-500">{gb.learned}/{gb.total} ({gb.percentage}%)</span>
                                         </div>
                                         <div className="w-full bg-gray-200 rounded-full h-1.5">
                                             <div className={`h-1.5 rounded-full ${getProgressBarColor(subject.status)}`} style={{width: `${gb.percentage}%`}}></div>
@@ -447,7 +398,7 @@ const TeachingProgress: React.FC = () => {
 
              {progressData.length === 0 && (
                 <div className="p-8 text-center text-gray-400 italic">
-                    Chưa có môn học nào thuộc ngành của lớp này (hoặc lớp thuộc hệ H8 không có môn văn hóa).
+                    Chưa có môn học nào trong chương trình đào tạo của lớp này.
                 </div>
              )}
           </div>
@@ -503,7 +454,7 @@ const TeachingProgress: React.FC = () => {
                             onChange={(e) => setEditingItem({...editingItem, selectedTeacherId: e.target.value})}
                         >
                             <option value="">-- Chưa phân công --</option>
-                            {teachers.map(t => (
+                            {teachers.filter(t => !t.archived || t.id === editingItem.selectedTeacherId).map(t => (
                                 <option key={t.id} value={t.id}>{t.name}</option>
                             ))}
                         </select>
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useApp } from '../store/AppContext';
+import { ScheduleItem } from '../types';
+import ExcelJS from 'exceljs';
+import saveAs from 'file-saver';
+import { Calculator, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { format, endOfMonth } from 'date-fns';
+import { parseLocal, isPayableSession, isTaughtSession, getScheduleRate, getSemesterLabel } from '../utils';
+
+type PeriodMode = 'month' | 'semester' | 'range';
+
+interface ReportLine {
+  classId: string;
+  subjectId: string;
+  className: string;
+  subjectName: string;
+  sessions: ScheduleItem[];
+  periods: number;
+  amount: number;
+}
+
+interface TeacherReport {
+  teacherId: string;
+  teacherName: string;
+  periods: number;
+  amount: number;
+  lines: ReportLine[]; // Grouped by class then subject
+}
+
+// Used while no Semester is defined: HK1 = 08/year - 01/year+1, HK2 = 02 - 07/year+1
+const getSemesterRange = (year: number, semester: 1 | 2) => semester === 1
+  ? { from: `${year}-08-01`, to: `${year + 1}-01-31` }
+  : { from: `${year + 1}-02-01`, to: `${year + 1}-07-31` };
+
+const WorkloadReport: React.FC = () => {
+  const { teachers, schedules, subjects, classes, rateRules, semesters, academicYears, activeSemester } = useApp();
+
+  const today = new Date();
+  const [mode, setMode] = useState<PeriodMode>(activeSemester ? 'semester' : 'month');
+  const [semesterId, setSemesterId] = useState(activeSemester?.id || '');
+  const [month, setMonth] = useState(format(today, 'yyyy-MM'));
+  const [schoolYear, setSchoolYear] = useState(today.getMonth() >= 7 ? today.getFullYear() : today.getFullYear() - 1);
+  const [semester, setSemester] = useState<1 | 2>(today.getMonth() >= 7 || today.getMonth() === 0 ? 1 : 2);
+  const [rangeFrom, setRangeFrom] = useState(format(today, 'yyyy-MM-01'));
+  const [rangeTo, setRangeTo] = useState(format(today, 'yyyy-MM-dd'));
+  const [expandedTeacherIds, setExpandedTeacherIds] = useState<string[]>([]);
+
+  // Follow the global semester switcher
+  useEffect(() => {
+      if (activeSemester) setSemesterId(activeSemester.id);
+  }, [activeSemester?.id]);
+
+  const { from, to, periodLabel } = useMemo(() => {
+      if (mode === 'month') {
+          const start = parseLocal(`${month}-01`);
+          return { from: `${month}-01`, to: format(endOfMonth(start), 'yyyy-MM-dd'), periodLabel: `Tháng ${format(start, 'MM/yyyy')}` };
+      }
+      if (mode === 'semester' && semesters.length > 0) {
+          const selected = semesters.find(s => s.id === semesterId);
+          return selected
+              ? { from: selected.startDate, to: selected.endDate, periodLabel: getSemesterLabel(selected, academicYears) }
+              : { from: '', to: '', periodLabel: 'Chưa chọn học kỳ' };
+      }
+      if (mode === 'semester') {
+          return { ...getSemesterRange(schoolYear, semester), periodLabel: `Học kỳ ${semester} năm học ${schoolYear}-${schoolYear + 1}` };
+      }
+      return {
+          from: rangeFrom,
+          to: rangeTo,
+          periodLabel: `Từ ngày ${rangeFrom ? format(parseLocal(rangeFrom), 'dd/MM/yyyy') : '...'} đến ngày ${rangeTo ? format(parseLocal(rangeTo), 'dd/MM/yyyy') : '...'}`
+      };
+  }, [mode, month, schoolYear, semester, semesterId, semesters, academicYears, rangeFrom, rangeTo]);
+
+  // Taught sessions in the period, aggregated teacher -> class -> subject
+  const report = useMemo(() => {
+      if (!from || !to) return [];
+
+      const taught = schedules
+          .filter(s => s.date >= from && s.date <= to && isPayableSession(s) && isTaughtSession(s))
+          .sort((a, b) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod);
+
+      const byTeacher: Record<string, TeacherReport> = {};
+      taught.forEach(s => {
+          if (!byTeacher[s.teacherId]) {
+              byTeacher[s.teacherId] = {
+                  teacherId: s.teacherId,
+                  teacherName: teachers.find(t => t.id === s.teacherId)?.name || 'GV đã xóa',
+                  periods: 0,
+                  amount: 0,
+                  lines: []
+              };
+          }
+          const teacherReport = byTeacher[s.teacherId];
+          let line = teacherReport.lines.find(l => l.classId === s.classId && l.subjectId === s.subjectId);
+          if (!line) {
+              line = {
+                  classId: s.classId,
+                  subjectId: s.subjectId,
+                  className: classes.find(c => c.id === s.classId)?.name || 'Lớp đã xóa',
+                  subjectName: subjects.find(sub => sub.id === s.subjectId)?.name || 'Môn đã xóa',
+                  sessions: [],
+                  periods: 0,
+                  amount: 0
+              };
+              teacherReport.lines.push(line);
+          }
+          const amount = s.periodCount * getScheduleRate(s, teachers, rateRules);
+          line.sessions.push(s);
+          line.periods += s.periodCount;
+          line.amount += amount;
+          teacherReport.periods += s.periodCount;
+          teacherReport.amount += amount;
+      });
+
+      return Object.values(byTeacher)
+          .map(t => ({
+              ...t,
+              lines: t.lines.sort((a, b) => a.className.localeCompare(b.className, 'vi') || a.subjectName.localeCompare(b.subjectName, 'vi'))
+          }))
+          .sort((a, b) => a.teacherName.localeCompare(b.teacherName, 'vi'));
+  }, [schedules, teachers, subjects, classes, rateRules, from, to]);
+
+  const totalPeriods = report.reduce((sum, t) => sum + t.periods, 0);
+  const totalAmount = report.reduce((sum, t) => sum + t.amount, 0);
+
+  const toggleTeacher = (id: string) => {
+      setExpandedTeacherIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+      if (report.length === 0) {
+          alert("Không có tiết dạy nào trong khoảng thời gian đã chọn.");
+          return;
+      }
+
+      const workbook = new ExcelJS.Workbook();
+      const borderStyle: Partial<ExcelJS.Borders> = { top: { style: 'thin' }, left: { style: 'thin' }, bottom: { style: 'thin' }, right: { style: 'thin' } };
+      const moneyFormat = '#,##0';
+
+      const addTitle = (ws: ExcelJS.Worksheet, title: string, lastCol: string) => {
+          const titleRow = ws.addRow([title]);
+          ws.mergeCells(`A${titleRow.number}:${lastCol}${titleRow.number}`);
+          titleRow.font = { name: 'Arial', size: 14, bold: true };
+          titleRow.alignment = { horizontal: 'center', vertical: 'middle' };
+          titleRow.height = 28;
+          const subRow = ws.addRow([periodLabel]);
+          ws.mergeCells(`A${subRow.number}:${lastCol}${subRow.number}`);
+          subRow.font = { name: 'Arial', italic: true };
+          subRow.alignment = { horizontal: 'center' };
+          ws.addRow([]);
+      };
+
+      const styleHeader = (row: ExcelJS.Row) => {
+          row.font = { name: 'Arial', size: 10, bold: true };
+          row.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+          row.height = 24;
+          row.eachCell(cell => {
+              cell.border = borderStyle;
+              cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFDDEBF7' } };
+          });
+      };
+
+      const styleBody = (row: ExcelJS.Row, moneyCols: number[]) => {
+          row.eachCell({ includeEmpty: true }, cell => { cell.border = borderStyle; });
+          moneyCols.forEach(c => { row.getCell(c).numFmt = moneyFormat; });
+      };
+
+      const styleTotal = (row: ExcelJS.Row, moneyCols: number[]) => {
+          styleBody(row, moneyCols);
+          row.font = { bold: true };
+      };
+
+      // 1. Summary sheet
+      const summary = workbook.addWorksheet('Tổng hợp');
+      summary.columns = [{ width: 6 }, { width: 28 }, { width: 14 }, { width: 12 }, { width: 18 }, { width: 14 }, { width: 20 }];
+      addTitle(summary, 'BẢNG TỔNG HỢP GIỜ GIẢNG VÀ THÙ LAO GIÁO VIÊN', 'G');
+      styleHeader(summary.addRow(['STT', 'Họ và tên', 'Loại GV', 'Số tiết', 'Thành tiền (VNĐ)', 'Ngân hàng', 'Số tài khoản']));
+      report.forEach((t, idx) => {
+          const teacher = teachers.find(x => x.id === t.teacherId);
+          const row = summary.addRow([idx + 1, t.teacherName, teacher?.category || '', t.periods, t.amount, teacher?.bank || '', teacher?.accountNumber || '']);
+          styleBody(row, [5]);
+      });
+      styleTotal(summary.addRow(['', 'TỔNG CỘNG', '', totalPeriods, totalAmount, '', '']), [5]);
+
+      // 2. One sheet per teacher: class/subject totals then session detail
+      const usedNames = new Set<string>(['Tổng hợp']);
+      report.forEach(t => {
+          // Sheet names: max 31 chars, no []:*?/\ and unique
+          const baseName = t.teacherName.replace(/[\[\]:*?/\\]/g, '').slice(0, 28) || 'GV';
+          let sheetName = baseName;
+          for (let i = 2; usedNames.has(sheetName); i++) sheetName = `${baseName} ${i}`;
+          usedNames.add(sheetName);
+
+          const ws = workbook.addWorksheet(sheetName);
+          ws.columns = [{ width: 6 }, { width: 14 }, { width: 18 }, { width: 32 }, { width: 10 }, { width: 10 }, { width: 14 }, { width: 18 }];
+          addTitle(ws, `BẢNG KÊ GIỜ GIẢNG - ${t.teacherName.toUpperCase()}`, 'H');
+
+          styleHeader(ws.addRow(['STT', '', 'Lớp', 'Môn học', 'Số buổi', 'Số tiết', 'Đơn giá BQ', 'Thành tiền (VNĐ)']));
+          t.lines.forEach((l, idx) => {
+              const row = ws.addRow([idx + 1, '', l.className, l.subjectName, l.sessions.length, l.periods, Math.round(l.amount / l.periods), l.amount]);
+              styleBody(row, [7, 8]);
+          });
+          styleTotal(ws.addRow(['', '', 'TỔNG CỘNG', '', t.lines.reduce((sum, l) => sum + l.sessions.length, 0), t.periods, '', t.amount]), [8]);
+
+          ws.addRow([]);
+          const detailTitle = ws.addRow(['CHI TIẾT CÁC BUỔI DẠY']);
+          detailTitle.font = { bold: true };
+          styleHeader(ws.addRow(['STT', 'Ngày', 'Lớp', 'Môn học', 'Buổi', 'Số tiết', 'Đơn giá', 'Thành tiền (VNĐ)']));
+          let stt = 1;
+          t.lines.forEach(l => l.sessions.forEach(s => {
+              const rate = getScheduleRate(s, teachers, rateRules);
+              const row = ws.addRow([stt++, format(parseLocal(s.date), 'dd/MM/yyyy'), l.className, l.subjectName + (s.type === 'exam' ? ' (Thi)' : ''), s.session, s.periodCount, rate, rate * s.periodCount]);
+              styleBody(row, [7, 8]);
+          }));
+      });
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      saveAs(blob, `Bao_Cao_Thu_Lao_${from}_${to}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-800 flex items-center">
+        <Calculator className="mr-3 text-blue-600" /> Báo cáo giờ giảng & thù lao
+      </h1>
+
+      <div className="bg-white p-4 rounded-xl shadow border border-gray-200 flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex rounded border overflow-hidden">
+              {([['month', 'Theo tháng'], ['semester', 'Theo học kỳ'], ['range', 'Khoảng ngày']] as [PeriodMode, string][]).map(([m, label]) => (
+                  <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-3 py-2 ${mode === m ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                  >
+                      {label}
+                  </button>
+              ))}
+          </div>
+
+          {mode === 'month' && (
+              <input type="month" className="border rounded p-2" value={month} onChange={e => setMonth(e.target.value)} />
+          )}
+          {mode === 'semester' && semesters.length > 0 && (
+              <select className="border rounded p-2" value={semesterId} onChange={e => setSemesterId(e.target.value)}>
+                  <option value="">-- Chọn học kỳ --</option>
+                  {[...semesters].sort((a, b) => b.startDate.localeCompare(a.startDate)).map(s => (
+                      <option key={s.id} value={s.id}>{getSemesterLabel(s, academicYears)}</option>
+                  ))}
+              </select>
+          )}
+          {mode === 'semester' && semesters.length === 0 && (
+              <>
+                  <select className="border rounded p-2" value={semester} onChange={e => setSemester(Number(e.target.value) as 1 | 2)}>
+                      <option value={1}>Học kỳ 1</option>
+                      <option value={2}>Học kỳ 2</option>
+                  </select>
+                  <select className="border rounded p-2" value={schoolYear} onChange={e => setSchoolYear(Number(e.target.value))}>
+                      {Array.from({ length: 6 }, (_, i) => today.getFullYear() - 4 + i).map(y => (
+                          <option key={y} value={y}>Năm học {y}-{y + 1}</option>
+                      ))}
+                  </select>
+              </>
+          )}
+          {mode === 'range' && (
+              <>
+                  <input type="date" className="border rounded p-2" value={rangeFrom} onChange={e => setRangeFrom(e.target.value)} />
+                  <span className="text-gray-400">-</span>
+                  <input type="date" className="border rounded p-2" value={rangeTo} onChange={e => setRangeTo(e.target.value)} />
+              </>
+          )}
+
+          <span className="text-gray-500 italic">{periodLabel}</span>
+
+          <button onClick={handleExport} className="ml-auto bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded flex items-center font-medium">
+              <Download size={16} className="mr-2" /> Xuất Excel
+          </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+          <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 border-b text-gray-600">
+                  <tr>
+                      <th className="p-3 w-10"></th>
+                      <th className="p-3">Giáo viên / Lớp / Môn học</th>
+                      <th className="p-3 text-right">Số buổi</th>
+                      <th className="p-3 text-right">Số tiết</th>
+                      <th className="p-3 text-right">Đơn giá BQ</th>
+                      <th className="p-3 text-right">Thành tiền</th>
+                  </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                  {report.map(t => {
+                      const isExpanded = expandedTeacherIds.includes(t.teacherId);
+                      return (
+                          <React.Fragment key={t.teacherId}>
+                              <tr className="hover:bg-gray-50 cursor-pointer font-medium" onClick={() => toggleTeacher(t.teacherId)}>
+                                  <td className="p-3 text-gray-400">{isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}</td>
+                                  <td className="p-3 text-gray-800">{t.teacherName}</td>
+                                  <td className="p-3 text-right">{t.lines.reduce((sum, l) => sum + l.sessions.length, 0)}</td>
+                                  <td className="p-3 text-right">{t.periods}</td>
+                                  <td className="p-3 text-right"></td>
+                                  <td className="p-3 text-right text-blue-700">{t.amount.toLocaleString()}</td>
+                              </tr>
+                              {isExpanded && t.lines.map(l => (
+                                  <tr key={`${l.classId}-${l.subjectId}`} className="bg-gray-50/50 text-gray-600">
+                                      <td></td>
+                                      <td className="p-2 pl-8">Lớp {l.className} - {l.subjectName}</td>
+                                      <td className="p-2 text-right">{l.sessions.length}</td>
+                                      <td className="p-2 text-right">{l.periods}</td>
+                                      <td className="p-2 text-right">{Math.round(l.amount / l.periods).toLocaleString()}</td>
+                                      <td className="p-2 text-right">{l.amount.toLocaleString()}</td>
+                                  </tr>
+                              ))}
+                          </React.Fragment>
+                      );
+                  })}
+                  {report.length === 0 && (
+                      <tr>
+                          <td colSpan={6} className="p-8 text-center text-gray-400 italic">Không có tiết dạy nào đã hoàn thành trong khoảng thời gian này.</td>
+                      </tr>
+                  )}
+              </tbody>
+              {report.length > 0 && (
+                  <tfoot className="bg-gray-50 border-t font-bold">
+                      <tr>
+                          <td></td>
+                          <td className="p-3">Tổng cộng ({report.length} giáo viên)</td>
+                          <td></td>
+                          <td className="p-3 text-right">{totalPeriods}</td>
+                          <td></td>
+                          <td className="p-3 text-right text-blue-700">{totalAmount.toLocaleString()}</td>
+                      </tr>
+                  </tfoot>
+              )}
+          </table>
+      </div>
+      <p className="text-xs text-gray-500 italic">
+          * Chỉ tính các buổi học và thi thực hành đã hoàn thành (kể cả buổi bổ sung đã diễn ra); mỗi buổi tính theo bảng đơn giá tại ngày dạy.
+      </p>
+    </div>
+  );
+};
+
+export default WorkloadReport;
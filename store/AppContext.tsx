@@ -1,28 +1,33 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Teacher, Subject, ClassEntity, ScheduleItem, Major, ScheduleStatus, Student, AppState, DocumentItem, ExportTemplate, Holiday } from '../types';
-import { generateId } from '../utils';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { Teacher, Subject, ClassEntity, ScheduleItem, Major, ScheduleStatus, Student, AppState, DocumentItem, ExportTemplate, Holiday, Room, SubjectProgressRecord, PaymentRecord, PaymentBatch, RateRule, AttendanceEntry, GradeRecord, StudentStatusChange, ImportMapping, ImportUpdate, DeleteKind, DeleteStrategy, AcademicYear, Semester, Curriculum } from '../types';
+import { format } from 'date-fns';
+import { generateId, isFullyPaid, getDeleteImpact, DeleteImpact, isTaughtSession, DELETE_REF_FIELD, archiveClassData, restoreClassData, getCurrentSemester } from '../utils';
+import { SCHEMA_VERSION, migrateData, readLegacyProgressMeta, clearLegacyProgressMeta } from './migrations';
+import { loadPersistedState, saveState, LEGACY_STORAGE_KEY } from './db';
 
 interface AppContextType extends AppState {
   addTeacher: (t: Omit<Teacher, 'id'>) => void;
   updateTeacher: (id: string, t: Partial<Teacher>) => void;
   deleteTeacher: (id: string) => void;
-  importTeachers: (teachers: Omit<Teacher, 'id'>[]) => void;
+  importTeachers: (teachers: Omit<Teacher, 'id'>[], updates?: ImportUpdate<Teacher>[]) => void;
   addSubject: (s: Omit<Subject, 'id'>) => void;
   updateSubject: (id: string, s: Partial<Subject>) => void;
   deleteSubject: (id: string) => void;
-  importSubjects: (subjects: Omit<Subject, 'id'>[]) => void;
-  addSchedule: (s: Omit<ScheduleItem, 'id' | 'status'>) => void;
+  importSubjects: (subjects: Omit<Subject, 'id'>[], updates?: ImportUpdate<Subject>[]) => void;
+  addSchedule: (s: Omit<ScheduleItem, 'id' | 'status'> & { status?: ScheduleStatus }) => void;
   updateSchedule: (id: string, s: Partial<ScheduleItem>) => void;
   deleteSchedule: (id: string) => void;
   addClass: (c: Omit<ClassEntity, 'id'>) => void;
   updateClass: (id: string, c: Partial<ClassEntity>) => void;
   deleteClass: (id: string) => void;
-  importClasses: (classes: Omit<ClassEntity, 'id'>[]) => void;
+  importClasses: (classes: Omit<ClassEntity, 'id'>[], updates?: ImportUpdate<ClassEntity>[]) => void;
   addStudent: (s: Omit<Student, 'id'>) => void;
   updateStudent: (id: string, s: Partial<Student>) => void;
   deleteStudent: (id: string) => void;
-  importStudents: (students: Omit<Student, 'id'>[]) => void;
+  importStudents: (students: Omit<Student, 'id'>[], updates?: ImportUpdate<Student>[]) => void;
+  changeStudentStatus: (id: string, change: Omit<StudentStatusChange, 'id' | 'fromStatus' | 'fromClassId' | 'toClassId'>) => void;
+  transferStudent: (id: string, toClassId: string, info: Pick<StudentStatusChange, 'date' | 'reason' | 'decisionNumber'>) => void;
   addDocument: (d: Omit<DocumentItem, 'id'>) => void;
   deleteDocument: (id: string) => void;
   addTemplate: (t: Omit<ExportTemplate, 'id'>) => void;
@@ -30,8 +35,45 @@ interface AppContextType extends AppState {
   addHoliday: (h: Omit<Holiday, 'id'>) => void;
   updateHoliday: (id: string, h: Partial<Holiday>) => void;
   deleteHoliday: (id: string) => void;
-  loadData: (data: AppState) => void;
+  addAcademicYear: (y: Omit<AcademicYear, 'id'>, semesters: Omit<Semester, 'id' | 'academicYearId'>[]) => void;
+  updateAcademicYear: (id: string, y: Partial<AcademicYear>) => void;
+  deleteAcademicYear: (id: string) => void;
+  addSemester: (s: Omit<Semester, 'id'>) => void;
+  updateSemester: (id: string, s: Partial<Semester>) => void;
+  deleteSemester: (id: string) => void;
+  // Semester the list/report screens are scoped to (undefined = all time). UI state: not saved or undone.
+  activeSemester?: Semester;
+  setActiveSemesterId: (id: string) => void;
+  addCurriculum: (c: Omit<Curriculum, 'id'>) => void;
+  updateCurriculum: (id: string, c: Partial<Curriculum>) => void;
+  deleteCurriculum: (id: string) => void;
+  addRoom: (r: Omit<Room, 'id'>) => void;
+  updateRoom: (id: string, r: Partial<Room>) => void;
+  deleteRoom: (id: string) => void;
+  importRooms: (rooms: Omit<Room, 'id'>[], updates?: ImportUpdate<Room>[]) => void;
+  updateSubjectProgress: (subjectId: string, classId: string, data: Partial<Omit<SubjectProgressRecord, 'id' | 'subjectId' | 'classId'>>) => void;
+  addPayment: (p: Omit<PaymentRecord, 'id'>) => void;
+  reversePayment: (id: string, reason: string) => void;
+  createPaymentBatch: (b: Omit<PaymentBatch, 'id' | 'createdAt'>, paymentIds: string[]) => void;
+  deletePaymentBatch: (id: string) => void;
+  addRateRule: (r: Omit<RateRule, 'id'>) => void;
+  updateRateRule: (id: string, r: Partial<RateRule>) => void;
+  deleteRateRule: (id: string) => void;
+  saveAttendance: (scheduleId: string, entries: AttendanceEntry[]) => void;
+  saveGrades: (subjectId: string, classId: string, rows: Omit<GradeRecord, 'id' | 'subjectId' | 'classId'>[]) => void;
+  scheduleReExam: (subjectId: string, classId: string, studentIds: string[], exam: Omit<ScheduleItem, 'id' | 'status'>) => void;
+  saveImportMapping: (m: Omit<ImportMapping, 'id'>) => void;
+  resolveDelete: (kind: DeleteKind, id: string, strategy: DeleteStrategy) => void;
+  restoreArchived: (kind: DeleteKind, id: string) => void;
+  archiveClasses: (classIds: string[], note?: string) => void;
+  loadData: (data: AppState, schemaVersion?: number) => void;
   resetData: () => void;
+  // Undo/redo history
+  undoStack: HistoryEntry[]; // Oldest first
+  redoStack: HistoryEntry[]; // Next redo first
+  undo: () => void;
+  redo: () => void;
+  runBatch: (fn: () => void, label?: string) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -45,20 +87,20 @@ const INITIAL_DATA: AppState = {
   subjects: [
     { id: '1', name: 'Đo lường và TBĐ', majorId: '2', totalPeriods: 30 }, 
     { id: '2', name: 'Lập trình C++', majorId: '4', totalPeriods: 45 },
-    { id: '3', name: 'Nguyên lý kế toán', majorId: '1', totalPeriods: 60 },
-    { id: '4', name: 'Khí cụ điện', majorId: '2', totalPeriods: 45 },
+    { id: '3', name: 'Nguyên lý kế toán', majorId: '1', totalPeriods: 60, practicePeriods: 15 },
+    { id: '4', name: 'Khí cụ điện', majorId: '2', totalPeriods: 45, practicePeriods: 15 },
     { id: '5', name: 'Mạch điện tử', majorId: '3', totalPeriods: 60 },
     // Môn chung
     { id: '6', name: 'Giáo dục chính trị', majorId: 'common', totalPeriods: 30, isShared: true },
     { id: '7', name: 'Tiếng Anh cơ bản', majorId: 'common', totalPeriods: 45, isShared: true },
-    { id: '8', name: 'Giáo dục thể chất', majorId: 'common', totalPeriods: 30, isShared: true },
+    { id: '8', name: 'Giáo dục thể chất', majorId: 'common', totalPeriods: 30, practicePeriods: 30, isShared: true },
     // Môn văn hóa
     { id: '9', name: 'Toán 10', majorId: 'culture', totalPeriods: 45, isShared: true },
     { id: '10', name: 'Ngữ văn 10', majorId: 'culture', totalPeriods: 45, isShared: true },
   ],
   classes: [
-    { id: '1', name: 'Điện Công Nghiệp (25DC2H8)', studentCount: 40, majorId: '2', schoolYear: '2023-2026' },
-    { id: '2', name: 'Kế toán K15', studentCount: 35, majorId: '1', schoolYear: '2023-2026' },
+    { id: '1', name: 'Điện Công Nghiệp (25DC2H8)', studentCount: 40, majorId: '2', schoolYear: '2023-2026', curriculumId: '1', practiceGroups: ['Nhóm 1', 'Nhóm 2'] },
+    { id: '2', name: 'Kế toán K15', studentCount: 35, majorId: '1', schoolYear: '2023-2026', curriculumId: '2' },
   ],
   students: [
     { id: '1', studentCode: 'SV001', classId: '1', name: 'Nguyễn Văn A', dob: '2005-01-15', pob: 'Hà Nội', fatherName: 'Nguyễn Văn B', motherName: 'Lê Thị C', phone: '0987654321', status: 'studying' },
@@ -76,203 +118,759 @@ const INITIAL_DATA: AppState = {
   schedules: [],
   documents: [],
   templates: [],
-  holidays: []
+  holidays: [],
+  rooms: [
+    { id: 'r1', name: 'P101', capacity: 45, equipment: ['Máy chiếu'] },
+    { id: 'r2', name: 'P102', capacity: 40, equipment: ['Máy chiếu'] },
+    { id: 'r3', name: 'Phòng máy 1', capacity: 30, equipment: ['Máy chiếu', 'Máy tính'] },
+    { id: 'r4', name: 'Xưởng điện', capacity: 30, equipment: ['Bàn thực hành điện'] },
+  ],
+  subjectProgress: [],
+  payments: [],
+  paymentBatches: [],
+  rateRules: [],
+  attendance: [],
+  grades: [],
+  importMappings: [],
+  classArchives: [],
+  academicYears: [],
+  semesters: [],
+  curricula: [
+    {
+      id: '1', name: 'Điện công nghiệp K2023 (Văn hóa 8 môn)', majorId: '2', intakeYear: 2023,
+      subjects: [
+        { subjectId: '1', semesterNo: 1 },
+        { subjectId: '4', semesterNo: 2, prerequisiteIds: ['1'] },
+        { subjectId: '6', semesterNo: 1 },
+        { subjectId: '7', semesterNo: 1 },
+        { subjectId: '8', semesterNo: 2 },
+      ]
+    },
+    {
+      id: '2', name: 'Kế toán Doanh nghiệp K2023', majorId: '1', intakeYear: 2023,
+      subjects: [
+        { subjectId: '3', semesterNo: 1 },
+        { subjectId: '6', semesterNo: 1 },
+        { subjectId: '7', semesterNo: 1 },
+        { subjectId: '8', semesterNo: 2 },
+        { subjectId: '9', semesterNo: 1 },
+        { subjectId: '10', semesterNo: 2 },
+      ]
+    },
+  ]
+};
+
+// Undo/redo: every mutation stores a snapshot of the state before it (immutable updates keep this cheap)
+export interface HistoryEntry {
+  id: string;
+  label: string; // Vietnamese description shown in the history panel
+  timestamp: number;
+  batchId?: string; // Mutations run inside runBatch share one entry
+  state: AppState; // Snapshot to restore
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: AppState;
+  future: HistoryEntry[];
+}
+
+const MAX_HISTORY = 50;
+
+type Label = string | ((prev: AppState) => string);
+
+// Excel import: matched records are updated in place (ids, and so schedule references, are kept), new ones appended
+const upsertImported = <T extends { id: string }>(list: T[], created: Omit<T, 'id'>[], updated: ImportUpdate<T>[]): T[] => {
+  const changes = new Map(updated.map(u => [u.id, u.changes]));
+  return [
+    ...list.map(item => changes.has(item.id) ? { ...item, ...changes.get(item.id) } : item),
+    ...created.map(c => ({ ...c, id: generateId() }) as T)
+  ];
+};
+
+const importLabel = (entity: string, created: number, updated: number) =>
+  updated > 0 ? `Nhập ${entity} từ Excel (${created} mới, ${updated} cập nhật)` : `Nhập ${created} ${entity} từ Excel`;
+
+// Student enrollment log helpers
+const appendStatusChange = (student: Student, change: Omit<StudentStatusChange, 'id'>): Student => ({
+  ...student,
+  statusHistory: [...(student.statusHistory || []), { ...change, id: generateId() }]
+});
+
+const withEnrollment = (student: Student): Student =>
+  student.statusHistory && student.statusHistory.length > 0
+    ? student
+    : appendStatusChange(student, { date: format(new Date(), 'yyyy-MM-dd'), toStatus: student.status || 'studying', toClassId: student.classId });
+
+// Delete with dependent data (see getDeleteImpact)
+const KIND_COLLECTION: Record<DeleteKind, 'teachers' | 'subjects' | 'classes'> = { teacher: 'teachers', subject: 'subjects', class: 'classes' };
+const KIND_LABEL: Record<DeleteKind, string> = { teacher: 'giáo viên', subject: 'môn học', class: 'lớp' };
+
+const setArchived = (state: AppState, kind: DeleteKind, id: string, archived: boolean): AppState => {
+  const collection = KIND_COLLECTION[kind];
+  return { ...state, [collection]: (state[collection] as { id: string }[]).map(x => x.id === id ? { ...x, archived } : x) };
+};
+
+// Payments are ledger entries and are never deleted: cascade is refused when the record has payments.
+// A teacher reassign only moves the sessions not taught yet: taught ones (paid or still to be paid) stay
+// with that person, who is then archived instead of deleted.
+const keepsTeacherHistory = (kind: DeleteKind, impact: DeleteImpact) =>
+  kind === 'teacher' && (impact.payments.length > 0 || impact.schedules.some(isTaughtSession));
+
+const applyDeleteStrategy = (state: AppState, kind: DeleteKind, id: string, strategy: DeleteStrategy): AppState => {
+  const collection = KIND_COLLECTION[kind];
+  const field = DELETE_REF_FIELD[kind];
+  const impact = getDeleteImpact(state, kind, id);
+  const remove = (s: AppState): AppState => ({ ...s, [collection]: (s[collection] as { id: string }[]).filter(x => x.id !== id) });
+
+  if (strategy.mode === 'archive') return kind === 'class' ? archiveClassData(state, id, new Date().toISOString()) : setArchived(state, kind, id, true);
+
+  if (strategy.mode === 'cascade') {
+    if (impact.payments.length > 0) return state;
+    const scheduleIds = new Set(impact.schedules.map(s => s.id));
+    const studentIds = new Set(impact.students.map(s => s.id));
+    return remove({
+      ...state,
+      schedules: state.schedules.filter(s => !scheduleIds.has(s.id)),
+      attendance: state.attendance.filter(a => !scheduleIds.has(a.scheduleId)),
+      students: state.students.filter(s => !studentIds.has(s.id)),
+      subjectProgress: state.subjectProgress.filter(p => !impact.progress.includes(p)),
+      grades: state.grades.filter(g => !impact.grades.includes(g)),
+      rateRules: state.rateRules.filter(r => !impact.rateRules.includes(r)),
+      teachers: state.teachers.map(t => kind === 'subject' && t.mainSubject === id ? { ...t, mainSubject: '' } : t),
+    });
+  }
+
+  const target = strategy.targetId;
+  const today = format(new Date(), 'yyyy-MM-dd');
+  let next: AppState = {
+    ...state,
+    schedules: state.schedules.map(s => s[field] === id && !(kind === 'teacher' && isTaughtSession(s)) ? { ...s, [field]: target } : s),
+    students: state.students.map(s => kind === 'class' && s.classId === id
+        ? appendStatusChange({ ...s, classId: target }, { date: today, fromStatus: s.status, toStatus: s.status, fromClassId: id, toClassId: target, reason: `Gộp lớp khi xóa lớp ${nameOf(state.classes, id)}` })
+        : s),
+  };
+  if (kind !== 'teacher') {
+    const pairField = field as 'subjectId' | 'classId';
+    const progressKey = (p: SubjectProgressRecord) => `${p.subjectId}|${p.classId}`;
+    const gradeKey = (g: GradeRecord) => `${g.subjectId}|${g.classId}|${g.studentId}`;
+    // Records of the target win when both sides have one for the same subject-class (-student)
+    const existingProgress = new Set(state.subjectProgress.filter(p => p[pairField] === target).map(progressKey));
+    const existingGrades = new Set(state.grades.filter(g => g[pairField] === target).map(gradeKey));
+    next = {
+      ...next,
+      payments: state.payments.map(p => p[field] === id ? { ...p, [field]: target } : p),
+      subjectProgress: state.subjectProgress
+        .map(p => p[pairField] === id ? { ...p, [pairField]: target } : p)
+        .filter(p => !impact.progress.some(old => old.id === p.id) || !existingProgress.has(progressKey(p))),
+      grades: state.grades
+        .map(g => g[pairField] === id ? { ...g, [pairField]: target } : g)
+        .filter(g => !impact.grades.some(old => old.id === g.id) || !existingGrades.has(gradeKey(g))),
+      teachers: state.teachers.map(t => kind === 'subject' && t.mainSubject === id ? { ...t, mainSubject: target } : t),
+    };
+  } else {
+    next = { ...next, rateRules: state.rateRules.filter(r => keepsTeacherHistory(kind, impact) || !impact.rateRules.includes(r)) };
+  }
+  return keepsTeacherHistory(kind, impact) ? setArchived(next, kind, id, true) : remove(next);
 };
 
+const describeDelete = (state: AppState, kind: DeleteKind, id: string, strategy: DeleteStrategy) => {
+  const name = nameOf(state[KIND_COLLECTION[kind]], id);
+  if (strategy.mode === 'archive') return `Lưu trữ ${KIND_LABEL[kind]} ${name}`;
+  const impact = getDeleteImpact(state, kind, id);
+  if (strategy.mode === 'cascade') {
+    const parts = [`${impact.schedules.length} lịch`];
+    if (impact.students.length > 0) parts.push(`${impact.students.length} HSSV`);
+    return `Xóa ${KIND_LABEL[kind]} ${name} kèm ${parts.join(', ')}`;
+  }
+  const targetName = nameOf(state[KIND_COLLECTION[kind]], strategy.targetId);
+  return keepsTeacherHistory(kind, impact)
+    ? `Chuyển ${impact.schedules.filter(s => !isTaughtSession(s)).length} lịch chưa dạy của ${KIND_LABEL[kind]} ${name} sang ${targetName} và lưu trữ ${name}`
+    : `Xóa ${KIND_LABEL[kind]} ${name}, chuyển dữ liệu sang ${targetName}`;
+};
+
+const formatDate = (dateStr: string) => dateStr.split('-').reverse().join('/');
+
+const describeSchedule = (state: AppState, s: Pick<ScheduleItem, 'subjectId' | 'classId' | 'date' | 'type'>) => {
+  const subject = state.subjects.find(sub => sub.id === s.subjectId)?.name || '';
+  const className = state.classes.find(c => c.id === s.classId)?.name || '';
+  return `${s.type === 'exam' ? 'lịch thi' : 'lịch'} ${subject} - ${className} (${formatDate(s.date)})`;
+};
+
+const nameOf = (list: { id: string; name: string }[], id: string) => list.find(x => x.id === id)?.name || '';
+
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Load from local storage or use initial
-  const [state, setState] = useState<AppState>(() => {
-    try {
-      const saved = localStorage.getItem('eduScheduleData');
-      if (saved) {
-          const parsed = JSON.parse(saved);
-          // Ensure arrays exist for older saved data (Compatibility check)
-          return {
-              ...INITIAL_DATA,
-              ...parsed,
-              teachers: parsed.teachers || [],
-              subjects: parsed.subjects || [],
-              classes: parsed.classes || [],
-              students: parsed.students || [],
-              schedules: parsed.schedules || [],
-              majors: parsed.majors || INITIAL_DATA.majors,
-              documents: parsed.documents || [],
-              templates: parsed.templates || [],
-              holidays: parsed.holidays || []
-          };
-      }
-      return INITIAL_DATA;
-    } catch (e) {
-      console.error("Failed to load data from localStorage", e);
-      return INITIAL_DATA;
-    }
-  });
+  // Data is loaded asynchronously from IndexedDB (see effect below); children render once it is ready
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: INITIAL_DATA, future: [] });
+  const [isLoaded, setIsLoaded] = useState(false);
+  const state = history.present;
+  // null = follow the current semester (see getCurrentSemester), '' = all time
+  const [activeSemesterId, setActiveSemesterId] = useState<string | null>(null);
+  const activeSemester = activeSemesterId === null
+    ? getCurrentSemester(state.semesters)
+    : state.semesters.find(s => s.id === activeSemesterId);
+
+  // Active batch (see runBatch). A ref so every mutation queued during the batch sees the same id.
+  const batchRef = useRef<{ id: string; label?: string } | null>(null);
+  // Last state written to IndexedDB; null = next save rewrites every collection
+  const lastSavedRef = useRef<AppState | null>(null);
+  // Set when the saved data could not be read: nothing is written so the stored data is never overwritten
+  const loadFailedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPersistedState()
+      .then(saved => {
+        if (cancelled) return;
+        // Before schema 3 progress/payment flags lived in separate localStorage keys
+        const raw = saved && saved.version < 3 ? { ...saved.data, meta: readLegacyProgressMeta() } : saved?.data;
+        const data = saved ? migrateData(raw, saved.version, INITIAL_DATA) : INITIAL_DATA;
+        // Up-to-date data is already on disk; anything else (new, legacy, older schema) is written in full
+        lastSavedRef.current = saved && saved.version === SCHEMA_VERSION ? data : null;
+        setHistory({ past: [], present: data, future: [] });
+        setIsLoaded(true);
+      })
+      .catch(e => {
+        console.error("Failed to load data from IndexedDB", e);
+        if (cancelled) return;
+        loadFailedRef.current = true;
+        alert("Không thể đọc dữ liệu đã lưu. Hệ thống sẽ hiển thị dữ liệu mẫu và KHÔNG lưu thay đổi để giữ nguyên dữ liệu cũ. Vui lòng tải lại trang hoặc liên hệ quản trị.");
+        setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
 
   useEffect(() => {
+    if (!isLoaded || loadFailedRef.current || lastSavedRef.current === state) return;
+    const prev = lastSavedRef.current;
+    lastSavedRef.current = state;
+    saveState(prev, state)
+      .then(() => {
+        // Legacy localStorage copies are no longer needed once everything is in IndexedDB
+        if (!prev) {
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+          clearLegacyProgressMeta();
+        }
+      })
+      .catch(error => {
+        console.error("Failed to save data to IndexedDB", error);
+        lastSavedRef.current = null; // Retry with a full write on the next change
+        alert("Cảnh báo: Bộ nhớ trình duyệt đã đầy! Dữ liệu mới chưa được lưu. Vui lòng xóa bớt tài liệu hoặc sao lưu và reset hệ thống.");
+      });
+  }, [state, isLoaded]);
+
+  // Applies a state update and records it in the undo history
+  const mutate = (label: Label, updater: (prev: AppState) => AppState) => {
+    const batch = batchRef.current;
+    const entryId = generateId();
+    setHistory(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+
+      const last = h.past[h.past.length - 1];
+      if (batch && last && last.batchId === batch.id) {
+        // Same batch: keep the snapshot taken before the first mutation
+        return { ...h, present: next, future: [] };
+      }
+
+      const entry: HistoryEntry = {
+        id: entryId,
+        label: batch?.label || (typeof label === 'function' ? label(h.present) : label),
+        timestamp: Date.now(),
+        batchId: batch?.id,
+        state: h.present,
+      };
+      return { past: [...h.past, entry].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  };
+
+  // Groups all mutations made by fn into one undo step.
+  // Without a label the description of the first mutation is used.
+  const runBatch = (fn: () => void, label?: string) => {
+    batchRef.current = { id: generateId(), label };
     try {
-      localStorage.setItem('eduScheduleData', JSON.stringify(state));
-    } catch (error) {
-      console.error("Storage Limit Exceeded", error);
-      alert("Cảnh báo: Bộ nhớ trình duyệt đã đầy! Dữ liệu mới chưa được lưu. Vui lòng xóa bớt tài liệu hoặc sao lưu và reset hệ thống.");
+      fn();
+    } finally {
+      batchRef.current = null;
     }
-  }, [state]);
+  };
+
+  const undo = () => {
+    setHistory(h => {
+      const entry = h.past[h.past.length - 1];
+      if (!entry) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: entry.state,
+        future: [{ ...entry, state: h.present }, ...h.future],
+      };
+    });
+  };
+
+  const redo = () => {
+    setHistory(h => {
+      const entry = h.future[0];
+      if (!entry) return h;
+      return {
+        past: [...h.past, { ...entry, state: h.present }],
+        present: entry.state,
+        future: h.future.slice(1),
+      };
+    });
+  };
 
   const addTeacher = (t: Omit<Teacher, 'id'>) => {
-    setState(prev => ({ ...prev, teachers: [...prev.teachers, { ...t, id: generateId() }] }));
+    mutate(`Thêm giáo viên ${t.name}`, prev => ({ ...prev, teachers: [...prev.teachers, { ...t, id: generateId() }] }));
   };
   const updateTeacher = (id: string, t: Partial<Teacher>) => {
-    setState(prev => ({
+    mutate(prev => `Cập nhật giáo viên ${nameOf(prev.teachers, id)}`, prev => ({
         ...prev,
         teachers: prev.teachers.map(tea => tea.id === id ? { ...tea, ...t } : tea)
     }))
   }
   const deleteTeacher = (id: string) => {
-    setState(prev => ({ ...prev, teachers: prev.teachers.filter(t => t.id !== id) }));
+    mutate(prev => `Xóa giáo viên ${nameOf(prev.teachers, id)}`, prev => ({ ...prev, teachers: prev.teachers.filter(t => t.id !== id) }));
   };
-  const importTeachers = (newTeachers: Omit<Teacher, 'id'>[]) => {
-      setState(prev => ({
+  const importTeachers = (newTeachers: Omit<Teacher, 'id'>[], updates: ImportUpdate<Teacher>[] = []) => {
+      mutate(importLabel('giáo viên', newTeachers.length, updates.length), prev => ({
           ...prev,
-          teachers: [...prev.teachers, ...newTeachers.map(t => ({...t, id: generateId()}))]
+          teachers: upsertImported(prev.teachers, newTeachers, updates)
       }));
   }
 
   const addSubject = (s: Omit<Subject, 'id'>) => {
-    setState(prev => ({ ...prev, subjects: [...prev.subjects, { ...s, id: generateId() }] }));
+    mutate(`Thêm môn học ${s.name}`, prev => ({ ...prev, subjects: [...prev.subjects, { ...s, id: generateId() }] }));
   };
   const updateSubject = (id: string, s: Partial<Subject>) => {
-    setState(prev => ({
+    mutate(prev => `Cập nhật môn học ${nameOf(prev.subjects, id)}`, prev => ({
         ...prev,
         subjects: prev.subjects.map(sub => sub.id === id ? { ...sub, ...s } : sub)
     }))
   };
   const deleteSubject = (id: string) => {
-    setState(prev => ({ ...prev, subjects: prev.subjects.filter(s => s.id !== id) }));
+    mutate(prev => `Xóa môn học ${nameOf(prev.subjects, id)}`, prev => ({ ...prev, subjects: prev.subjects.filter(s => s.id !== id) }));
   };
-  const importSubjects = (newSubjects: Omit<Subject, 'id'>[]) => {
-      setState(prev => ({
+  const importSubjects = (newSubjects: Omit<Subject, 'id'>[], updates: ImportUpdate<Subject>[] = []) => {
+      mutate(importLabel('môn học', newSubjects.length, updates.length), prev => ({
           ...prev,
-          subjects: [...prev.subjects, ...newSubjects.map(s => ({...s, id: generateId()}))]
+          subjects: upsertImported(prev.subjects, newSubjects, updates)
       }));
   }
 
   const addClass = (c: Omit<ClassEntity, 'id'>) => {
-    setState(prev => ({ ...prev, classes: [...prev.classes, { ...c, id: generateId() }] }));
+    mutate(`Thêm lớp ${c.name}`, prev => ({ ...prev, classes: [...prev.classes, { ...c, id: generateId() }] }));
   };
   const updateClass = (id: string, c: Partial<ClassEntity>) => {
-    setState(prev => ({
+    mutate(prev => `Cập nhật lớp ${nameOf(prev.classes, id)}`, prev => ({
         ...prev,
         classes: prev.classes.map(cls => cls.id === id ? { ...cls, ...c } : cls)
     }))
   };
   const deleteClass = (id: string) => {
-    setState(prev => ({ ...prev, classes: prev.classes.filter(c => c.id !== id) }));
+    mutate(prev => `Xóa lớp ${nameOf(prev.classes, id)}`, prev => ({ ...prev, classes: prev.classes.filter(c => c.id !== id) }));
   };
-  const importClasses = (newClasses: Omit<ClassEntity, 'id'>[]) => {
-      setState(prev => ({
+  const importClasses = (newClasses: Omit<ClassEntity, 'id'>[], updates: ImportUpdate<ClassEntity>[] = []) => {
+      mutate(importLabel('lớp', newClasses.length, updates.length), prev => ({
           ...prev,
-          classes: [...prev.classes, ...newClasses.map(c => ({...c, id: generateId()}))]
+          classes: upsertImported(prev.classes, newClasses, updates)
       }));
   }
 
   const addStudent = (s: Omit<Student, 'id'>) => {
-    setState(prev => ({ ...prev, students: [...prev.students, { ...s, id: generateId() }] }));
+    mutate(`Thêm HSSV ${s.name}`, prev => ({ ...prev, students: [...prev.students, withEnrollment({ ...s, id: generateId() })] }));
   };
+  // Status or class edits made through the form are logged too, so the history never silently loses a step
   const updateStudent = (id: string, s: Partial<Student>) => {
-     setState(prev => ({
+     mutate(prev => `Cập nhật HSSV ${nameOf(prev.students, id)}`, prev => ({
         ...prev,
-        students: prev.students.map(stu => stu.id === id ? { ...stu, ...s } : stu)
+        students: prev.students.map(stu => {
+            if (stu.id !== id) return stu;
+            const statusChanged = s.status !== undefined && s.status !== stu.status;
+            const classChanged = s.classId !== undefined && s.classId !== stu.classId;
+            if (!statusChanged && !classChanged) return { ...stu, ...s };
+            return appendStatusChange({ ...stu, ...s }, {
+                date: format(new Date(), 'yyyy-MM-dd'),
+                fromStatus: stu.status,
+                toStatus: s.status ?? stu.status,
+                ...(classChanged ? { fromClassId: stu.classId, toClassId: s.classId } : {})
+            });
+        })
     }))
   };
   const deleteStudent = (id: string) => {
-    setState(prev => ({ ...prev, students: prev.students.filter(s => s.id !== id) }));
+    mutate(prev => `Xóa HSSV ${nameOf(prev.students, id)}`, prev => ({ ...prev, students: prev.students.filter(s => s.id !== id) }));
   };
-  const importStudents = (newStudents: Omit<Student, 'id'>[]) => {
-      setState(prev => ({
+  // Status and class changes coming from a re-import are logged like form edits
+  const importStudents = (newStudents: Omit<Student, 'id'>[], updates: ImportUpdate<Student>[] = []) => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      mutate(importLabel('HSSV', newStudents.length, updates.length), prev => ({
           ...prev,
-          students: [...prev.students, ...newStudents.map(s => ({...s, id: generateId()}))]
+          students: upsertImported(prev.students, newStudents, updates).map(stu => {
+              const before = prev.students.find(x => x.id === stu.id);
+              if (!before) return withEnrollment(stu);
+              const classChanged = before.classId !== stu.classId;
+              if (before.status === stu.status && !classChanged) return stu;
+              return appendStatusChange(stu, {
+                  date: today,
+                  fromStatus: before.status,
+                  toStatus: stu.status,
+                  ...(classChanged ? { fromClassId: before.classId, toClassId: stu.classId } : {}),
+                  reason: 'Cập nhật từ file Excel'
+              });
+          })
       }));
   }
+  const changeStudentStatus = (id: string, change: Omit<StudentStatusChange, 'id' | 'fromStatus' | 'fromClassId' | 'toClassId'>) => {
+    mutate(prev => `Chuyển trạng thái HSSV ${nameOf(prev.students, id)}`, prev => ({
+        ...prev,
+        students: prev.students.map(stu => stu.id === id
+            ? appendStatusChange({ ...stu, status: change.toStatus }, { ...change, fromStatus: stu.status })
+            : stu)
+    }));
+  };
+  // Moves the student to another class; the status stays the same and the move is kept in the history
+  const transferStudent = (id: string, toClassId: string, info: Pick<StudentStatusChange, 'date' | 'reason' | 'decisionNumber'>) => {
+    mutate(prev => `Chuyển lớp HSSV ${nameOf(prev.students, id)} sang ${nameOf(prev.classes, toClassId)}`, prev => ({
+        ...prev,
+        students: prev.students.map(stu => stu.id === id
+            ? appendStatusChange({ ...stu, classId: toClassId }, { ...info, fromStatus: stu.status, toStatus: stu.status, fromClassId: stu.classId, toClassId })
+            : stu)
+    }));
+  };
 
-  const addSchedule = (s: Omit<ScheduleItem, 'id' | 'status'>) => {
-    const newItem: ScheduleItem = { ...s, id: generateId(), status: ScheduleStatus.PENDING };
-    setState(prev => ({ ...prev, schedules: [...prev.schedules, newItem] }));
+  // New sessions are PENDING unless created as a make-up (MAKEUP)
+  const addSchedule = (s: Omit<ScheduleItem, 'id' | 'status'> & { status?: ScheduleStatus }) => {
+    const newItem: ScheduleItem = { status: ScheduleStatus.PENDING, ...s, id: generateId() };
+    mutate(prev => `Thêm ${describeSchedule(prev, s)}`, prev => ({ ...prev, schedules: [...prev.schedules, newItem] }));
   };
 
   const updateSchedule = (id: string, s: Partial<ScheduleItem>) => {
-    setState(prev => {
+    const label = (prev: AppState) => {
+        const item = prev.schedules.find(i => i.id === id);
+        return item ? `Cập nhật ${describeSchedule(prev, { ...item, ...s })}` : 'Cập nhật lịch';
+    };
+    mutate(label, prev => {
         const updatedList = prev.schedules.map(item => item.id === id ? { ...item, ...s } : item);
         return { ...prev, schedules: updatedList };
     });
   };
 
   const deleteSchedule = (id: string) => {
-    setState(prev => ({ ...prev, schedules: prev.schedules.filter(s => s.id !== id) }));
+    const label = (prev: AppState) => {
+        const item = prev.schedules.find(i => i.id === id);
+        return item ? `Xóa ${describeSchedule(prev, item)}` : 'Xóa lịch';
+    };
+    // The session's roll call goes with it, and make-ups stop referencing it
+    mutate(label, prev => ({
+        ...prev,
+        schedules: prev.schedules.filter(s => s.id !== id).map(s => s.makeupFor?.includes(id) ? { ...s, makeupFor: s.makeupFor.filter(m => m !== id) } : s),
+        attendance: prev.attendance.filter(a => a.scheduleId !== id)
+    }));
   };
 
   // Document actions
   const addDocument = (d: Omit<DocumentItem, 'id'>) => {
-    setState(prev => ({ ...prev, documents: [...prev.documents, { ...d, id: generateId() }] }));
+    mutate(`Thêm hồ sơ ${d.name}`, prev => ({ ...prev, documents: [...prev.documents, { ...d, id: generateId() }] }));
   };
 
   const deleteDocument = (id: string) => {
-    setState(prev => ({ ...prev, documents: prev.documents.filter(d => d.id !== id) }));
+    mutate(prev => `Xóa hồ sơ ${nameOf(prev.documents, id)}`, prev => ({ ...prev, documents: prev.documents.filter(d => d.id !== id) }));
   };
 
   // Template actions
   const addTemplate = (t: Omit<ExportTemplate, 'id'>) => {
-    setState(prev => ({ ...prev, templates: [...prev.templates, { ...t, id: generateId() }] }));
+    mutate(`Thêm mẫu ${t.name}`, prev => ({ ...prev, templates: [...prev.templates, { ...t, id: generateId() }] }));
   };
   
   const deleteTemplate = (id: string) => {
-     setState(prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== id) }));
+     mutate(prev => `Xóa mẫu ${nameOf(prev.templates, id)}`, prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== id) }));
   };
 
   // Holiday actions
   const addHoliday = (h: Omit<Holiday, 'id'>) => {
-    setState(prev => ({ ...prev, holidays: [...prev.holidays, { ...h, id: generateId() }] }));
+    mutate(`Thêm ngày nghỉ ${h.name}`, prev => ({ ...prev, holidays: [...prev.holidays, { ...h, id: generateId() }] }));
   };
 
   const updateHoliday = (id: string, h: Partial<Holiday>) => {
-    setState(prev => ({
+    mutate(prev => `Cập nhật ngày nghỉ ${nameOf(prev.holidays, id)}`, prev => ({
         ...prev,
         holidays: prev.holidays.map(item => item.id === id ? { ...item, ...h } : item)
     }));
   };
 
   const deleteHoliday = (id: string) => {
-    setState(prev => ({ ...prev, holidays: prev.holidays.filter(h => h.id !== id) }));
+    mutate(prev => `Xóa ngày nghỉ ${nameOf(prev.holidays, id)}`, prev => ({ ...prev, holidays: prev.holidays.filter(h => h.id !== id) }));
+  };
+
+  // Academic years & semesters
+  const addAcademicYear = (y: Omit<AcademicYear, 'id'>, semesters: Omit<Semester, 'id' | 'academicYearId'>[]) => {
+    const academicYearId = generateId();
+    mutate(`Thêm năm học ${y.name}`, prev => ({
+        ...prev,
+        academicYears: [...prev.academicYears, { ...y, id: academicYearId }],
+        semesters: [...prev.semesters, ...semesters.map(s => ({ ...s, id: generateId(), academicYearId }))]
+    }));
+  };
+
+  const updateAcademicYear = (id: string, y: Partial<AcademicYear>) => {
+    mutate(prev => `Cập nhật năm học ${nameOf(prev.academicYears, id)}`, prev => ({
+        ...prev,
+        academicYears: prev.academicYears.map(item => item.id === id ? { ...item, ...y } : item)
+    }));
+  };
+
+  const deleteAcademicYear = (id: string) => {
+    mutate(prev => `Xóa năm học ${nameOf(prev.academicYears, id)}`, prev => ({
+        ...prev,
+        academicYears: prev.academicYears.filter(y => y.id !== id),
+        semesters: prev.semesters.filter(s => s.academicYearId !== id)
+    }));
+  };
+
+  const addSemester = (s: Omit<Semester, 'id'>) => {
+    mutate(prev => `Thêm ${s.name} năm học ${nameOf(prev.academicYears, s.academicYearId)}`, prev => ({ ...prev, semesters: [...prev.semesters, { ...s, id: generateId() }] }));
+  };
+
+  const updateSemester = (id: string, s: Partial<Semester>) => {
+    mutate(prev => `Cập nhật ${nameOf(prev.semesters, id)}`, prev => ({
+        ...prev,
+        semesters: prev.semesters.map(item => item.id === id ? { ...item, ...s } : item)
+    }));
+  };
+
+  const deleteSemester = (id: string) => {
+    mutate(prev => `Xóa ${nameOf(prev.semesters, id)}`, prev => ({ ...prev, semesters: prev.semesters.filter(s => s.id !== id) }));
+  };
+
+  // Curriculum actions
+  const addCurriculum = (c: Omit<Curriculum, 'id'>) => {
+    mutate(`Thêm chương trình ${c.name}`, prev => ({ ...prev, curricula: [...prev.curricula, { ...c, id: generateId() }] }));
+  };
+
+  const updateCurriculum = (id: string, c: Partial<Curriculum>) => {
+    mutate(prev => `Cập nhật chương trình ${nameOf(prev.curricula, id)}`, prev => ({
+        ...prev,
+        curricula: prev.curricula.map(item => item.id === id ? { ...item, ...c } : item)
+    }));
+  };
+
+  // Linked classes fall back to the subjects of their major
+  const deleteCurriculum = (id: string) => {
+    mutate(prev => `Xóa chương trình ${nameOf(prev.curricula, id)}`, prev => ({
+        ...prev,
+        curricula: prev.curricula.filter(c => c.id !== id),
+        classes: prev.classes.map(c => c.curriculumId === id ? { ...c, curriculumId: undefined } : c)
+    }));
+  };
+
+  // Room actions
+  const addRoom = (r: Omit<Room, 'id'>) => {
+    mutate(`Thêm phòng ${r.name}`, prev => ({ ...prev, rooms: [...prev.rooms, { ...r, id: generateId() }] }));
+  };
+
+  const updateRoom = (id: string, r: Partial<Room>) => {
+    mutate(prev => `Cập nhật phòng ${nameOf(prev.rooms, id)}`, prev => ({
+        ...prev,
+        rooms: prev.rooms.map(room => room.id === id ? { ...room, ...r } : room)
+    }));
+  };
+
+  const deleteRoom = (id: string) => {
+    mutate(prev => `Xóa phòng ${nameOf(prev.rooms, id)}`, prev => ({ ...prev, rooms: prev.rooms.filter(r => r.id !== id) }));
+  };
+
+  const importRooms = (newRooms: Omit<Room, 'id'>[], updates: ImportUpdate<Room>[] = []) => {
+      mutate(importLabel('phòng học', newRooms.length, updates.length), prev => ({
+          ...prev,
+          rooms: upsertImported(prev.rooms, newRooms, updates)
+      }));
+  };
+
+  // Subject progress / payment (one record per subject-class, created on first update)
+  const updateSubjectProgress = (subjectId: string, classId: string, data: Partial<Omit<SubjectProgressRecord, 'id' | 'subjectId' | 'classId'>>) => {
+    const label = (prev: AppState) => {
+        const target = `${nameOf(prev.subjects, subjectId)} - ${nameOf(prev.classes, classId)}`;
+        return data.paid ? `Đánh dấu đã thanh toán ${target}` : `Cập nhật tiến độ ${target}`;
+    };
+    mutate(label, prev => {
+        const exists = prev.subjectProgress.some(r => r.subjectId === subjectId && r.classId === classId);
+        return {
+            ...prev,
+            subjectProgress: exists
+                ? prev.subjectProgress.map(r => r.subjectId === subjectId && r.classId === classId ? { ...r, ...data } : r)
+                : [...prev.subjectProgress, { ...data, id: generateId(), subjectId, classId }]
+        };
+    });
+  };
+
+  // Payment ledger
+  // A subject-class counts as paid (hidden from the pending list) once every teacher who taught it has an active payment.
+  const setPaidFlag = (records: SubjectProgressRecord[], subjectId: string, classId: string, paid: boolean, paymentDate?: string) => {
+    const exists = records.some(r => r.subjectId === subjectId && r.classId === classId);
+    return exists
+        ? records.map(r => r.subjectId === subjectId && r.classId === classId ? { ...r, paid, paymentDate } : r)
+        : [...records, { id: generateId(), subjectId, classId, paid, paymentDate }];
+  };
+
+  const addPayment = (p: Omit<PaymentRecord, 'id'>) => {
+    mutate(prev => `Thanh toán ${p.amount.toLocaleString()}đ cho GV ${nameOf(prev.teachers, p.teacherId)} (${nameOf(prev.subjects, p.subjectId)} - ${nameOf(prev.classes, p.classId)})`, prev => {
+        const payments = [...prev.payments, { ...p, id: generateId() }];
+        const paid = isFullyPaid(payments, prev.schedules, p.subjectId, p.classId);
+        return {
+            ...prev,
+            payments,
+            subjectProgress: setPaidFlag(prev.subjectProgress, p.subjectId, p.classId, paid, paid ? p.paymentDate : undefined)
+        };
+    });
+  };
+
+  const reversePayment = (id: string, reason: string) => {
+    mutate(prev => {
+        const payment = prev.payments.find(p => p.id === id);
+        return payment ? `Hoàn lại phiếu chi ${payment.voucherNumber} (${nameOf(prev.teachers, payment.teacherId)})` : 'Hoàn lại thanh toán';
+    }, prev => {
+        const payment = prev.payments.find(p => p.id === id);
+        if (!payment || payment.reversedAt) return prev;
+
+        const payments = prev.payments.map(p => p.id === id
+            ? { ...p, reversedAt: format(new Date(), 'yyyy-MM-dd'), reversalReason: reason }
+            : p);
+        const paid = isFullyPaid(payments, prev.schedules, payment.subjectId, payment.classId);
+        const record = prev.subjectProgress.find(r => r.subjectId === payment.subjectId && r.classId === payment.classId);
+        return {
+            ...prev,
+            payments,
+            subjectProgress: setPaidFlag(prev.subjectProgress, payment.subjectId, payment.classId, paid, paid ? record?.paymentDate : undefined)
+        };
+    });
+  };
+
+  const createPaymentBatch = (b: Omit<PaymentBatch, 'id' | 'createdAt'>, paymentIds: string[]) => {
+    const batch: PaymentBatch = { ...b, id: generateId(), createdAt: new Date().toISOString() };
+    mutate(`Tạo đợt thanh toán ${b.name} (${paymentIds.length} phiếu)`, prev => ({
+        ...prev,
+        paymentBatches: [...prev.paymentBatches, batch],
+        payments: prev.payments.map(p => paymentIds.includes(p.id) ? { ...p, batchId: batch.id } : p)
+    }));
+  };
+
+  // Removes the batch only; its payments stay in the ledger ungrouped
+  const deletePaymentBatch = (id: string) => {
+    mutate(prev => `Xóa đợt thanh toán ${nameOf(prev.paymentBatches, id)}`, prev => ({
+        ...prev,
+        paymentBatches: prev.paymentBatches.filter(b => b.id !== id),
+        payments: prev.payments.map(p => p.batchId === id ? { ...p, batchId: undefined } : p)
+    }));
   };
 
   // NEW: Load entire state (Restore) - Robust Version
-  const loadData = (data: AppState) => {
+  // Backups without a schema version are treated as the oldest shape and migrated.
+  const loadData = (data: AppState, schemaVersion = 0) => {
       if (data && typeof data === 'object') {
-          // Merge with INITIAL_DATA to ensure all fields (especially arrays like templates/documents) exist
-          // regardless of the backup version.
-          const robustData: AppState = {
-              ...INITIAL_DATA,
-              ...data,
-              // Force Arrays if they are null/undefined in backup
-              teachers: Array.isArray(data.teachers) ? data.teachers : [],
-              subjects: Array.isArray(data.subjects) ? data.subjects : [],
-              classes: Array.isArray(data.classes) ? data.classes : [],
-              students: Array.isArray(data.students) ? data.students : [],
-              schedules: Array.isArray(data.schedules) ? data.schedules : [],
-              majors: Array.isArray(data.majors) ? data.majors : INITIAL_DATA.majors,
-              documents: Array.isArray(data.documents) ? data.documents : [],
-              templates: Array.isArray(data.templates) ? data.templates : [],
-              holidays: Array.isArray(data.holidays) ? data.holidays : [],
-          };
-          
-          setState(robustData);
+          const robustData = migrateData(data, schemaVersion, INITIAL_DATA);
+          mutate('Khôi phục dữ liệu từ bản sao lưu', () => robustData);
           alert('Khôi phục dữ liệu thành công!');
       } else {
           alert('File dữ liệu không hợp lệ!');
       }
   };
 
+  // Rate table actions
+  const addRateRule = (r: Omit<RateRule, 'id'>) => {
+    mutate(`Thêm đơn giá ${r.name}`, prev => ({ ...prev, rateRules: [...prev.rateRules, { ...r, id: generateId() }] }));
+  };
+
+  const updateRateRule = (id: string, r: Partial<RateRule>) => {
+    mutate(prev => `Cập nhật đơn giá ${nameOf(prev.rateRules, id)}`, prev => ({
+        ...prev,
+        rateRules: prev.rateRules.map(rule => rule.id === id ? { ...rule, ...r } : rule)
+    }));
+  };
+
+  const deleteRateRule = (id: string) => {
+    mutate(prev => `Xóa đơn giá ${nameOf(prev.rateRules, id)}`, prev => ({ ...prev, rateRules: prev.rateRules.filter(r => r.id !== id) }));
+  };
+
+  // Attendance: one roll call per session, replaced on each save
+  const saveAttendance = (scheduleId: string, entries: AttendanceEntry[]) => {
+    mutate(prev => {
+        const item = prev.schedules.find(s => s.id === scheduleId);
+        return item ? `Điểm danh ${describeSchedule(prev, item)}` : 'Điểm danh';
+    }, prev => {
+        const existing = prev.attendance.find(a => a.scheduleId === scheduleId);
+        const record = { id: existing?.id || generateId(), scheduleId, takenAt: new Date().toISOString(), entries };
+        return {
+            ...prev,
+            attendance: existing
+                ? prev.attendance.map(a => a.id === existing.id ? record : a)
+                : [...prev.attendance, record]
+        };
+    });
+  };
+
+  // Grade book: rows replace the stored scores of those students (other students are untouched)
+  const saveGrades = (subjectId: string, classId: string, rows: Omit<GradeRecord, 'id' | 'subjectId' | 'classId'>[]) => {
+    mutate(prev => `Cập nhật bảng điểm ${nameOf(prev.subjects, subjectId)} - ${nameOf(prev.classes, classId)}`, prev => {
+        const grades = [...prev.grades];
+        rows.forEach(row => {
+            const idx = grades.findIndex(g => g.subjectId === subjectId && g.classId === classId && g.studentId === row.studentId);
+            if (idx >= 0) grades[idx] = { ...grades[idx], ...row };
+            else grades.push({ ...row, id: generateId(), subjectId, classId });
+        });
+        return { ...prev, grades };
+    });
+  };
+
+  // Creates the re-exam session and links it to the grade records of the students re-sitting
+  const scheduleReExam = (subjectId: string, classId: string, studentIds: string[], exam: Omit<ScheduleItem, 'id' | 'status'>) => {
+    const newItem: ScheduleItem = { ...exam, id: generateId(), status: ScheduleStatus.PENDING };
+    mutate(prev => `Xếp lịch thi lại ${nameOf(prev.subjects, subjectId)} - ${nameOf(prev.classes, classId)} (${studentIds.length} HS)`, prev => {
+        const grades = [...prev.grades];
+        studentIds.forEach(studentId => {
+            const idx = grades.findIndex(g => g.subjectId === subjectId && g.classId === classId && g.studentId === studentId);
+            if (idx >= 0) grades[idx] = { ...grades[idx], reExamScheduleId: newItem.id };
+            else grades.push({ id: generateId(), subjectId, classId, studentId, scores: {}, reExamScheduleId: newItem.id });
+        });
+        return { ...prev, schedules: [...prev.schedules, newItem], grades };
+    });
+  };
+
+  // One saved mapping per import type
+  const saveImportMapping = (m: Omit<ImportMapping, 'id'>) => {
+    mutate('Lưu cấu hình cột nhập Excel', prev => {
+        const existing = prev.importMappings.find(x => x.target === m.target);
+        return {
+            ...prev,
+            importMappings: existing
+                ? prev.importMappings.map(x => x.id === existing.id ? { ...x, ...m } : x)
+                : [...prev.importMappings, { ...m, id: generateId() }]
+        };
+    });
+  };
+
+  const resolveDelete = (kind: DeleteKind, id: string, strategy: DeleteStrategy) => {
+    if (strategy.mode === 'cascade' && getDeleteImpact(state, kind, id).payments.length > 0) return;
+    mutate(prev => describeDelete(prev, kind, id, strategy), prev => applyDeleteStrategy(prev, kind, id, strategy));
+  };
+
+  const restoreArchived = (kind: DeleteKind, id: string) => {
+    mutate(prev => `Khôi phục ${KIND_LABEL[kind]} ${nameOf(prev[KIND_COLLECTION[kind]], id)}`,
+        prev => kind === 'class' ? restoreClassData(prev, id) : setArchived(prev, kind, id, false));
+  };
+
+  // Moves finished classes with their students, schedules, progress, roll calls and grades to the archive store
+  const archiveClasses = (classIds: string[], note?: string) => {
+    if (classIds.length === 0) return;
+    const archivedAt = new Date().toISOString();
+    mutate(
+        prev => classIds.length === 1 ? `Lưu trữ lớp ${nameOf(prev.classes, classIds[0])}` : `Lưu trữ ${classIds.length} lớp`,
+        prev => classIds.reduce((acc, id) => archiveClassData(acc, id, archivedAt, note), prev)
+    );
+  };
+
   // NEW: Delete all data (Empty state, but keep Majors config)
   const resetData = () => {
-    setState({
+    mutate('Xóa toàn bộ dữ liệu', () => ({
         teachers: [],
         subjects: [],
         classes: [],
@@ -281,16 +879,20 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         majors: INITIAL_DATA.majors, // Keep structural configuration
         documents: [],
         templates: [],
-        holidays: []
-    });
-    // Clear auxiliary storage
-    try {
-        localStorage.removeItem('paid_completed_subjects');
-        localStorage.removeItem('manual_completed_subjects');
-        localStorage.removeItem('subject_progress_metadata');
-    } catch (e) {
-        console.error(e);
-    }
+        holidays: [],
+        rooms: [],
+        subjectProgress: [],
+        payments: [],
+        paymentBatches: [],
+        rateRules: [],
+        attendance: [],
+        grades: [],
+        importMappings: [],
+        classArchives: [],
+        academicYears: [],
+        semesters: [],
+        curricula: []
+    }));
   };
 
   return (
@@ -300,13 +902,24 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       addSubject, updateSubject, deleteSubject, importSubjects,
       addSchedule, updateSchedule, deleteSchedule, 
       addClass, updateClass, deleteClass, importClasses,
-      addStudent, updateStudent, deleteStudent, importStudents,
+      addStudent, updateStudent, deleteStudent, importStudents, changeStudentStatus, transferStudent,
       addDocument, deleteDocument,
       addTemplate, deleteTemplate,
       addHoliday, updateHoliday, deleteHoliday,
-      loadData, resetData
+      addAcademicYear, updateAcademicYear, deleteAcademicYear, addSemester, updateSemester, deleteSemester,
+      activeSemester, setActiveSemesterId,
+      addCurriculum, updateCurriculum, deleteCurriculum,
+      addRoom, updateRoom, deleteRoom, importRooms,
+      updateSubjectProgress,
+      addPayment, reversePayment, createPaymentBatch, deletePaymentBatch,
+      addRateRule, updateRateRule, deleteRateRule,
+      saveAttendance, saveGrades, scheduleReExam, saveImportMapping, resolveDelete, restoreArchived, archiveClasses,
+      loadData, resetData,
+      undoStack: history.past, redoStack: history.future, undo, redo, runBatch
     }}>
-      {children}
+      {isLoaded ? children : (
+        <div className="flex h-screen items-center justify-center text-gray-500">Đang tải dữ liệu...</div>
+      )}
     </AppContext.Provider>
   );
 };
@@ -0,0 +1,141 @@
+import { AppState } from '../types';
+import { base64ToArrayBuffer } from '../utils';
+import { SCHEMA_VERSION } from './migrations';
+
+// IndexedDB storage: one object store per AppState collection (keyPath 'id') plus a 'meta' store
+// holding the schema version and the item order of each collection.
+const DB_NAME = 'eduScheduleDB';
+const META_STORE = 'meta';
+
+// Data saved by versions before IndexedDB (whole AppState as JSON)
+export const LEGACY_STORAGE_KEY = 'eduScheduleData';
+
+type Collection = keyof AppState;
+
+export const COLLECTIONS: Collection[] = [
+  'teachers', 'subjects', 'classes', 'students', 'majors', 'schedules',
+  'documents', 'templates', 'holidays', 'rooms', 'subjectProgress', 'payments', 'paymentBatches', 'rateRules', 'attendance', 'grades', 'importMappings',
+  'classArchives', 'academicYears', 'semesters', 'curricula',
+];
+
+// Collections whose `content` (data URL in memory) is stored as a binary Blob
+const BLOB_COLLECTIONS: Collection[] = ['documents', 'templates'];
+
+const orderKey = (collection: Collection) => `order:${collection}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [...COLLECTIONS, META_STORE].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, name === META_STORE ? undefined : { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const mime = dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  return new Blob([base64ToArrayBuffer(dataUrl)], { type: mime });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toRecord = (collection: Collection, item: any) =>
+  BLOB_COLLECTIONS.includes(collection) && typeof item.content === 'string' && item.content.startsWith('data:')
+    ? { ...item, content: dataUrlToBlob(item.content) }
+    : item;
+
+const fromRecord = async (collection: Collection, record: any) =>
+  BLOB_COLLECTIONS.includes(collection) && record.content instanceof Blob
+    ? { ...record, content: await blobToDataUrl(record.content) }
+    : record;
+
+// Returns the stored data and the schema version it was saved with, or null when nothing is stored yet.
+// Falls back to the legacy localStorage key (version 0) so existing users keep their data.
+export const loadPersistedState = async (): Promise<{ data: any; version: number; legacy: boolean } | null> => {
+  const db = await openDB();
+  const tx = db.transaction([...COLLECTIONS, META_STORE], 'readonly');
+  const meta = tx.objectStore(META_STORE);
+  const version = await requestToPromise(meta.get('schemaVersion'));
+
+  if (version === undefined) {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? { data: JSON.parse(saved), version: 0, legacy: true } : null;
+  }
+
+  const data: Record<string, any[]> = {};
+  for (const collection of COLLECTIONS) {
+    const records = await requestToPromise(tx.objectStore(collection).getAll());
+    const order: string[] = (await requestToPromise(meta.get(orderKey(collection)))) || [];
+    const position = new Map(order.map((id, idx) => [id, idx]));
+    records.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+    data[collection] = records;
+  }
+  for (const collection of BLOB_COLLECTIONS) {
+    data[collection] = await Promise.all(data[collection].map(r => fromRecord(collection, r)));
+  }
+
+  return { data, version, legacy: false };
+};
+
+// Writes the difference between two states. Collections are compared by reference (state updates are
+// immutable), so only changed collections and changed items are touched. prev = null rewrites everything.
+export const saveState = async (prev: AppState | null, next: AppState): Promise<void> => {
+  const changed = COLLECTIONS.filter(c => !prev || prev[c] !== next[c]);
+  if (changed.length === 0) return;
+
+  const db = await openDB();
+  const tx = db.transaction([...changed, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+
+  changed.forEach(collection => {
+    const store = tx.objectStore(collection);
+    const items = next[collection] as { id: string }[];
+
+    if (!prev) {
+      store.clear();
+      items.forEach(item => store.put(toRecord(collection, item)));
+    } else {
+      const prevItems = new Map((prev[collection] as { id: string }[]).map(item => [item.id, item]));
+      items.forEach(item => {
+        if (prevItems.get(item.id) !== item) store.put(toRecord(collection, item));
+        prevItems.delete(item.id);
+      });
+      prevItems.forEach((_, id) => store.delete(id));
+    }
+    meta.put(items.map(item => item.id), orderKey(collection));
+  });
+  meta.put(SCHEMA_VERSION, 'schemaVersion');
+
+  await transactionDone(tx);
+};
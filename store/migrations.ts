@@ -0,0 +1,259 @@
+import { AppState, Room, ScheduleItem, ScheduleStatus, SubjectProgressRecord, Curriculum } from '../types';
+import { generateId, normalizeRoomName, archiveClassData, isCulture8Class, isDefaultClassSubject } from '../utils';
+
+// Bump when the shape of AppState changes (new collection, renamed field...) and append a migration below.
+// Also used as the IndexedDB version so new object stores get created.
+export const SCHEMA_VERSION = 12;
+
+interface Migration {
+  version: number; // Version the data has after this step
+  description: string;
+  migrate: (data: any, defaults: AppState) => any;
+}
+
+const asArray = (value: any) => Array.isArray(value) ? value : [];
+
+// Older saved data stored the room as free text in ScheduleItem.roomId.
+// Build Room entities from those values (merging "P101" / "p101 ") and point schedules at them.
+const migrateLegacyRooms = (schedules: ScheduleItem[]): { rooms: Room[]; schedules: ScheduleItem[] } => {
+  const roomMap: Record<string, Room> = {};
+  schedules.forEach(s => {
+    const key = normalizeRoomName(s.roomId);
+    if (key && !roomMap[key]) {
+      roomMap[key] = { id: generateId(), name: s.roomId.trim(), capacity: 0, equipment: [] };
+    }
+  });
+  return {
+    rooms: Object.values(roomMap),
+    schedules: schedules.map(s => {
+      const room = roomMap[normalizeRoomName(s.roomId)];
+      return room ? { ...s, roomId: room.id } : s;
+    })
+  };
+};
+
+// Progress/payment side data kept in separate localStorage keys before schema version 3.
+// Backups of that era carry the same values in their `meta` section.
+const LEGACY_PROGRESS_KEYS = {
+  progress: 'subject_progress_metadata',
+  paid: 'paid_completed_subjects',
+  manual: 'manual_completed_subjects',
+};
+
+export interface LegacyProgressMeta {
+  progress?: Record<string, Partial<SubjectProgressRecord>>; // "subjectId-classId" -> override/dates
+  paid?: string[];   // "subjectId-classId"
+  manual?: string[]; // "subjectId-classId"
+}
+
+export const readLegacyProgressMeta = (): LegacyProgressMeta => {
+  const read = (key: string) => {
+    try {
+      const value = localStorage.getItem(key);
+      return value ? JSON.parse(value) : undefined;
+    } catch (e) {
+      console.error(e);
+      return undefined;
+    }
+  };
+  return {
+    progress: read(LEGACY_PROGRESS_KEYS.progress),
+    paid: read(LEGACY_PROGRESS_KEYS.paid),
+    manual: read(LEGACY_PROGRESS_KEYS.manual),
+  };
+};
+
+export const clearLegacyProgressMeta = () => {
+  Object.values(LEGACY_PROGRESS_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+const migrateLegacyProgress = (data: any): SubjectProgressRecord[] => {
+  const meta: LegacyProgressMeta = data.meta || {};
+  const records: Record<string, SubjectProgressRecord> = {};
+
+  // Keys are "subjectId-classId"; resolve them against existing ids since ids may contain '-'
+  const pairs: Record<string, { subjectId: string; classId: string }> = {};
+  data.subjects.forEach((s: { id: string }) => data.classes.forEach((c: { id: string }) => {
+    pairs[`${s.id}-${c.id}`] = { subjectId: s.id, classId: c.id };
+  }));
+
+  const recordFor = (key: string) => {
+    const pair = pairs[key];
+    if (!pair) return null;
+    if (!records[key]) records[key] = { id: generateId(), ...pair };
+    return records[key];
+  };
+
+  Object.entries(meta.progress || {}).forEach(([key, value]) => {
+    const record = recordFor(key);
+    if (record) {
+      record.statusOverride = value.statusOverride;
+      record.customStartDate = value.customStartDate;
+      record.customEndDate = value.customEndDate;
+      record.customExamDate = value.customExamDate;
+    }
+  });
+  asArray(meta.paid).forEach((key: string) => {
+    const record = recordFor(key);
+    if (record) record.paid = true;
+  });
+  asArray(meta.manual).forEach((key: string) => {
+    const record = recordFor(key);
+    if (record) record.manualCompleted = true;
+  });
+
+  return Object.values(records);
+};
+
+// Curricula from the subject selection that used to be inferred from the class: subjects of its major,
+// 'common' subjects, and 'culture' subjects - or 'culture_8' ones when the class name contains "H8".
+// One curriculum per major + intake year (first year of schoolYear) + culture track; classes get linked to it.
+const migrateLegacyCurricula = (data: any): { curricula: Curriculum[]; classes: any[] } => {
+  const subjects = asArray(data.subjects);
+  const majors = asArray(data.majors);
+  const curricula: Record<string, Curriculum> = {};
+
+  const classes = asArray(data.classes).map((cls: any) => {
+    if (!cls || cls.curriculumId) return cls;
+    const isH8 = isCulture8Class(cls);
+    const intakeYear = Number(String(cls.schoolYear || '').match(/\d{4}/)?.[0]) || new Date().getFullYear();
+    const key = `${cls.majorId}|${intakeYear}|${isH8 ? 'H8' : ''}`;
+    if (!curricula[key]) {
+      const majorName = majors.find((m: any) => m.id === cls.majorId)?.name || 'Ngành';
+      curricula[key] = {
+        id: generateId(),
+        name: `${majorName} K${intakeYear}${isH8 ? ' (Văn hóa 8 môn)' : ''}`,
+        majorId: cls.majorId,
+        intakeYear,
+        subjects: subjects
+          .filter((s: any) => isDefaultClassSubject(cls, s))
+          .map((s: any) => ({ subjectId: s.id })),
+      };
+    }
+    return { ...cls, curriculumId: curricula[key].id };
+  });
+
+  return { curricula: Object.values(curricula), classes };
+};
+
+// Practice periods were implied by group sessions ("Nhóm 1"...) counted on top of the whole-class ones.
+// Estimate Subject.practicePeriods as the largest group total of any class and record the groups on the classes.
+const migratePracticeGroups = (data: any) => {
+  const grouped = asArray(data.schedules).filter((s: any) => s && s.group && s.type === 'class' && s.status !== ScheduleStatus.OFF);
+  const groupPeriods: Record<string, number> = {}; // subjectId|classId|group -> periods
+  const classGroups: Record<string, Set<string>> = {};
+  grouped.forEach((s: any) => {
+    const key = `${s.subjectId}|${s.classId}|${s.group}`;
+    groupPeriods[key] = (groupPeriods[key] || 0) + (Number(s.periodCount) || 0);
+    (classGroups[s.classId] = classGroups[s.classId] || new Set()).add(s.group);
+  });
+  const practiceOf = (subjectId: string) => Math.max(0, ...Object.entries(groupPeriods)
+    .filter(([key]) => key.startsWith(`${subjectId}|`))
+    .map(([, periods]) => periods));
+
+  return {
+    ...data,
+    subjects: asArray(data.subjects).map((s: any) => s && s.practicePeriods === undefined && practiceOf(s.id) > 0
+      ? { ...s, practicePeriods: Math.min(practiceOf(s.id), Number(s.totalPeriods) || 0) }
+      : s),
+    classes: asArray(data.classes).map((c: any) => c && !c.practiceGroups && classGroups[c.id]
+      ? { ...c, practiceGroups: Array.from(classGroups[c.id]).sort() }
+      : c),
+  };
+};
+
+// Ordered by version. Each step must tolerate data that already has the newer shape
+// (backups without a version number are migrated from 0).
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Ensure every collection exists (unversioned localStorage data and backups)',
+    migrate: (data, defaults) => ({
+      ...data,
+      teachers: asArray(data.teachers),
+      subjects: asArray(data.subjects),
+      classes: asArray(data.classes),
+      students: asArray(data.students),
+      schedules: asArray(data.schedules),
+      majors: Array.isArray(data.majors) ? data.majors : defaults.majors,
+      documents: asArray(data.documents),
+      templates: asArray(data.templates),
+      holidays: asArray(data.holidays),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Room entities from free-text ScheduleItem.roomId',
+    migrate: data => Array.isArray(data.rooms) ? data : { ...data, ...migrateLegacyRooms(data.schedules) },
+  },
+  {
+    version: 3,
+    description: 'SubjectProgressRecord from the legacy progress/paid/manual side data (data.meta)',
+    migrate: data => {
+      const { meta, ...rest } = data;
+      return {
+        ...rest,
+        subjectProgress: Array.isArray(data.subjectProgress) ? data.subjectProgress : migrateLegacyProgress(data),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Payment ledger (payments, paymentBatches)',
+    migrate: data => ({ ...data, payments: asArray(data.payments), paymentBatches: asArray(data.paymentBatches) }),
+  },
+  {
+    version: 5,
+    description: 'Rate tables (rateRules)',
+    migrate: data => ({ ...data, rateRules: asArray(data.rateRules) }),
+  },
+  {
+    version: 6,
+    description: 'Attendance roll calls (attendance)',
+    migrate: data => ({ ...data, attendance: asArray(data.attendance) }),
+  },
+  {
+    version: 7,
+    description: 'Grade book (grades)',
+    migrate: data => ({ ...data, grades: asArray(data.grades) }),
+  },
+  {
+    version: 8,
+    description: 'Saved Excel import column mappings (importMappings)',
+    migrate: data => ({ ...data, importMappings: asArray(data.importMappings) }),
+  },
+  {
+    version: 9,
+    description: 'Class archive store (classArchives); classes flagged archived move their data into it',
+    migrate: data => {
+      const archivedAt = new Date().toISOString();
+      return asArray(data.classes)
+        .filter((c: any) => c && c.archived)
+        .reduce((acc: any, c: any) => archiveClassData(acc, c.id, archivedAt), { ...data, classArchives: asArray(data.classArchives) });
+    },
+  },
+  {
+    version: 10,
+    description: 'Academic years and semesters (academicYears, semesters)',
+    migrate: data => ({ ...data, academicYears: asArray(data.academicYears), semesters: asArray(data.semesters) }),
+  },
+  {
+    version: 11,
+    description: 'Curricula per major and intake (curricula, ClassEntity.curriculumId) replacing the class name heuristics',
+    migrate: data => Array.isArray(data.curricula) ? data : { ...data, ...migrateLegacyCurricula(data) },
+  },
+  {
+    version: 12,
+    description: 'Theory/practice split (Subject.practicePeriods) and practice groups per class (ClassEntity.practiceGroups)',
+    migrate: migratePracticeGroups,
+  },
+];
+
+// Brings data saved with `fromVersion` up to SCHEMA_VERSION
+export const migrateData = (raw: any, fromVersion: number, defaults: AppState): AppState => {
+  let data = raw && typeof raw === 'object' ? raw : {};
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .forEach(m => { data = m.migrate(data, defaults); });
+  return data as AppState;
+};
@@ -18,15 +18,33 @@ export interface Teacher {
   accountNumber: string;
   bank: string;
   mainSubject: string; // ID of the subject they usually teach
-  ratePerPeriod: number;
+  ratePerPeriod: number; // Default rate when no RateRule sets one
+  category?: string; // Pay category matched by RateRule.teacherCategory (e.g. "Cơ hữu", "Thỉnh giảng")
+  availability?: TeacherAvailability; // Undefined = available any time
+  unavailableDates?: TeacherUnavailability[]; // Leave, business trips...
+  archived?: boolean; // Kept for history/reports but hidden from selectors (see DeleteStrategy)
+}
+
+// Weekly availability: weekday (1 = Monday ... 6 = Saturday, 0 = Sunday) -> sessions the teacher can teach
+export type TeacherAvailability = Record<number, Session[]>;
+
+// Dated exception: teacher is absent for the whole day(s)
+export interface TeacherUnavailability {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  reason: string;
 }
 
 export interface Subject {
   id: string;
   name: string;
   majorId: string; // Industry/Major
-  totalPeriods: number;
+  totalPeriods: number; // Theory + practice periods of the programme
+  practicePeriods?: number; // Thực hành part of totalPeriods, taught to each practice group; the rest is theory (see getPeriodSplit)
   isShared?: boolean; // NEW: Flag for shared subjects (Combined classes)
+  requiredEquipment?: string[]; // Equipment a practice room must have (e.g. "Máy tính")
+  assessmentComponents?: AssessmentComponent[]; // Grade book columns; default set when empty
   // Responsible teachers
   teacher1?: string;
   phone1?: string;
@@ -34,14 +52,55 @@ export interface Subject {
   phone2?: string;
   teacher3?: string;
   phone3?: string;
+  archived?: boolean; // Kept for history/reports but hidden from selectors
+}
+
+// Assessment component of a subject (Thường xuyên, Định kỳ, Thi kết thúc...)
+export interface AssessmentComponent {
+  id: string;
+  name: string;
+  weight: number; // Percent of the final score; weights of a subject add up to 100
+  isFinalExam?: boolean; // Replaced by the re-exam score when the student re-sits
 }
 
 export interface ClassEntity {
   id: string;
   name: string;
-  studentCount: number;
+  studentCount: number; // Planned headcount, only used until the class roster is entered (see getClassHeadcount)
   majorId: string;
   schoolYear: string;
+  curriculumId?: string; // Curriculum the class follows (see getClassSubjects)
+  practiceGroups?: string[]; // Practice groups ("Nhóm 1", "Nhóm 2"...); empty = practice with the whole class
+  archived?: boolean; // Hidden from selectors; its students, schedules... are in a ClassArchive
+}
+
+// Training programme (Chương trình đào tạo) of a major for one intake
+export interface Curriculum {
+  id: string;
+  name: string;       // e.g. "Điện công nghiệp K2025"
+  majorId: string;
+  intakeYear: number; // Khóa tuyển sinh
+  subjects: CurriculumSubject[];
+}
+
+export interface CurriculumSubject {
+  subjectId: string;
+  semesterNo?: number;      // Planned semester of the programme (1, 2, ...); empty = not planned yet (see getProgrammeSemesterNo)
+  prerequisiteIds?: string[]; // Subjects the class must have finished first
+}
+
+export type StudentStatus = 'studying' | 'reserved' | 'dropped';
+
+// One entry of a student's enrollment log: a status change, a class transfer, or both
+export interface StudentStatusChange {
+  id: string;
+  date: string; // YYYY-MM-DD, effective date
+  fromStatus?: StudentStatus; // Empty for the initial enrollment
+  toStatus: StudentStatus;
+  fromClassId?: string; // Set for class transfers
+  toClassId?: string;
+  reason?: string;
+  decisionNumber?: string; // Số quyết định
 }
 
 export interface Student {
@@ -54,7 +113,8 @@ export interface Student {
   fatherName: string;
   motherName: string;
   phone: string;
-  status: 'studying' | 'reserved' | 'dropped'; // NEW: Trạng thái học tập
+  status: StudentStatus; // NEW: Trạng thái học tập
+  statusHistory?: StudentStatusChange[]; // Oldest first
 }
 
 export interface ScheduleItem {
@@ -63,7 +123,7 @@ export interface ScheduleItem {
   teacherId: string;
   subjectId: string;
   classId: string;
-  roomId: string;
+  roomId: string; // ID of Room (legacy data may still hold free-text room names)
   date: string; // ISO Date string YYYY-MM-DD
   session: Session;
   startPeriod: number;
@@ -71,6 +131,25 @@ export interface ScheduleItem {
   status: ScheduleStatus;
   note?: string;
   group?: string; // NEW: Practice Group (Nhóm 1, Nhóm 2...)
+  seriesId?: string; // Sessions materialised from the same recurrence rule (see generateSeriesItems)
+  recurrence?: RecurrenceRule; // Rule of the series, kept on each session so "this and following" edits can re-run it
+  makeupNeeded?: boolean; // Cancelled (OFF) session: false when no make-up is owed (see getMakeupBalances)
+  makeupFor?: string[]; // Make-up (MAKEUP) session: IDs of the missed (OFF) sessions it replaces
+}
+
+// Weekly recurrence (Lịch lặp lại): same weekday and periods as the first session
+export interface RecurrenceRule {
+  intervalWeeks: number; // 1 = every week, 2 = every other week
+  untilDate?: string; // YYYY-MM-DD; empty = until the remaining periods of the subject are scheduled
+  onConflict: 'shift' | 'skip'; // Colliding session: move to another day of the same week, or leave the week out
+}
+
+export interface Room {
+  id: string;
+  name: string; // Display code, e.g. "P101", "Xưởng điện"
+  capacity: number; // Number of seats
+  equipment: string[]; // e.g. ["Máy chiếu", "Máy tính"]
+  note?: string;
 }
 
 export interface Major {
@@ -101,7 +180,7 @@ export interface TeacherStat {
 export interface ExportTemplate {
   id: string;
   name: string;
-  type: 'payment_excel' | 'student_list_excel' | 'invitation_word'; // Updated
+  type: 'payment_excel' | 'student_list_excel' | 'invitation_word' | 'grade_sheet_excel';
   content: string; // Base64 Data URL
 }
 
@@ -114,6 +193,145 @@ export interface Holiday {
   note?: string;
 }
 
+// School year (Năm học), e.g. "2025-2026", split into semesters
+export interface AcademicYear {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+}
+
+// Semester (Học kỳ) of an academic year. Week 1 is the week (Monday-based) containing startDate.
+export interface Semester {
+  id: string;
+  academicYearId: string;
+  name: string; // e.g. "Học kỳ 1"
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+}
+
+// Manual progress/payment state of one subject in one class (Tiến độ giảng dạy, Thanh toán)
+export interface SubjectProgressRecord {
+  id: string;
+  subjectId: string;
+  classId: string;
+  statusOverride?: 'upcoming' | 'completed' | 'in-progress' | 'auto';
+  customStartDate?: string; // YYYY-MM-DD
+  customEndDate?: string;   // YYYY-MM-DD
+  customExamDate?: string;  // YYYY-MM-DD
+  manualCompleted?: boolean; // Marked finished by hand (older versions)
+  paid?: boolean; // Removed from the "to be paid" list
+  paymentDate?: string; // YYYY-MM-DD
+}
+
+// Ledger entry: one payment to a teacher for a subject taught in a class
+export interface PaymentRecord {
+  id: string;
+  teacherId: string;
+  subjectId: string;
+  classId: string;
+  periods: number; // Periods paid
+  rate: number;    // Rate per period used (VND)
+  amount: number;  // Total amount (VND)
+  paymentDate: string; // YYYY-MM-DD
+  voucherNumber: string; // Số phiếu chi
+  note?: string;
+  batchId?: string; // PaymentBatch the record is grouped in
+  reversedAt?: string; // Set when a mistaken payment is reversed (YYYY-MM-DD)
+  reversalReason?: string;
+}
+
+// Monthly payment batch (Đợt thanh toán) grouping several PaymentRecords
+export interface PaymentBatch {
+  id: string;
+  name: string;
+  month: string; // YYYY-MM
+  createdAt: string; // ISO String
+  note?: string;
+}
+
+// Rate table entry. For each ScheduleItem the rules valid on its date and matching its teacher/session/type apply:
+// the most specific rule with a `rate` sets the base rate (default Teacher.ratePerPeriod),
+// then the multipliers of all matching rules are applied (e.g. evening x1.2).
+export interface RateRule {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, effective from
+  endDate?: string;  // YYYY-MM-DD, open-ended when empty
+  teacherId?: string;       // Only this teacher
+  teacherCategory?: string; // Only teachers of this category
+  session?: Session;        // Only sessions of this type (Sáng/Chiều/Tối)
+  scheduleType?: 'class' | 'exam'; // Teaching or exam (invigilation, practice exam)
+  sessionKind?: 'theory' | 'practice'; // Lý thuyết or thực hành (see isPracticeSession)
+  rate?: number;     // Base rate per period (VND)
+  multiplier: number; // 1 = unchanged
+}
+
+// Roll call (Điểm danh) of one class session
+export type AttendanceStatus = 'present' | 'excused' | 'unexcused' | 'late';
+
+export interface AttendanceEntry {
+  studentId: string;
+  status: AttendanceStatus;
+  note?: string;
+}
+
+export interface AttendanceRecord {
+  id: string;
+  scheduleId: string; // ScheduleItem of type 'class'
+  takenAt: string;    // ISO String
+  entries: AttendanceEntry[];
+}
+
+// Scores of one student in one subject (scale 10)
+export interface GradeRecord {
+  id: string;
+  subjectId: string;
+  classId: string;
+  studentId: string;
+  scores: Record<string, number>; // AssessmentComponent id -> score
+  reExamScore?: number;      // Điểm thi lại
+  reExamScheduleId?: string; // Exam ScheduleItem created for the re-exam
+}
+
+// Deleting a teacher / subject / class that other data still references
+export type DeleteKind = 'teacher' | 'subject' | 'class';
+
+export type DeleteStrategy =
+  | { mode: 'reassign'; targetId: string } // Move the references to another record of the same kind, then delete
+  | { mode: 'archive' }                    // Keep everything, hide the record from selectors
+  | { mode: 'cascade' };                   // Delete the record together with the data that depends on it
+
+// Finished class moved out of the working collections: read-only until restored.
+// The ClassEntity stays in `classes` (archived = true) so payments and history still resolve its name.
+export interface ClassArchive {
+  id: string;
+  classId: string;
+  archivedAt: string; // ISO String
+  note?: string;
+  students: Student[];
+  schedules: ScheduleItem[];
+  subjectProgress: SubjectProgressRecord[];
+  attendance: AttendanceRecord[];
+  grades: GradeRecord[];
+}
+
+// Existing record matched by an Excel re-import and the fields to change
+export interface ImportUpdate<T> {
+  id: string;
+  changes: Partial<T>;
+}
+
+export type ImportTarget = 'teachers' | 'subjects' | 'classes' | 'rooms' | 'students';
+
+// Excel column mapping remembered per import type
+export interface ImportMapping {
+  id: string;
+  target: ImportTarget;
+  headerRow: number; // 1-based row holding the column titles
+  columns: Record<string, string>; // Field key -> header text of the mapped column
+}
+
 // Global App State Interface
 export interface AppState {
   teachers: Teacher[];
@@ -125,4 +343,16 @@ export interface AppState {
   documents: DocumentItem[];
   templates: ExportTemplate[]; 
   holidays: Holiday[]; // NEW
+  rooms: Room[];
+  subjectProgress: SubjectProgressRecord[];
+  payments: PaymentRecord[];
+  paymentBatches: PaymentBatch[];
+  rateRules: RateRule[];
+  attendance: AttendanceRecord[];
+  grades: GradeRecord[];
+  importMappings: ImportMapping[];
+  classArchives: ClassArchive[];
+  academicYears: AcademicYear[];
+  semesters: Semester[];
+  curricula: Curriculum[];
 }
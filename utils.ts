@@ -1,6 +1,6 @@
 
-import { ScheduleItem, ScheduleStatus, Subject } from './types';
-import { isSameDay } from 'date-fns';
+import { ScheduleItem, ScheduleStatus, Subject, Room, ClassEntity, Student, Holiday, Session, Teacher, SubjectProgressRecord, PaymentRecord, RateRule, AttendanceRecord, AssessmentComponent, GradeRecord, AppState, DeleteKind, ClassArchive, Semester, AcademicYear, Curriculum, RecurrenceRule } from './types';
+import { isSameDay, addDays, format, startOfWeek, differenceInCalendarWeeks } from 'date-fns';
 
 export const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -37,14 +37,149 @@ export const base64ToArrayBuffer = (base64: string) => {
     return bytes.buffer;
 }
 
+// Normalize a free-text room code so "P101", "p101 " and "P.101" compare equal (case, spaces and punctuation ignored)
+export const normalizeRoomName = (name: string) => (name || '').toUpperCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Resolve a ScheduleItem.roomId to a stable comparison key.
+// roomId is normally a Room id, but legacy items may still hold the typed room name.
+export const getRoomKey = (roomId: string, rooms: Room[] = []): string => {
+  const byId = rooms.find(r => r.id === roomId);
+  if (byId) return byId.id;
+  const normalized = normalizeRoomName(roomId);
+  const byName = rooms.find(r => normalizeRoomName(r.name) === normalized);
+  return byName ? byName.id : normalized;
+};
+
+// Display name of a room (falls back to the raw value for legacy free-text rooms)
+export const getRoomName = (roomId: string, rooms: Room[] = []): string => {
+  const room = rooms.find(r => r.id === roomId);
+  return room ? room.name : roomId;
+};
+
+// Rooms shown in occupancy views: the room list plus legacy free-text rooms still used by sessions
+export const getOccupancyRooms = (schedules: ScheduleItem[], rooms: Room[]): { key: string; name: string; room?: Room }[] => {
+  const result = rooms.map(r => ({ key: r.id, name: r.name, room: r as Room | undefined }));
+  schedules.forEach(s => {
+    if (!s.roomId) return;
+    const key = getRoomKey(s.roomId, rooms);
+    if (!result.some(r => r.key === key)) result.push({ key, name: s.roomId, room: undefined });
+  });
+  return result;
+};
+
+// Rooms with no session overlapping the given periods (cancelled sessions and `excludeIds` ignored),
+// i.e. the rooms checkConflict would not report as "Trùng phòng học"
+export const findFreeRooms = (
+  date: string,
+  startPeriod: number,
+  periodCount: number,
+  schedules: ScheduleItem[],
+  rooms: Room[],
+  excludeIds: string[] = []
+): Room[] => {
+  const end = startPeriod + periodCount;
+  const busy = new Set(
+    schedules
+      .filter(s => s.date === date && s.status !== ScheduleStatus.OFF && !excludeIds.includes(s.id))
+      .filter(s => s.startPeriod < end && s.startPeriod + s.periodCount > startPeriod)
+      .map(s => getRoomKey(s.roomId, rooms))
+  );
+  return rooms.filter(r => !busy.has(r.id));
+};
+
+// Class headcount = students currently studying. Classes whose roster has not been entered yet
+// fall back to the planned ClassEntity.studentCount.
+export const getClassHeadcount = (cls: ClassEntity, students: Student[]): number => {
+  const roster = students.filter(s => s.classId === cls.id);
+  if (roster.length === 0) return cls.studentCount || 0;
+  return roster.filter(s => (s.status || 'studying') === 'studying').length;
+};
+
+// Capacity & equipment warnings. These never block saving, they are shown to the user for confirmation.
+export const checkRoomSuitability = (
+  newItem: Pick<ScheduleItem, 'roomId' | 'classId' | 'subjectId'>,
+  rooms: Room[],
+  classes: ClassEntity[],
+  subjects: Subject[],
+  students: Student[] = []
+): string[] => {
+  const warnings: string[] = [];
+  const room = rooms.find(r => r.id === getRoomKey(newItem.roomId, rooms));
+  if (!room) return warnings;
+
+  const cls = classes.find(c => c.id === newItem.classId);
+  const headcount = cls ? getClassHeadcount(cls, students) : 0;
+  if (cls && room.capacity > 0 && headcount > room.capacity) {
+    warnings.push(`Phòng ${room.name} chỉ có ${room.capacity} chỗ, lớp ${cls.name} có ${headcount} HS.`);
+  }
+
+  const subject = subjects.find(s => s.id === newItem.subjectId);
+  const required = subject?.requiredEquipment || [];
+  if (required.length > 0) {
+    const available = room.equipment.map(e => e.trim().toLowerCase());
+    const missing = required.filter(e => !available.includes(e.trim().toLowerCase()));
+    if (missing.length > 0) {
+      warnings.push(`Phòng ${room.name} thiếu thiết bị cho môn ${subject!.name}: ${missing.join(', ')}.`);
+    }
+  }
+
+  return warnings;
+};
+
+// Optional master data used by checkConflict for non-blocking warnings
+export interface ConflictResources {
+  teachers?: Teacher[];
+  rooms?: Room[];
+  classes?: ClassEntity[];
+  students?: Student[]; // For headcounts in the room capacity warning
+}
+
+// Vietnamese weekday name (0 = Sunday)
+export const getWeekdayLabel = (day: number) => day === 0 ? 'Chủ nhật' : `Thứ ${day + 1}`;
+
+// Returns a message when the session falls outside the teacher's weekly availability or dated leave, '' otherwise
+export const checkTeacherAvailability = (
+  newItem: Pick<ScheduleItem, 'teacherId' | 'date' | 'startPeriod' | 'periodCount'>,
+  teachers: Teacher[]
+): string => {
+  const teacher = teachers.find(t => t.id === newItem.teacherId);
+  if (!teacher) return '';
+
+  const leave = (teacher.unavailableDates || []).find(u => newItem.date >= u.startDate && newItem.date <= u.endDate);
+  if (leave) {
+    const range = leave.startDate === leave.endDate
+      ? format(parseLocal(leave.startDate), 'dd/MM/yyyy')
+      : `${format(parseLocal(leave.startDate), 'dd/MM/yyyy')} - ${format(parseLocal(leave.endDate), 'dd/MM/yyyy')}`;
+    return `GV ${teacher.name} vắng mặt (${range})${leave.reason ? `: ${leave.reason}` : ''}.`;
+  }
+
+  if (teacher.availability) {
+    const day = parseLocal(newItem.date).getDay();
+    const allowed = teacher.availability[day] || [];
+    const sessions = new Set<Session>();
+    for (let p = newItem.startPeriod; p < newItem.startPeriod + newItem.periodCount; p++) {
+      sessions.add(getSessionFromPeriod(p));
+    }
+    const missing = Array.from(sessions).filter(s => !allowed.includes(s));
+    if (missing.length > 0) {
+      return `GV ${teacher.name} không dạy buổi ${missing.join('/')} ${getWeekdayLabel(day)}.`;
+    }
+  }
+
+  return '';
+};
+
 // Conflict Checker
 export const checkConflict = (
   newItem: Omit<ScheduleItem, 'id' | 'status'>,
   existingItems: ScheduleItem[],
   subjects: Subject[], // NEW: Pass subjects list to check for isShared
-  excludeIds?: string | string[] // Modified to support array
-): { hasConflict: boolean; message: string } => {
+  excludeIds?: string | string[], // Modified to support array
+  resources: ConflictResources = {}
+): { hasConflict: boolean; message: string; warnings: string[] } => {
   const newItemEnd = newItem.startPeriod + newItem.periodCount;
+  const rooms = resources.rooms || [];
+  const newRoomKey = getRoomKey(newItem.roomId, rooms);
   
   // Find current subject details
   const currentSubject = subjects.find(s => s.id === newItem.subjectId);
@@ -52,6 +187,11 @@ export const checkConflict = (
 
   const excluded = Array.isArray(excludeIds) ? excludeIds : (excludeIds ? [excludeIds] : []);
 
+  if (resources.teachers) {
+    const unavailable = checkTeacherAvailability(newItem, resources.teachers);
+    if (unavailable) return { hasConflict: true, message: unavailable, warnings: [] };
+  }
+
   for (const item of existingItems) {
     if (excluded.includes(item.id)) continue;
     if (item.status === ScheduleStatus.OFF) continue; // Ignored cancelled classes
@@ -67,7 +207,7 @@ export const checkConflict = (
         // 1. Absolute rule: Cannot schedule the EXACT SAME subject for the EXACT SAME class at the same time.
         // This prevents accidental double-entries, which is likely a mistake even for shared subjects.
         if (item.classId === newItem.classId && item.subjectId === newItem.subjectId) {
-             return { hasConflict: true, message: `Lớp này đã có lịch môn này vào giờ này rồi.` };
+             return { hasConflict: true, message: `Lớp này đã có lịch môn này vào giờ này rồi.`, warnings: [] };
         }
 
         // Shared Subject Logic:
@@ -77,7 +217,7 @@ export const checkConflict = (
             const isSameSharedInstance = 
                 item.subjectId === newItem.subjectId &&
                 item.teacherId === newItem.teacherId &&
-                item.roomId === newItem.roomId;
+                getRoomKey(item.roomId, rooms) === newRoomKey;
 
             if (isSameSharedInstance) {
                 // This is a sibling class in the same shared session. Allow overlap.
@@ -87,63 +227,450 @@ export const checkConflict = (
         }
 
         // Standard Checks for Normal Subjects (or non-matching Shared Subjects)
-        if (item.roomId === newItem.roomId) {
-             return { hasConflict: true, message: `Trùng phòng học: ${item.roomId} đã có lớp.` };
+        if (getRoomKey(item.roomId, rooms) === newRoomKey) {
+             return { hasConflict: true, message: `Trùng phòng học: ${getRoomName(item.roomId, rooms)} đã có lớp.`, warnings: [] };
         }
         if (item.teacherId === newItem.teacherId) {
-             return { hasConflict: true, message: `Trùng giáo viên: GV này đang dạy lớp khác.` };
+             return { hasConflict: true, message: `Trùng giáo viên: GV này đang dạy lớp khác.`, warnings: [] };
         }
         if (item.classId === newItem.classId) {
-             return { hasConflict: true, message: `Trùng lịch học của lớp: Lớp này đang học môn khác.` };
+             return { hasConflict: true, message: `Trùng lịch học của lớp: Lớp này đang học môn khác.`, warnings: [] };
         }
         
         // Specific check for exams vs class
         if (item.type === 'exam' && newItem.type === 'class' && item.classId === newItem.classId) {
-             return { hasConflict: true, message: `Lớp có lịch thi vào giờ này.` };
+             return { hasConflict: true, message: `Lớp có lịch thi vào giờ này.`, warnings: [] };
         }
         if (item.type === 'class' && newItem.type === 'exam' && item.classId === newItem.classId) {
-             return { hasConflict: true, message: `Lớp có lịch học vào giờ này.` };
+             return { hasConflict: true, message: `Lớp có lịch học vào giờ này.`, warnings: [] };
         }
       }
     }
   }
 
-  return { hasConflict: false, message: '' };
+  const warnings = resources.rooms && resources.classes
+    ? checkRoomSuitability(newItem, resources.rooms, resources.classes, subjects, resources.students)
+    : [];
+
+  return { hasConflict: false, message: '', warnings };
+};
+
+// Theory is taught once to the whole class, practice once per practice group.
+// Subjects without practice periods count all their periods as theory.
+export const getPeriodSplit = (subject: Subject): { theory: number; practice: number } => {
+  const practice = Math.min(subject.practicePeriods || 0, subject.totalPeriods);
+  return { theory: subject.totalPeriods - practice, practice };
 };
 
+export interface PeriodProgress {
+  learned: number;
+  total: number;
+  percentage: number;
+  remaining: number;
+}
+
+const toPeriodProgress = (learned: number, total: number): PeriodProgress => ({
+  learned,
+  total,
+  percentage: total > 0 ? Math.min(100, Math.round((learned / total) * 100)) : 100,
+  remaining: Math.max(0, total - learned)
+});
+
+export interface SubjectComponentProgress extends PeriodProgress {
+  theory: PeriodProgress;
+  practice: (PeriodProgress & { group?: string })[]; // One per practice group; a single whole-class entry when the class has none
+  finished: boolean;
+}
+
+// Progress of a subject for a class, split into theory and practice per group.
+// Whole-class sessions count towards theory first; periods beyond it are practice done together and count for every group.
+// Group sessions ("Nhóm 1"...) only count towards that group's practice, or towards the whole subject when it has
+// no practice periods (the split is not declared). `until` limits to sessions up to that day.
+export const getSubjectComponentProgress = (
+  subject: Subject,
+  classId: string,
+  schedules: ScheduleItem[],
+  practiceGroups: string[] = [],
+  until?: Date
+): SubjectComponentProgress => {
+  const { theory, practice } = getPeriodSplit(subject);
+  const sessions = schedules.filter(s =>
+    s.subjectId === subject.id && s.classId === classId && s.type === 'class' && s.status !== ScheduleStatus.OFF &&
+    (!until || parseLocal(s.date) <= until)
+  );
+  const sum = (items: ScheduleItem[]) => items.reduce((acc, curr) => acc + curr.periodCount, 0);
+
+  const common = sum(sessions.filter(s => !s.group || practice === 0));
+  const commonPractice = Math.max(0, common - theory);
+  const groups = Array.from(new Set([...practiceGroups, ...sessions.map(s => s.group).filter((g): g is string => !!g)])).sort();
+
+  const theoryProgress = toPeriodProgress(Math.min(common, theory), theory);
+  const practiceProgress = practice === 0 ? [] : groups.length > 0
+    ? groups.map(group => ({ group, ...toPeriodProgress(Math.min(practice, commonPractice + sum(sessions.filter(s => s.group === group))), practice) }))
+    : [toPeriodProgress(Math.min(practice, commonPractice), practice)];
+
+  const learned = theoryProgress.learned + practiceProgress.reduce((acc, p) => acc + p.learned, 0);
+  const total = theory + practiceProgress.reduce((acc, p) => acc + p.total, 0);
+  return { ...toPeriodProgress(learned, total), theory: theoryProgress, practice: practiceProgress, finished: learned > 0 && learned >= total };
+};
+
+// Periods still to schedule for one stream of sessions: the whole class (no group) or one practice group.
+// The whole class covers theory, plus practice when the class is not split into groups. Without practice
+// periods every session, grouped or not, counts towards the whole subject.
 export const calculateSubjectProgress = (
-  subjectId: string, 
-  classId: string, 
-  totalPeriods: number, 
+  subject: Subject,
+  classId: string,
   schedules: ScheduleItem[],
-  group?: string // NEW: Optional group filter
-) => {
-  const learned = schedules
-    .filter(s => {
-        if (s.subjectId !== subjectId || s.classId !== classId || s.status === ScheduleStatus.OFF) return false;
-        
-        // Logic:
-        // If checking progress for a specific group (e.g., "Group 1"):
-        // Count items that are "Shared/Common" (no group) OR items belonging to "Group 1".
-        // Do NOT count items belonging to "Group 2".
-        if (group) {
-            return !s.group || s.group === group;
+  group?: string,
+  practiceGroups: string[] = []
+): PeriodProgress => {
+  const progress = getSubjectComponentProgress(subject, classId, schedules, practiceGroups);
+  const { theory, practice } = getPeriodSplit(subject);
+  if (group && practice > 0) {
+    return progress.practice.find(p => p.group === group) || toPeriodProgress(0, 0);
+  }
+  const wholeClass = progress.practice.length === 1 && !progress.practice[0].group;
+  const common = schedules
+    .filter(s => s.subjectId === subject.id && s.classId === classId && s.type === 'class' && s.status !== ScheduleStatus.OFF && (!s.group || practice === 0))
+    .reduce((acc, curr) => acc + curr.periodCount, 0);
+  return toPeriodProgress(common, theory + (wholeClass ? practice : 0));
+};
+
+// Total periods of a subject for a class: theory once plus practice for each group
+export const getSubjectTotalPeriods = (subject: Subject, practiceGroups: string[] = []): number => {
+  const { theory, practice } = getPeriodSplit(subject);
+  return theory + practice * Math.max(1, practiceGroups.length);
+};
+
+// Auto timetable generator (Xếp lịch tự động)
+export interface AutoScheduleSubject {
+  subjectId: string;
+  teacherId: string;
+  remaining: number; // Periods still to be scheduled
+}
+
+export interface AutoScheduleOptions {
+  classId: string;
+  roomId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  subjects: AutoScheduleSubject[];
+  weekdays: number[]; // 1 = Monday ... 6 = Saturday
+  sessions: Session[]; // 'Sáng' (periods 1-5) / 'Chiều' (periods 6-10) / 'Tối' (periods 11-12)
+  maxPeriodsPerDay: number; // Includes periods already scheduled for the class that day
+  blockSize: number; // Preferred periods per session
+}
+
+const SESSION_RANGES: Record<Session, [number, number]> = {
+  'Sáng': [1, 5],
+  'Chiều': [6, 10],
+  'Tối': [11, 12],
+};
+
+// Every period of a day, evening included
+export const PERIODS = Array.from({ length: SESSION_RANGES['Tối'][1] }, (_, i) => i + 1);
+
+// Periods from `startPeriod` to the end of its session (a session never spans two parts of the day)
+export const getPeriodsLeftInSession = (startPeriod: number): number =>
+  SESSION_RANGES[getSessionFromPeriod(startPeriod)][1] - startPeriod + 1;
+
+// Part of the day with its periods, e.g. "Chiều (6-10)"
+export const getSessionLabel = (session: Session): string =>
+  `${session} (${SESSION_RANGES[session][0]}-${SESSION_RANGES[session][1]})`;
+
+// Fills the remaining periods of each subject into free slots between startDate and endDate.
+// Subjects are placed round-robin (one block per subject per day) so they progress in parallel.
+// Returns proposed items only; nothing is written to the store.
+export const generateAutoSchedule = (
+  options: AutoScheduleOptions,
+  existingItems: ScheduleItem[],
+  subjects: Subject[],
+  holidays: Holiday[],
+  resources: ConflictResources = {}
+): { items: ScheduleItem[]; unplaced: Record<string, number> } => {
+  const proposed: ScheduleItem[] = [];
+  const remaining: Record<string, number> = {};
+  options.subjects.forEach(s => { remaining[s.subjectId] = s.remaining; });
+
+  const start = parseLocal(options.startDate);
+  const end = parseLocal(options.endDate);
+  let rotation = 0;
+
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    if (!options.weekdays.includes(day.getDay())) continue;
+
+    const dateStr = format(day, 'yyyy-MM-dd');
+    if (holidays.some(h => dateStr >= h.startDate && dateStr <= h.endDate)) continue;
+
+    let dayCount = existingItems
+      .filter(s => s.classId === options.classId && s.date === dateStr && s.status !== ScheduleStatus.OFF)
+      .reduce((acc, s) => acc + s.periodCount, 0);
+    const placedToday = new Set<string>();
+
+    for (const session of options.sessions) {
+      const [sessionStart, sessionEnd] = SESSION_RANGES[session];
+      let cursor = sessionStart;
+
+      while (cursor <= sessionEnd && dayCount < options.maxPeriodsPerDay) {
+        const candidates = options.subjects.filter(s => remaining[s.subjectId] > 0 && !placedToday.has(s.subjectId));
+        if (candidates.length === 0) break;
+
+        let placed = false;
+        for (let i = 0; i < candidates.length; i++) {
+          const candidate = candidates[(rotation + i) % candidates.length];
+          const periodCount = Math.min(
+            options.blockSize,
+            remaining[candidate.subjectId],
+            sessionEnd - cursor + 1,
+            options.maxPeriodsPerDay - dayCount
+          );
+          if (periodCount <= 0) continue;
+
+          const newItem: Omit<ScheduleItem, 'id' | 'status'> = {
+            type: 'class',
+            teacherId: candidate.teacherId,
+            subjectId: candidate.subjectId,
+            classId: options.classId,
+            roomId: options.roomId,
+            date: dateStr,
+            session: getSessionFromPeriod(cursor),
+            startPeriod: cursor,
+            periodCount,
+          };
+
+          const conflict = checkConflict(newItem, [...existingItems, ...proposed], subjects, undefined, resources);
+          if (conflict.hasConflict) continue;
+
+          proposed.push({ ...newItem, id: generateId(), status: ScheduleStatus.PENDING });
+          remaining[candidate.subjectId] -= periodCount;
+          placedToday.add(candidate.subjectId);
+          dayCount += periodCount;
+          cursor += periodCount;
+          rotation++;
+          placed = true;
+          break;
         }
 
-        // If checking general progress (no group specified, e.g. Theory or Dashboard overview):
-        // Only count Shared/Common items.
-        // NOTE: If this is too strict for dashboard, we might need a different flag.
-        // But for "Continuing Schedule", this is correct: Theory continues Theory.
-        return !s.group;
-    })
-    .reduce((acc, curr) => acc + curr.periodCount, 0);
-  
-  return {
-    learned,
-    total: totalPeriods,
-    percentage: Math.min(100, Math.round((learned / totalPeriods) * 100)),
-    remaining: Math.max(0, totalPeriods - learned)
+        // Nothing fits at this period (teacher/room busy) -> try the next period
+        if (!placed) cursor++;
+      }
+    }
+
+    if (Object.values(remaining).every(r => r <= 0)) break;
+  }
+
+  const unplaced: Record<string, number> = {};
+  Object.keys(remaining).forEach(id => {
+    if (remaining[id] > 0) unplaced[id] = remaining[id];
+  });
+
+  return { items: proposed, unplaced };
+};
+
+export interface SeriesIssue {
+  date: string; // Planned date of the session
+  reason: string;
+  shiftedTo?: string; // Set when the session was moved to another day of the week
+}
+
+// Materialises a weekly series from its first session: same periods every `intervalWeeks` weeks until
+// `totalPeriods` are placed (the last session is shortened) or the rule's untilDate. Holiday weeks are left out.
+// A session colliding with existing ones (checkConflict, for every class of a shared series) is moved to the
+// nearest free weekday of that week when onConflict = 'shift', otherwise left out. Returns proposed items only.
+export const generateSeriesItems = (
+  first: Omit<ScheduleItem, 'id' | 'status' | 'classId'>,
+  classIds: string[],
+  rule: RecurrenceRule,
+  totalPeriods: number,
+  existingItems: ScheduleItem[],
+  subjects: Subject[],
+  holidays: Holiday[],
+  resources: ConflictResources = {}
+): { items: ScheduleItem[]; issues: SeriesIssue[] } => {
+  const items: ScheduleItem[] = [];
+  const issues: SeriesIssue[] = [];
+  const holidayOn = (dateStr: string) => holidays.find(h => dateStr >= h.startDate && dateStr <= h.endDate);
+  const fits = (dateStr: string, periodCount: number) => classIds.every(classId =>
+    !checkConflict({ ...first, classId, date: dateStr, periodCount }, [...existingItems, ...items], subjects, undefined, resources).hasConflict
+  );
+
+  const start = parseLocal(first.date);
+  const interval = Math.max(1, rule.intervalWeeks || 1);
+  let placed = 0;
+  // Without an end date the series stops once the periods are placed; two years is a safety net
+  for (let week = 0; placed < totalPeriods && week < 104; week++) {
+    const day = addDays(start, week * 7 * interval);
+    const dateStr = format(day, 'yyyy-MM-dd');
+    if (rule.untilDate && dateStr > rule.untilDate) break;
+
+    const holiday = holidayOn(dateStr);
+    if (holiday) {
+      issues.push({ date: dateStr, reason: `Ngày nghỉ: ${holiday.name}` });
+      continue;
+    }
+
+    const periodCount = Math.min(first.periodCount, totalPeriods - placed);
+    let target: string | undefined = fits(dateStr, periodCount) ? dateStr : undefined;
+    if (!target && rule.onConflict === 'shift') {
+      // Other days of the same week (Mon-Sat), nearest first, never before the first session or after untilDate
+      const monday = addDays(day, day.getDay() === 0 ? -6 : 1 - day.getDay());
+      target = [0, 1, 2, 3, 4, 5]
+        .map(i => addDays(monday, i))
+        .sort((a, b) => Math.abs(a.getTime() - day.getTime()) - Math.abs(b.getTime() - day.getTime()))
+        .map(d => format(d, 'yyyy-MM-dd'))
+        .find(d => d !== dateStr && d >= first.date && (!rule.untilDate || d <= rule.untilDate) && !holidayOn(d) && fits(d, periodCount));
+      issues.push(target
+        ? { date: dateStr, reason: 'Trùng lịch', shiftedTo: target }
+        : { date: dateStr, reason: 'Trùng lịch, không còn ngày trống trong tuần' });
+    } else if (!target) {
+      issues.push({ date: dateStr, reason: 'Trùng lịch' });
+    }
+    if (!target) continue;
+
+    classIds.forEach(classId => items.push({ ...first, classId, date: target!, periodCount, id: generateId(), status: ScheduleStatus.PENDING }));
+    placed += periodCount;
+  }
+
+  return { items, issues };
+};
+
+// First free slot after `fromDate` for a session (all classes of a shared session together): the same periods
+// first, then any start inside the same part of the day. Sundays and holidays are skipped; checkConflict decides.
+export const findNextFreeSlot = (
+  items: ScheduleItem[],
+  fromDate: string,
+  existingItems: ScheduleItem[],
+  subjects: Subject[],
+  holidays: Holiday[],
+  resources: ConflictResources = {},
+  maxDays = 60
+): { date: string; startPeriod: number } | undefined => {
+  const first = items[0];
+  const ids = items.map(i => i.id);
+  const [sessionStart, sessionEnd] = SESSION_RANGES[getSessionFromPeriod(first.startPeriod)];
+  const starts = [first.startPeriod];
+  for (let p = sessionStart; p + first.periodCount - 1 <= sessionEnd; p++) {
+    if (p !== first.startPeriod) starts.push(p);
+  }
+
+  for (let i = 1; i <= maxDays; i++) {
+    const day = addDays(parseLocal(fromDate), i);
+    if (day.getDay() === 0) continue;
+    const dateStr = format(day, 'yyyy-MM-dd');
+    if (holidays.some(h => dateStr >= h.startDate && dateStr <= h.endDate)) continue;
+
+    const startPeriod = starts.find(start => items.every(item =>
+      !checkConflict({ ...item, date: dateStr, startPeriod: start, session: getSessionFromPeriod(start) }, existingItems, subjects, ids, resources).hasConflict
+    ));
+    if (startPeriod !== undefined) return { date: dateStr, startPeriod };
+  }
+  return undefined;
+};
+
+// A session displaced by a holiday and where it could go
+export interface HolidayMove {
+  items: ScheduleItem[]; // The session, or every class of a shared session
+  target?: { date: string; startPeriod: number }; // Next free slot after the holiday; none found = cancel it
+}
+
+// Sessions (not already cancelled) inside the holiday, each with the next free slot after it.
+// Slots are taken in date order so two displaced sessions never get the same one.
+export const planHolidayReschedule = (
+  holiday: Pick<Holiday, 'startDate' | 'endDate'>,
+  schedules: ScheduleItem[],
+  subjects: Subject[],
+  holidays: Holiday[],
+  resources: ConflictResources = {}
+): HolidayMove[] => {
+  const displaced = schedules
+    .filter(s => s.date >= holiday.startDate && s.date <= holiday.endDate && s.status !== ScheduleStatus.OFF)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod);
+
+  // Shared sessions (same subject, teacher, date and periods) move together
+  const groups: ScheduleItem[][] = [];
+  displaced.forEach(s => {
+    const group = groups.find(g => g[0].subjectId === s.subjectId && g[0].teacherId === s.teacherId && g[0].date === s.date && g[0].startPeriod === s.startPeriod);
+    if (group) group.push(s);
+    else groups.push([s]);
+  });
+
+  const occupied = schedules.filter(s => !displaced.includes(s));
+  return groups.map(items => {
+    const target = findNextFreeSlot(items, holiday.endDate, occupied, subjects, holidays, resources);
+    if (target) occupied.push(...items.map(i => ({ ...i, ...target, session: getSessionFromPeriod(target.startPeriod) })));
+    return { items, target };
+  });
+};
+
+// A cancelled (OFF) session and the make-up periods scheduled for it
+export interface MissedSession {
+  item: ScheduleItem;
+  recovered: number;
+  outstanding: number;
+  makeups: ScheduleItem[];
+}
+
+// Make-up balance of a subject-class-group (group undefined = whole class)
+export interface MakeupBalance {
+  subjectId: string;
+  classId: string;
+  group?: string;
+  missed: number;
+  recovered: number;
+  outstanding: number;
+  sessions: MissedSession[];
+}
+
+// Period-accurate make-up balances over the cancelled (OFF) sessions still owed (makeupNeeded not turned off).
+// A make-up (MAKEUP) first covers the missed sessions it is linked to
+// (makeupFor, earliest first); its leftover periods and unlinked make-ups cover the earliest outstanding
+// sessions of the same subject-class-group.
+export const getMakeupBalances = (schedules: ScheduleItem[]): MakeupBalance[] => {
+  const keyOf = (s: ScheduleItem) => `${s.subjectId}|${s.classId}|${s.group || ''}`;
+  const balances: Record<string, MakeupBalance> = {};
+  const byId: Record<string, MissedSession> = {};
+
+  schedules
+    .filter(s => s.status === ScheduleStatus.OFF && s.makeupNeeded !== false)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod)
+    .forEach(item => {
+      const key = keyOf(item);
+      if (!balances[key]) balances[key] = { subjectId: item.subjectId, classId: item.classId, group: item.group || undefined, missed: 0, recovered: 0, outstanding: 0, sessions: [] };
+      const session: MissedSession = { item, recovered: 0, outstanding: item.periodCount, makeups: [] };
+      balances[key].sessions.push(session);
+      byId[item.id] = session;
+    });
+
+  const cover = (session: MissedSession, makeup: ScheduleItem, periods: number): number => {
+    const used = Math.min(periods, session.outstanding);
+    if (used <= 0) return periods;
+    session.recovered += used;
+    session.outstanding -= used;
+    session.makeups.push(makeup);
+    return periods - used;
   };
+
+  const makeups = schedules
+    .filter(s => s.status === ScheduleStatus.MAKEUP)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startPeriod - b.startPeriod);
+
+  // Linked periods first so an unlinked make-up never takes a session someone else explicitly covers
+  const leftovers = makeups.map(makeup => {
+    const linked = (makeup.makeupFor || []).map(id => byId[id]).filter((m): m is MissedSession => !!m)
+      .sort((a, b) => a.item.date.localeCompare(b.item.date) || a.item.startPeriod - b.item.startPeriod);
+    return { makeup, periods: linked.reduce((left, session) => cover(session, makeup, left), makeup.periodCount) };
+  });
+  leftovers.forEach(({ makeup, periods }) => {
+    const balance = balances[keyOf(makeup)];
+    if (balance) balance.sessions.reduce((left, session) => cover(session, makeup, left), periods);
+  });
+
+  return Object.values(balances).map(b => {
+    b.missed = b.sessions.reduce((sum, m) => sum + m.item.periodCount, 0);
+    b.recovered = b.sessions.reduce((sum, m) => sum + m.recovered, 0);
+    b.outstanding = b.missed - b.recovered;
+    return b;
+  });
 };
 
 // NEW: Helper to get sequence info (cumulative progress, isFirst, isLast)
@@ -219,41 +746,372 @@ export const determineStatus = (dateStr: string, startPeriod: number, currentSta
   return ScheduleStatus.ONGOING;
 };
 
+export const getSubjectProgress = (
+  records: SubjectProgressRecord[],
+  subjectId: string,
+  classId: string
+): SubjectProgressRecord | undefined => records.find(r => r.subjectId === subjectId && r.classId === classId);
+
 // NEW: Global unified check for subject completion
 export const isSubjectFinished = (
   subject: Subject,
   classId: string,
-  schedules: ScheduleItem[]
+  schedules: ScheduleItem[],
+  progressRecords: SubjectProgressRecord[],
+  practiceGroups: string[] = []
 ): boolean => {
     // Cultural 8 subjects are never considered "finished" for payment/stats purposes automatically
     if (subject.majorId === 'culture_8') return false;
 
-    const uniqueKey = `${subject.id}-${classId}`;
-    
-    // 1. Metadata (Teaching Progress Override)
-    try {
-        const metaJson = localStorage.getItem('subject_progress_metadata');
-        if (metaJson) {
-            const meta = JSON.parse(metaJson);
-            const data = meta[uniqueKey];
-            if (data?.statusOverride === 'completed') return true;
-            if (data?.statusOverride === 'in-progress') return false; 
-        }
-    } catch (e) { console.error(e) }
-
-    // 2. Legacy Manual & Paid Checks (Optional fallback)
-    try {
-        const paid = JSON.parse(localStorage.getItem('paid_completed_subjects') || '[]');
-        if (paid.includes(uniqueKey)) return true;
-        const manual = JSON.parse(localStorage.getItem('manual_completed_subjects') || '[]');
-        if (manual.includes(uniqueKey)) return true;
-    } catch (e) { console.error(e) }
-
-    // 3. Auto Calculation (Based on Period Count)
-    const learned = schedules
-        .filter(s => s.subjectId === subject.id && s.classId === classId && s.status !== ScheduleStatus.OFF)
-        .reduce((acc, curr) => acc + curr.periodCount, 0);
-        
-    // Must have started (learned > 0) AND reached total
-    return learned >= subject.totalPeriods && learned > 0;
+    const record = getSubjectProgress(progressRecords, subject.id, classId);
+
+    // 1. Teaching Progress Override
+    if (record?.statusOverride === 'completed') return true;
+    if (record?.statusOverride === 'in-progress') return false;
+
+    // 2. Manual & Paid flags
+    if (record?.paid || record?.manualCompleted) return true;
+
+    // 3. Auto Calculation: theory and the practice of every group taught (must have started)
+    return getSubjectComponentProgress(subject, classId, schedules, practiceGroups).finished;
+};
+
+// Sessions that count towards teaching payment: class sessions plus practice exams ("thực hành" in the note),
+// excluding cancelled ones
+export const isPayableSession = (s: ScheduleItem): boolean => {
+  if (s.status === ScheduleStatus.OFF) return false;
+  if (s.type === 'class') return true;
+  return s.type === 'exam' && !!s.note && s.note.toLowerCase().includes('thực hành');
+};
+
+// Session that has actually been taught: completed as computed by determineStatus (stored status stays PENDING
+// until then), or a make-up session whose date has passed
+export const isTaughtSession = (s: ScheduleItem): boolean => {
+  if (determineStatus(s.date, s.startPeriod, s.status) === ScheduleStatus.COMPLETED) return true;
+  return s.status === ScheduleStatus.MAKEUP && s.date < format(new Date(), 'yyyy-MM-dd');
+};
+
+// Payable sessions of a subject-class, sorted by date then start period
+export const getPayableSchedules = (schedules: ScheduleItem[], subjectId: string, classId: string): ScheduleItem[] =>
+  schedules
+    .filter(s => s.subjectId === subjectId && s.classId === classId && isPayableSession(s))
+    .sort((a, b) => parseLocal(a.date).getTime() - parseLocal(b.date).getTime() || a.startPeriod - b.startPeriod);
+
+// Payable periods of a subject-class split by the teacher of each session (largest share first)
+export const getTeacherPaymentLines = (
+  schedules: ScheduleItem[],
+  subjectId: string,
+  classId: string
+): { teacherId: string; periods: number; schedules: ScheduleItem[] }[] => {
+  const lines: Record<string, { teacherId: string; periods: number; schedules: ScheduleItem[] }> = {};
+  getPayableSchedules(schedules, subjectId, classId).forEach(s => {
+    if (!lines[s.teacherId]) lines[s.teacherId] = { teacherId: s.teacherId, periods: 0, schedules: [] };
+    lines[s.teacherId].periods += s.periodCount;
+    lines[s.teacherId].schedules.push(s);
+  });
+  return Object.values(lines).sort((a, b) => b.periods - a.periods);
+};
+
+// A subject-class counts as paid once every teacher who taught it has an active (not reversed) payment
+export const isFullyPaid = (
+  payments: PaymentRecord[],
+  schedules: ScheduleItem[],
+  subjectId: string,
+  classId: string
+): boolean => {
+  const active = payments.filter(p => !p.reversedAt && p.subjectId === subjectId && p.classId === classId);
+  if (active.length === 0) return false;
+  const teacherIds = getTeacherPaymentLines(schedules, subjectId, classId).map(l => l.teacherId);
+  return teacherIds.every(id => active.some(p => p.teacherId === id));
+};
+
+// Practice (thực hành) session: taught to one practice group, or a practice exam ("thực hành" in the note)
+export const isPracticeSession = (s: ScheduleItem): boolean =>
+  !!s.group || (s.type === 'exam' && !!s.note && s.note.toLowerCase().includes('thực hành'));
+
+// Rate tables: rules valid on the session date that match its teacher, session, type and theory/practice kind
+const getMatchingRateRules = (item: ScheduleItem, teacher: Teacher | undefined, rules: RateRule[]): RateRule[] =>
+  rules.filter(r =>
+    r.startDate <= item.date &&
+    (!r.endDate || item.date <= r.endDate) &&
+    (!r.teacherId || r.teacherId === item.teacherId) &&
+    (!r.teacherCategory || r.teacherCategory === teacher?.category) &&
+    (!r.session || r.session === item.session) &&
+    (!r.scheduleType || r.scheduleType === item.type) &&
+    (!r.sessionKind || r.sessionKind === (isPracticeSession(item) ? 'practice' : 'theory'))
+  );
+
+// Specificity used to pick the base rate: a teacher-specific rule beats a category rule, which beats a general one
+const rateRuleScore = (r: RateRule) =>
+  (r.teacherId ? 4 : r.teacherCategory ? 2 : 0) + (r.session ? 1 : 0) + (r.scheduleType ? 1 : 0) + (r.sessionKind ? 1 : 0);
+
+// Rate per period (VND) for one session as of its date.
+// Base = most specific matching rule with a rate (latest start date on ties), else Teacher.ratePerPeriod;
+// then the multipliers of every matching rule are applied.
+export const getScheduleRate = (item: ScheduleItem, teachers: Teacher[], rules: RateRule[]): number => {
+  const teacher = teachers.find(t => t.id === item.teacherId);
+  const matching = getMatchingRateRules(item, teacher, rules);
+
+  const baseRule = matching
+    .filter(r => r.rate !== undefined && r.rate !== null)
+    .sort((a, b) => rateRuleScore(b) - rateRuleScore(a) || b.startDate.localeCompare(a.startDate))[0];
+  const base = baseRule ? baseRule.rate! : (teacher?.ratePerPeriod || 0);
+
+  const multiplier = matching.reduce((acc, r) => acc * (r.multiplier || 1), 1);
+  return Math.round(base * multiplier);
+};
+
+// Total amount (VND) of a list of sessions, each priced as of its own date
+export const getSchedulesAmount = (items: ScheduleItem[], teachers: Teacher[], rules: RateRule[]): number =>
+  items.reduce((sum, s) => sum + s.periodCount * getScheduleRate(s, teachers, rules), 0);
+
+// Attendance: a student absent for more than this share of Subject.totalPeriods is barred from the exam
+export const ABSENCE_CEILING_RATIO = 0.2;
+
+export interface AbsenceTotal {
+  excused: number;   // Periods absent with permission
+  unexcused: number; // Periods absent without permission
+  late: number;      // Number of late arrivals (not counted as absence)
+}
+
+// Absence totals per student for a subject in a class, from the roll calls of its class sessions
+export const getAbsenceTotals = (
+  subjectId: string,
+  classId: string,
+  schedules: ScheduleItem[],
+  attendance: AttendanceRecord[]
+): Record<string, AbsenceTotal> => {
+  const sessions = new Map(
+    schedules
+      .filter(s => s.type === 'class' && s.subjectId === subjectId && s.classId === classId && s.status !== ScheduleStatus.OFF)
+      .map(s => [s.id, s])
+  );
+  const totals: Record<string, AbsenceTotal> = {};
+  attendance.forEach(record => {
+    const session = sessions.get(record.scheduleId);
+    if (!session) return;
+    record.entries.forEach(e => {
+      if (!totals[e.studentId]) totals[e.studentId] = { excused: 0, unexcused: 0, late: 0 };
+      if (e.status === 'excused') totals[e.studentId].excused += session.periodCount;
+      if (e.status === 'unexcused') totals[e.studentId].unexcused += session.periodCount;
+      if (e.status === 'late') totals[e.studentId].late += 1;
+    });
+  });
+  return totals;
+};
+
+// Maximum periods a student may miss in a subject before being barred from the exam
+export const getAbsenceCeiling = (subject: Subject) => Math.floor(subject.totalPeriods * ABSENCE_CEILING_RATIO);
+
+export const isBarredFromExam = (total: AbsenceTotal | undefined, subject: Subject) =>
+  !!total && total.excused + total.unexcused > getAbsenceCeiling(subject);
+
+// Grade book (scale 10)
+export const PASS_SCORE = 5;
+
+// Used when a subject has no assessment components configured
+export const DEFAULT_ASSESSMENT_COMPONENTS: AssessmentComponent[] = [
+  { id: 'tx', name: 'Thường xuyên', weight: 20 },
+  { id: 'dk', name: 'Định kỳ', weight: 30 },
+  { id: 'thi', name: 'Thi kết thúc', weight: 50, isFinalExam: true },
+];
+
+export const getAssessmentComponents = (subject: Subject): AssessmentComponent[] =>
+  subject.assessmentComponents && subject.assessmentComponents.length > 0 ? subject.assessmentComponents : DEFAULT_ASSESSMENT_COMPONENTS;
+
+// Weighted final score rounded to 1 decimal, or null while a component score is missing.
+// `useReExam` replaces the final exam score with the re-exam score when there is one.
+export const computeFinalScore = (
+  grade: Pick<GradeRecord, 'scores' | 'reExamScore'> | undefined,
+  components: AssessmentComponent[],
+  useReExam = true
+): number | null => {
+  if (!grade || components.length === 0) return null;
+  let total = 0;
+  let weights = 0;
+  for (const c of components) {
+    const score = useReExam && c.isFinalExam && grade.reExamScore !== undefined ? grade.reExamScore : grade.scores[c.id];
+    if (score === undefined || score === null || isNaN(score)) return null;
+    total += score * c.weight;
+    weights += c.weight;
+  }
+  return weights > 0 ? Math.round((total / weights) * 10) / 10 : null;
+};
+
+export type GradeResult = 'incomplete' | 'passed' | 'reexam' | 'reexam-passed' | 'failed';
+
+// passed: passed at the first sitting; reexam: failed and waiting for the re-exam score;
+// reexam-passed / failed: outcome after the re-exam
+export const getGradeResult = (grade: GradeRecord | undefined, components: AssessmentComponent[]): GradeResult => {
+  const firstScore = computeFinalScore(grade, components, false);
+  if (firstScore === null) return 'incomplete';
+  if (firstScore >= PASS_SCORE) return 'passed';
+  if (grade?.reExamScore === undefined) return 'reexam';
+  const reExamFinal = computeFinalScore(grade, components, true);
+  return reExamFinal !== null && reExamFinal >= PASS_SCORE ? 'reexam-passed' : 'failed';
+};
+
+// Delete impact: data still referencing a teacher / subject / class
+export interface DeleteImpact {
+  schedules: ScheduleItem[];
+  students: Student[];                   // Class only
+  payments: PaymentRecord[];
+  progress: SubjectProgressRecord[];     // Progress / paid flags
+  attendance: AttendanceRecord[];        // Roll calls of the dependent sessions
+  grades: GradeRecord[];
+  rateRules: RateRule[];                 // Teacher-specific rates
+  mainSubjectTeachers: Teacher[];        // Subject only: teachers having it as main subject
+}
+
+export const DELETE_REF_FIELD: Record<DeleteKind, 'teacherId' | 'subjectId' | 'classId'> = {
+  teacher: 'teacherId',
+  subject: 'subjectId',
+  class: 'classId',
+};
+
+export const getDeleteImpact = (
+  state: Pick<AppState, 'schedules' | 'students' | 'payments' | 'subjectProgress' | 'attendance' | 'grades' | 'rateRules' | 'teachers'>,
+  kind: DeleteKind,
+  id: string
+): DeleteImpact => {
+  const field = DELETE_REF_FIELD[kind];
+  const schedules = state.schedules.filter(s => s[field] === id);
+  const scheduleIds = new Set(schedules.map(s => s.id));
+  return {
+    schedules,
+    students: kind === 'class' ? state.students.filter(s => s.classId === id) : [],
+    payments: state.payments.filter(p => p[field] === id),
+    progress: kind === 'teacher' ? [] : state.subjectProgress.filter(p => p[field as 'subjectId' | 'classId'] === id),
+    attendance: state.attendance.filter(a => scheduleIds.has(a.scheduleId)),
+    grades: kind === 'teacher' ? [] : state.grades.filter(g => g[field as 'subjectId' | 'classId'] === id),
+    rateRules: kind === 'teacher' ? state.rateRules.filter(r => r.teacherId === id) : [],
+    mainSubjectTeachers: kind === 'subject' ? state.teachers.filter(t => t.mainSubject === id) : [],
+  };
+};
+
+export const hasDeleteImpact = (impact: DeleteImpact) =>
+  Object.values(impact).some(list => list.length > 0);
+
+// Class archive: moves the data of a finished class out of the working collections (and back)
+type ArchivedCollections = Pick<AppState, 'classes' | 'students' | 'schedules' | 'subjectProgress' | 'attendance' | 'grades' | 'classArchives'>;
+
+export const archiveClassData = <S extends ArchivedCollections>(state: S, classId: string, archivedAt: string, note?: string): S => {
+  if (state.classArchives.some(a => a.classId === classId)) return state;
+  const scheduleIds = new Set(state.schedules.filter(s => s.classId === classId).map(s => s.id));
+  const archive: ClassArchive = {
+    id: generateId(),
+    classId,
+    archivedAt,
+    note,
+    students: state.students.filter(s => s.classId === classId),
+    schedules: state.schedules.filter(s => scheduleIds.has(s.id)),
+    subjectProgress: state.subjectProgress.filter(p => p.classId === classId),
+    attendance: state.attendance.filter(a => scheduleIds.has(a.scheduleId)),
+    grades: state.grades.filter(g => g.classId === classId),
+  };
+  return {
+    ...state,
+    classes: state.classes.map(c => c.id === classId ? { ...c, archived: true } : c),
+    students: state.students.filter(s => s.classId !== classId),
+    schedules: state.schedules.filter(s => !scheduleIds.has(s.id)),
+    subjectProgress: state.subjectProgress.filter(p => p.classId !== classId),
+    attendance: state.attendance.filter(a => !scheduleIds.has(a.scheduleId)),
+    grades: state.grades.filter(g => g.classId !== classId),
+    classArchives: [...state.classArchives, archive],
+  };
+};
+
+export const restoreClassData = <S extends ArchivedCollections>(state: S, classId: string): S => {
+  const archive = state.classArchives.find(a => a.classId === classId);
+  return {
+    ...state,
+    classes: state.classes.map(c => c.id === classId ? { ...c, archived: false } : c),
+    students: archive ? [...state.students, ...archive.students] : state.students,
+    schedules: archive ? [...state.schedules, ...archive.schedules] : state.schedules,
+    subjectProgress: archive ? [...state.subjectProgress, ...archive.subjectProgress] : state.subjectProgress,
+    attendance: archive ? [...state.attendance, ...archive.attendance] : state.attendance,
+    grades: archive ? [...state.grades, ...archive.grades] : state.grades,
+    classArchives: state.classArchives.filter(a => a.classId !== classId),
+  };
+};
+
+// Semesters: `semester` undefined means no semester selected (all time)
+export const isInSemester = (dateStr: string, semester?: Semester): boolean =>
+  !semester || (!!dateStr && dateStr >= semester.startDate && dateStr <= semester.endDate);
+
+export const getSemesterOf = (dateStr: string, semesters: Semester[]): Semester | undefined =>
+  semesters.find(s => dateStr >= s.startDate && dateStr <= s.endDate);
+
+// Semester containing today, else the latest one that has started, else the first
+export const getCurrentSemester = (semesters: Semester[]): Semester | undefined => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const sorted = [...semesters].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  return getSemesterOf(today, sorted) || [...sorted].reverse().find(s => s.startDate <= today) || sorted[0];
+};
+
+// Week number inside the semester overlapping the (Monday-based) week of `date`; week 1 contains the start date.
+// null when the week is outside every semester.
+export const getSemesterWeek = (date: Date, semesters: Semester[]): { semester: Semester; week: number } | null => {
+  const monday = startOfWeek(date, { weekStartsOn: 1 });
+  const from = format(monday, 'yyyy-MM-dd');
+  const to = format(addDays(monday, 6), 'yyyy-MM-dd');
+  const semester = semesters.find(s => s.startDate <= to && s.endDate >= from);
+  if (!semester) return null;
+  return { semester, week: differenceInCalendarWeeks(monday, parseLocal(semester.startDate), { weekStartsOn: 1 }) + 1 };
+};
+
+export const getSemesterLabel = (semester: Semester, academicYears: { id: string; name: string }[]) => {
+  const year = academicYears.find(y => y.id === semester.academicYearId);
+  return year ? `${semester.name} - ${year.name}` : semester.name;
+};
+
+// Culture track: "H8" classes take the 8-subject culture programme (culture_8) instead of the full one (culture)
+export const isCulture8Class = (cls: Pick<ClassEntity, 'name'>) => (cls.name || '').toUpperCase().includes('H8');
+
+// Subjects of a class not linked to a curriculum: its major, the shared 'common' ones and its culture track
+export const isDefaultClassSubject = (cls: Pick<ClassEntity, 'name' | 'majorId'>, subject: Pick<Subject, 'majorId'>) =>
+  subject.majorId === cls.majorId || subject.majorId === 'common' || subject.majorId === (isCulture8Class(cls) ? 'culture_8' : 'culture');
+
+// Curriculum: subjects a class takes, in curriculum order (see isDefaultClassSubject without a curriculum)
+export const getClassSubjects = (cls: ClassEntity, curricula: Curriculum[], subjects: Subject[]): Subject[] => {
+  const curriculum = curricula.find(c => c.id === cls.curriculumId);
+  if (!curriculum) return subjects.filter(s => isDefaultClassSubject(cls, s));
+  return curriculum.subjects
+    .map(cs => subjects.find(s => s.id === cs.subjectId))
+    .filter((s): s is Subject => !!s);
+};
+
+// Programme semester (1, 2, ...) that `semester` is for a class of the curriculum, counted from the first
+// semester of the academic year starting in the intake year. null when the semester is before the intake.
+export const getProgrammeSemesterNo = (
+  curriculum: Curriculum,
+  semester: Semester,
+  semesters: Semester[],
+  academicYears: AcademicYear[]
+): number | null => {
+  const sorted = [...semesters].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const first = sorted.findIndex(s => {
+    const year = academicYears.find(y => y.id === s.academicYearId);
+    return parseLocal(year ? year.startDate : s.startDate).getFullYear() >= curriculum.intakeYear;
+  });
+  const index = sorted.findIndex(s => s.id === semester.id);
+  return first === -1 || index < first ? null : index - first + 1;
+};
+
+export const classTakesSubject = (cls: ClassEntity, subjectId: string, curricula: Curriculum[], subjects: Subject[]): boolean =>
+  getClassSubjects(cls, curricula, subjects).some(s => s.id === subjectId);
+
+// Prerequisites of the subject (per the class curriculum) the class has not finished yet
+export const getUnmetPrerequisites = (
+  cls: ClassEntity,
+  subjectId: string,
+  curricula: Curriculum[],
+  subjects: Subject[],
+  schedules: ScheduleItem[],
+  progressRecords: SubjectProgressRecord[]
+): Subject[] => {
+  const entry = curricula.find(c => c.id === cls.curriculumId)?.subjects.find(cs => cs.subjectId === subjectId);
+  return (entry?.prerequisiteIds || [])
+    .map(id => subjects.find(s => s.id === id))
+    .filter((s): s is Subject => !!s && !isSubjectFinished(s, cls.id, schedules, progressRecords, cls.practiceGroups));
 };